@@ -0,0 +1,86 @@
+import type { Arg0, HKT } from "hkt-core";
+import { bench, describe } from "vitest";
+
+import type { ADT, Data } from "../src";
+import { ADTConstructorProto, ADTProto, make, unwrap } from "../src";
+
+type Option<T> = Data<{
+  Some: [value: T];
+  None: [];
+}>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+/**
+ * The proxy returned by `make()` before generated functions were memoized, which generates a new
+ * function on every access, kept here as a reference.
+ * @returns
+ */
+const makeReference = <T extends object>(): T =>
+  new Proxy({} as T, {
+    get(_, prop: string) {
+      const rename = <F extends (...args: never[]) => unknown>(fn: F, name: string): F =>
+        Object.defineProperty(fn, "name", { value: name, configurable: true });
+      if (prop.startsWith("is")) {
+        const tag = prop.slice(2);
+        return rename((adt: ADT & { readonly _tag: string }) => adt._tag === tag, prop);
+      }
+      if (prop.startsWith("if")) {
+        const tag = prop.slice(2);
+        return rename(
+          (
+            adt: ADT & { readonly _tag: string },
+            onMatch: (...args: unknown[]) => unknown,
+            otherwise?: (adt: ADT & { readonly _tag: string }) => unknown,
+          ) => {
+            if (adt._tag === tag) return onMatch(...unwrap(adt));
+            if (otherwise) return otherwise(adt);
+          },
+          prop,
+        );
+      }
+      return Object.setPrototypeOf(
+        Object.assign(
+          rename((...args: unknown[]) => {
+            const result = Object.create(ADTProto);
+            result._tag = prop;
+            for (let i = 0; i < args.length; i++) result["_" + i] = args[i];
+            return result;
+          }, prop),
+          { _tag: prop },
+        ),
+        ADTConstructorProto,
+      );
+    },
+  });
+
+describe("access generated functions", () => {
+  const OptionWithoutVariants = make<OptionHKT>();
+  const OptionWithVariants = make<OptionHKT>(["Some", "None"]);
+  const OptionReference = makeReference<typeof OptionWithoutVariants>();
+
+  bench("without runtime variants (reference)", () => {
+    for (let i = 0; i < 1000; i++) {
+      OptionReference.ifSome(OptionReference.Some(i), (n) => n);
+      OptionReference.isSome(OptionReference.None);
+      OptionReference.ifNone(OptionReference.None, () => i);
+    }
+  });
+
+  bench("without runtime variants (proxy)", () => {
+    for (let i = 0; i < 1000; i++) {
+      OptionWithoutVariants.ifSome(OptionWithoutVariants.Some(i), (n) => n);
+      OptionWithoutVariants.isSome(OptionWithoutVariants.None);
+      OptionWithoutVariants.ifNone(OptionWithoutVariants.None, () => i);
+    }
+  });
+
+  bench("with runtime variants", () => {
+    for (let i = 0; i < 1000; i++) {
+      OptionWithVariants.ifSome(OptionWithVariants.Some(i), (n) => n);
+      OptionWithVariants.isSome(OptionWithVariants.None);
+      OptionWithVariants.ifNone(OptionWithVariants.None, () => i);
+    }
+  });
+});
@@ -0,0 +1,72 @@
+import type { Arg0, HKT } from "hkt-core";
+import { bench, describe } from "vitest";
+
+import type { Data } from "../src";
+import { make } from "../src";
+
+type Tree<T> = Data<{
+  Node: { 0: T; 1: Tree<T>; 2: Tree<T> };
+  Leaf: [];
+}>;
+interface TreeHKT extends HKT {
+  return: Tree<Arg0<this>>;
+}
+
+const { Leaf, Node } = make<TreeHKT>(["Node", "Leaf"]);
+
+// The implementation of curried match functions before they were compiled into dispatchers, which
+// unwraps the fields of each ADT into an array, kept here as a reference
+const referenceUnwrap = (adt: object) => {
+  const result: unknown[] = [];
+  for (const key in adt)
+    if (Object.prototype.hasOwnProperty.call(adt, key))
+      if (key.startsWith("_") && !isNaN(Number(key.slice(1))))
+        result[Number(key.slice(1))] = adt[key as keyof typeof adt];
+  return result;
+};
+const referenceMatch =
+  <R>(cases: {
+    Node: (value: number, left: Tree<number>, right: Tree<number>) => R;
+    Leaf: () => R;
+  }) =>
+  (adt: Tree<number>): R => {
+    if (adt == null || !["Node", "Leaf"].includes(adt._tag)) throw new TypeError("Unexpected ADT");
+    return (cases[adt._tag] as (...fields: unknown[]) => R)(...referenceUnwrap(adt));
+  };
+
+const createTree = (depth: number): Tree<number> =>
+  depth === 0 ? Leaf : Node(depth, createTree(depth - 1), createTree(depth - 1));
+
+describe.each([
+  ["without runtime variants (proxy)", make<TreeHKT>()],
+  ["with runtime variants", make<TreeHKT>(["Node", "Leaf"])],
+])("match over a tree %s", (_, Tree) => {
+  const tree = createTree(14);
+
+  bench("curried (reference)", () => {
+    const sum: (tree: Tree<number>) => number = referenceMatch({
+      Node: (value, left, right) => value + sum(left) + sum(right),
+      Leaf: () => 0,
+    });
+    sum(tree);
+  });
+
+  // Uncurried match functions unwrap the fields of each ADT into an array
+  bench("uncurried", () => {
+    const sum = (tree: Tree<number>): number =>
+      Tree.match(tree, {
+        Node: (value, left, right) => value + sum(left) + sum(right),
+        Leaf: () => 0,
+      });
+    sum(tree);
+  });
+
+  // Curried match functions are compiled into dispatchers reading the fields directly
+  bench("curried (precompiled)", () => {
+    const sum: (tree: Tree<number>) => number = Tree.match({
+      Node: (value, left, right) => value + sum(left) + sum(right),
+      Leaf: () => 0,
+    });
+    sum(tree);
+  });
+});
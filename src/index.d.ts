@@ -10,29 +10,516 @@
  * - `ADT.unwrap<Tag>`: Deconstructor for the ADT with a specific tag. If the passed ADT has a
  *   different tag, it will throw an error.
  * - `ADT.if<Tag>`: Conditional deconstructor for the ADT. Similar to Rust’s `if let` syntax.
+ * - `ADT.if<Tag>Async`: Same as `ADT.if<Tag>`, but accepts a promise of the ADT and returns a
+ *   promise of the result (see {@linkcode ConditionalDeconstructorAsync}). Since `if<Tag>Async` of
+ *   a variant is also the name of `if<Tag>` of the variant suffixed with `Async`, variants like
+ *   `Foo` and `FooAsync` cannot be used together: `make` throws a `TypeError` if given both, and
+ *   without runtime variants, `ADT.ifFooAsync` is always the one of `Foo`.
  * - `ADT.match`: A match function to pattern match the ADT. This function requires the return type
- *   of each case to be the same.
+ *   of each case to be the same. If the variants are provided to `make`, unknown case keys (e.g.,
+ *   misspelled ones) throw a `TypeError` outside of production builds.
  * - `ADT.matchW`: Same as `ADT.match`, but allows the return type of each case to be different.
- * @param variants The variants of the ADT. If not provided, a proxy object will be returned.
+ * - `ADT.matchAsync`/`ADT.matchWAsync`: Same as `ADT.match`/`ADT.matchW`, but accept a promise of
+ *   the ADT and async handlers, returning a single promise of the result.
+ * - `ADT.matchNamed`: Same as `ADT.matchW`, but object-style: each case is called with the ADT
+ *   itself instead of its fields, so the fields can be destructured by their labels (see the
+ *   `labels` option of {@linkcode MakeOptions}), e.g., `Ok: ({ value }) => ...`.
+ * - `ADT.matchPattern`: Match the ADT against a list of cases with nested patterns, literal
+ *   patterns and guards (see {@linkcode P} and {@linkcode PatternMatcher}).
+ * - `ADT.equals`: Check if two ADTs are structurally equal (see {@linkcode equals}).
+ * - `ADT.revive`: Restore the prototypes of ADTs (recursively, in place) that have lost them, e.g.,
+ *   after `JSON.parse`, `structuredClone` or `postMessage`. Serialized nullary ADTs (`{ _tag }`)
+ *   are revived as their constructors. If `variants` is provided, unknown tags of the revived value
+ *   itself are rejected, while nested ADTs with unknown tags (e.g., created by other `make` calls)
+ *   are revived without labels or overrides.
+ * - `ADT.reviver`: Same as `ADT.revive`, but as a reviver function for `JSON.parse`.
+ * - `ADT.parse`: Parse a value written in the notation ADTs are displayed in (e.g.,
+ *   `Some({ value: [1, 2n] })`), throwing a {@linkcode ParseError} with the line and column if the
+ *   text is invalid. If `variants` is provided, unknown tags are rejected. If the arities are
+ *   declared, the number of fields is checked, and if field schemas are provided, the fields of
+ *   parsed ADTs are validated as well.
+ * - `ADT.encode`: Convert an ADT (and nested ADTs) to plain JSON objects.
+ * - `ADT.decode`: Convert untrusted input (e.g., parsed JSON) to an ADT, checking the tag against
+ *   the variants. If the arities are declared (by field schemas or numbers), the number of fields
+ *   is checked as well, and so is each field if field schemas are provided. Returns a
+ *   {@linkcode ValidationError} with the path to the invalid value if the input is invalid.
+ * - `ADT.toJSONSchema`: Generate a [JSON Schema](https://json-schema.org) (draft 2020-12) for the
+ *   ADT, e.g., for OpenAPI documents (see {@linkcode JSONSchemaOptions}).
+ * - `ADT.tags`: The tags of the variants, in the order they are passed to `make`.
+ * - `ADT.variants`: An object mapping each tag to its constructor.
+ * - `ADT.arity`: Get the arity of a variant (see `Constructor.arity`), throwing a
+ *   {@linkcode VariantMismatchError} for unknown tags.
+ * - `ADT.labels`: The `labels` option passed to `make`, if any.
+ * - `ADT.gen`/`ADT.genAsync`: Do-notation for monadic ADTs, only generated if the `monadic` option
+ *   is passed to `make` (see {@linkcode MakeOptions}).
+ *
+ * The returned object also implements [Standard Schema](https://standardschema.dev) (the same as
+ * `ADT.decode`), so it can be used as the schema of fields of other ADTs.
+ * @param variants The variants of the ADT.
+ * @param options The options.
  * @returns
  *
  * @see {@linkcode Data} for details on how to create an ADT.
  */
-export function make<F extends Tagged | TypeLambda<never, Tagged>>(
-  variants?: readonly Instantiate<F>["_tag"][],
-): Instantiate<F> extends infer Type extends Tagged ?
-  Spread<
-    { readonly [Tag in Type["_tag"] as Tag]: Constructor<F, Tag> },
-    { readonly [Tag in Type["_tag"] as `is${Tag}`]: (adt: Type) => adt is FilterTagged<Type, Tag> },
-    { readonly unwrap: Deconstructor<Type> },
-    { readonly [Tag in Type["_tag"] as `unwrap${Tag}`]: Deconstructor<FilterTagged<Type, Tag>> },
-    { readonly [Tag in Type["_tag"] as `if${Tag}`]: ConditionalDeconstructorOf<F, Tag> },
-    {
-      readonly match: MatcherOf<F>;
-      readonly matchW: MatcherOfW<F>;
-    }
-  >
-: never;
+export function make<
+  F extends Tagged | TypeLambda<never, Tagged>,
+  Monadic extends Instantiate<F>["_tag"] = never,
+  const Labels extends LabelsOf<Instantiate<F>> = never,
+>(
+  variants: readonly Instantiate<F>["_tag"][],
+  options?: Omit<MakeOptions<Instantiate<F>>, "safe" | "monadic" | "labels"> &
+    MonadicOption<Monadic> &
+    LabelsOption<Labels>,
+): ADTFunctions<F, never, true, Monadic, Labels>;
+/**
+ * Generate constructors and related functions for an ADT (see the other overload for details)
+ * without runtime variants. A proxy object is returned, which generates functions on demand.
+ *
+ * Since the variants are unknown at runtime, `ADT.decode`, `ADT.toJSONSchema`, the Standard Schema
+ * interface and the reflection members (`ADT.tags`, `ADT.variants`, `ADT.arity` and `ADT.labels`)
+ * are not available. Accessing them throws a `TypeError`.
+ * @returns
+ */
+export function make<F extends Tagged | TypeLambda<never, Tagged>>(): ADTFunctions<F>;
+/**
+ * Generate constructors and related functions for an ADT (see the other overload for details),
+ * declaring the arity (number of fields) of each variant.
+ *
+ * Constructors throw a `TypeError` if called with a different number of arguments (unless
+ * `process.env.NODE_ENV` is `"production"`), and generated functions read the fields of ADTs
+ * directly by their arities. Arities are never inferred, so without declared arities (or field
+ * schemas), i.e., with only the variants or none at all, `Constructor.arity` is `undefined` and
+ * constructors accept any number of arguments.
+ * @param arities An object mapping each variant to its arity.
+ * @param options The options.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * const Option = make<OptionHKT>({ Some: 1, None: 0 });
+ * Option.Some.arity; // => 1
+ * ```
+ */
+export function make<
+  F extends Tagged | TypeLambda<never, Tagged>,
+  Monadic extends Instantiate<F>["_tag"] = never,
+  const Labels extends LabelsOf<Instantiate<F>> = never,
+>(
+  arities: VariantArities<Instantiate<F>>,
+  options?: Omit<MakeOptions<Instantiate<F>>, "safe" | "monadic" | "labels"> &
+    MonadicOption<Monadic> &
+    LabelsOption<Labels>,
+): ADTFunctions<F, never, true, Monadic, Labels, true>;
+/**
+ * Generate constructors and related functions for an ADT (see the other overload for details),
+ * validating the fields passed to constructors at runtime with
+ * [Standard Schema](https://standardschema.dev)-compatible validators (e.g., Zod, Valibot or
+ * ArkType schemas).
+ *
+ * Constructors throw a {@linkcode ValidationError} if the number of arguments does not match the
+ * number of schemas or if any field is invalid. The output values of the schemas are used as the
+ * fields of the created ADT.
+ *
+ * For recursive ADTs, a schema can be a thunk returning the schema, e.g., `() => Tree` (the result
+ * of `make` is itself a Standard Schema).
+ * @param schemas An object mapping each variant to the schemas of its fields.
+ * @param options The options.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * const Shape = make<Shape>({
+ *   Circle: [z.number().positive()],
+ *   Rectangle: [z.number().positive(), z.number().positive()],
+ * });
+ *
+ * Shape.Circle(-1); // throws ValidationError: $._0: Number must be greater than 0
+ * ```
+ */
+export function make<
+  F extends Tagged | TypeLambda<never, Tagged>,
+  Monadic extends Instantiate<F>["_tag"] = never,
+  const Labels extends LabelsOf<Instantiate<F>> = never,
+>(
+  schemas: VariantSchemas<Instantiate<F>>,
+  options?: Omit<MakeOptions<Instantiate<F>>, "monadic" | "labels"> &
+    MonadicOption<Monadic> &
+    LabelsOption<Labels> & { readonly safe?: false },
+): ADTFunctions<F, never, true, Monadic, Labels, true>;
+/**
+ * Same as the other overload with schemas, but in safe mode, i.e., constructors return a
+ * {@linkcode ValidationError} instead of throwing it when validation fails.
+ * @param schemas An object mapping each variant to the schemas of its fields.
+ * @param options The options.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * const Shape = make<Shape>({ Circle: [z.number().positive()], ... }, { safe: true });
+ *
+ * const circle = Shape.Circle(-1);
+ * if (circle instanceof ValidationError) console.error(circle.path); // => "$._0"
+ * ```
+ */
+export function make<
+  F extends Tagged | TypeLambda<never, Tagged>,
+  Monadic extends Instantiate<F>["_tag"] = never,
+  const Labels extends LabelsOf<Instantiate<F>> = never,
+>(
+  schemas: VariantSchemas<Instantiate<F>>,
+  options: Omit<MakeOptions<Instantiate<F>>, "monadic" | "labels"> &
+    MonadicOption<Monadic> &
+    LabelsOption<Labels> & { readonly safe: true },
+): ADTFunctions<F, ValidationError, true, Monadic, Labels, true>;
+
+/**
+ * Generate functions for an ADT with a custom {@linkcode Layout}, i.e., a union of plain objects
+ * defined by `Data<Variants, Layout>` whose tags and fields are stored in other keys than `_tag`
+ * and `_0`, `_1`, etc. (e.g., Redux actions like `{ type: "Add", amount: 1 }` or Effect-style
+ * objects like `{ _tag: "Some", value: 42 }`). The same layout should be passed as the `layout`
+ * option at runtime.
+ *
+ * Constructors return plain objects (nullary constructors have to be called as well), and only
+ * `ADT.<Tag>`, `ADT.is<Tag>`, `ADT.unwrap`, `ADT.unwrap<Tag>`, `ADT.if<Tag>`, `ADT.match`,
+ * `ADT.matchW`, `ADT.matchNamed`, `ADT.equals`, `ADT.tags`, `ADT.variants`, `ADT.arity` and
+ * `ADT.layout` are generated. Constructors of generic ADTs are generic over up to two type
+ * parameters. `name` is the only other supported option, and other options throw a `TypeError`.
+ * @param variants The variants of the ADT, or an object mapping each variant to its arity.
+ * @param options The options.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * type Action = Data<
+ *   { Add: [amount: number]; Reset: [] },
+ *   { discriminant: "type"; fields: { Add: ["amount"] } }
+ * >;
+ *
+ * const Action = make<Action>(["Add", "Reset"], {
+ *   layout: { discriminant: "type", fields: { Add: ["amount"] } },
+ * });
+ *
+ * Action.Add(1); // => { type: "Add", amount: 1 }
+ * Action.match({ type: "Add", amount: 1 }, { Add: (amount) => amount, Reset: () => 0 }); // => 1
+ * ```
+ */
+export function make<F extends LaidOut | TypeLambda<never, LaidOut>>(
+  variants: readonly TagOf<InstantiateLaidOut<F>>[] | VariantArities<InstantiateLaidOut<F>>,
+  options: Pick<MakeOptions, "name"> & { readonly layout: LayoutOf<InstantiateLaidOut<F>> },
+): LayoutADTFunctions<F>;
+
+/**
+ * An ADT encoded as a plain JSON object by `ADT.encode` (see {@linkcode make}).
+ */
+export interface EncodedADT<Tag extends string = string> {
+  readonly _tag: Tag;
+  readonly [field: `_${number}`]: unknown;
+}
+
+/**
+ * Options for {@linkcode make}.
+ */
+export interface MakeOptions<Type extends Tagged = Tagged> {
+  /**
+   * Whether constructors should return a {@linkcode ValidationError} instead of throwing it when
+   * validation fails. Only works when schemas are provided.
+   * @default false
+   */
+  readonly safe?: boolean;
+  /**
+   * The name of the ADT, used as the name of its definition in JSON Schemas generated by
+   * `ADT.toJSONSchema` (also when the ADT is referenced by other ADTs).
+   * @default "ADT"
+   */
+  readonly name?: string;
+  /**
+   * The names of the fields of each variant, used as the `title`s of fields in JSON Schemas
+   * generated by `ADT.toJSONSchema`, and exposed as `ADT.labels` at runtime.
+   *
+   * ADTs of labeled variants also get non-enumerable read-only getters named after their fields
+   * (e.g., `circle.radius` for `circle._0`), which can be destructured in the cases of
+   * `ADT.matchNamed`, and the labels are displayed by {@linkcode show} (e.g., `Circle(radius: 1)`).
+   * `_tag` and `_0`, `_1`, etc. are reserved and cannot be used as labels.
+   *
+   * Since TypeScript cannot infer the labels while the type of the ADT is passed explicitly, the
+   * getters are only typed if the type of the labels is also passed as the third type argument of
+   * `make`.
+   *
+   * @example
+   * ```typescript
+   * const labels = { Circle: ["radius"], Rectangle: ["width", "height"] } as const;
+   * const Shape = make<Shape, never, typeof labels>(
+   *   { Circle: [z.number()], Rectangle: [z.number(), z.number()] },
+   *   { name: "Shape", labels },
+   * );
+   *
+   * Shape.matchNamed(shape, {
+   *   Circle: ({ radius }) => Math.PI * radius ** 2, // `radius` is typed as `number`
+   *   Rectangle: ({ width, height }) => width * height,
+   * });
+   * ```
+   */
+  readonly labels?: { readonly [tag: string]: readonly string[] };
+  /**
+   * Override how ADTs of some variants are displayed by {@linkcode show} (and in error messages),
+   * given their fields.
+   *
+   * @example
+   * ```typescript
+   * const { Money } = make<Money>(["Money"], {
+   *   display: { Money: (cents) => `$${(cents / 100).toFixed(2)}` },
+   * });
+   *
+   * show(Money(1200)); // => "$12.00"
+   * ```
+   */
+  readonly display?: {
+    readonly [Tag in Type["_tag"]]?: (...fields: ExtractFields<FilterTagged<Type, Tag>>) => string;
+  };
+  /**
+   * Override how ADTs of some variants are compared by {@linkcode equals} (and `ADT.equals`), given
+   * two ADTs of the same variant and the function to compare nested values. The override is used
+   * if either of the compared ADTs is created by this ADT (including `ADT.decode`, `ADT.revive`
+   * and `ADT.parse`). Since it is impossible to infer a consistent hash code from a custom
+   * equality, ADTs (and ADT-like plain objects) with the tags of these variants are hashed by their
+   * tags only (see {@linkcode hash}).
+   *
+   * @example
+   * ```typescript
+   * const { Money } = make<Money>(["Money"], {
+   *   equals: { Money: (a, b, equals) => Math.abs(a._0 - b._0) < 0.005 && equals(a._1, b._1) },
+   * });
+   *
+   * equals(Money(0.1 + 0.2, "USD"), Money(0.3, "USD")); // => true
+   * ```
+   */
+  readonly equals?: {
+    readonly [Tag in Type["_tag"]]?: (
+      self: FilterTagged<Type, Tag>,
+      that: FilterTagged<Type, Tag>,
+      equals: (a: unknown, b: unknown) => boolean,
+    ) => boolean;
+  };
+  /**
+   * Declare the ADT as monadic, naming the variant holding the value of successful computations
+   * (e.g., `"Ok"` or `"Some"`), which must have exactly 1 field. This generates `ADT.gen` and
+   * `ADT.genAsync`, which run a generator where `yield* $(adt)` unwraps an ADT of this variant, or
+   * short-circuits with any other ADT (e.g., an `Err` or `None`). The return value of the generator
+   * is wrapped in this variant.
+   *
+   * Since TypeScript cannot infer the tag while the type of the ADT is passed explicitly, the tag
+   * should also be passed as the second type argument of `make`.
+   *
+   * @example
+   * ```typescript
+   * const Result = make<ResultHKT, "Ok">(["Ok", "Err"], { monadic: "Ok" });
+   *
+   * const sum = Result.gen(function* ($) {
+   *   const a = yield* $(parseNumber("1")); // `Result<number, ParseError>` unwrapped to `number`
+   *   const b = yield* $(positive(a)); // `Result<number, "negative">` unwrapped to `number`
+   *   return a + b;
+   * }); // => Ok(2), typed as `Result<number, ParseError | "negative">`
+   *
+   * const user = await Result.genAsync(async function* ($) {
+   *   const id = yield* $(parseNumber(input));
+   *   return yield* $(await fetchUser(id));
+   * }); // => typed as `Result<User, ParseError | FetchError>`
+   * ```
+   */
+  readonly monadic?: Type["_tag"];
+}
+
+/**
+ * The `monadic` option of {@linkcode make}, which has to match the `Monadic` type argument.
+ * @private
+ */
+type MonadicOption<Monadic extends string> =
+  [Monadic] extends [never] ? { readonly monadic?: never } : { readonly monadic: Monadic };
+
+/**
+ * The labels of the fields of each variant of an ADT, passed to {@linkcode make} as the `labels`
+ * option and (to type the getters named after them) as the `Labels` type argument.
+ * @private
+ */
+type LabelsOf<Type extends Tagged> = { readonly [Tag in Type["_tag"]]?: readonly string[] };
+
+/**
+ * The `labels` option of {@linkcode make}, which has to match the `Labels` type argument if passed.
+ * @private
+ */
+type LabelsOption<Labels> =
+  [Labels] extends [never] ? { readonly labels?: MakeOptions["labels"] }
+  : { readonly labels: Labels };
+
+/**
+ * The layout of an ADT whose tags and fields are not stored in `_tag` and `_0`, `_1`, etc., passed
+ * to {@linkcode Data} and {@linkcode Tagged} as a type, and to {@linkcode make} as the `layout`
+ * option (see the overload with a layout).
+ *
+ * @example
+ * ```typescript
+ * // Effect-style objects, e.g., `{ _tag: "Some", value: 42 }`
+ * type Option<T> = Data<{ Some: [value: T]; None: [] }, { fields: { Some: ["value"] } }>;
+ * // Redux-style actions, e.g., `{ type: "Add", amount: 1 }`
+ * type Action = Data<
+ *   { Add: [amount: number]; Reset: [] },
+ *   { discriminant: "type"; fields: { Add: ["amount"] } }
+ * >;
+ * ```
+ */
+export interface Layout {
+  /**
+   * The key storing the tag.
+   * @default "_tag"
+   */
+  readonly discriminant?: string;
+  /**
+   * The keys storing the fields of each variant, in order. The fields of variants not listed here
+   * are stored in `_0`, `_1`, etc.
+   */
+  readonly fields?: { readonly [tag: string]: readonly string[] };
+}
+
+/**
+ * Options for `ADT.toJSONSchema` (see {@linkcode make}).
+ */
+export interface JSONSchemaOptions {
+  /**
+   * The name of the root ADT, used as the name of its definition in `$defs`. Defaults to the
+   * `name` option passed to {@linkcode make}.
+   */
+  readonly name?: string;
+  /**
+   * Convert the schema of a field to a JSON Schema. If it returns `undefined` (or is not provided),
+   * [Standard JSON Schema](https://standardschema.dev/json-schema) is used if the schema
+   * implements it, otherwise the field accepts any value (`{}`). ADTs created by `make` are always
+   * referenced by `$ref`.
+   * @param schema The schema of the field.
+   * @returns
+   */
+  readonly convertFieldSchema?: (schema: unknown) => JSONSchema | undefined;
+}
+
+/**
+ * A JSON Schema generated by `ADT.toJSONSchema` (see {@linkcode make}).
+ */
+export interface JSONSchema {
+  readonly [keyword: string]: unknown;
+}
+
+/**
+ * The functions generated by {@linkcode make} for an ADT (or the HKT of a generic ADT). `Err` is
+ * the type of the error returned by constructors in safe mode, and `WithVariants` indicates
+ * whether the variants are passed to `make`, i.e., whether the members requiring them (e.g.,
+ * `ADT.decode` and `ADT.tags`) are available. `Monadic` is the tag of the monadic variant (see the
+ * `monadic` option of {@linkcode MakeOptions}), if any, which makes `ADT.gen` and `ADT.genAsync`
+ * available. `Labels` is the type of the `labels` option, if passed, which types the getters named
+ * after the labels of fields. `WithArities` indicates whether the arities of the variants are
+ * declared (by field schemas or numbers), i.e., whether `Constructor.arity` is known.
+ */
+export type ADTFunctions<
+  F extends Tagged | TypeLambda<never, Tagged>,
+  Err = never,
+  WithVariants extends boolean = false,
+  Monadic extends string = never,
+  Labels = never,
+  WithArities extends boolean = false,
+> =
+  Instantiate<F> extends infer Type extends Tagged ?
+    Spread<
+      {
+        readonly [Tag in Type["_tag"] as Tag]: Constructor<
+          F,
+          Tag,
+          Err,
+          Labels,
+          WithArities extends true ? ArityOf<Type, Tag> : undefined
+        >;
+      },
+      {
+        readonly [Tag in Type["_tag"] as `is${Tag}`]: (adt: Type) => adt is FilterTagged<Type, Tag>;
+      },
+      { readonly unwrap: Deconstructor<Type> },
+      { readonly [Tag in Type["_tag"] as `unwrap${Tag}`]: Deconstructor<FilterTagged<Type, Tag>> },
+      { readonly [Tag in Type["_tag"] as `if${Tag}`]: ConditionalDeconstructorOf<F, Tag> },
+      {
+        readonly [Tag in Type["_tag"] as `if${Tag}Async`]: ConditionalDeconstructorAsync<Type, Tag>;
+      },
+      {
+        readonly match: MatcherOf<F>;
+        readonly matchW: MatcherOfW<F>;
+        readonly matchAsync: MatcherAsync<Type>;
+        readonly matchWAsync: MatcherWAsync<Type>;
+        readonly matchNamed: MatcherNamed<Type, Labels>;
+        readonly matchPattern: <T extends Type>(adt: T) => PatternMatcher<T>;
+        readonly equals: (a: Type, b: Type) => boolean;
+        readonly revive: <T = Labeled<Type, Labels>>(value: unknown) => T;
+        readonly reviver: (key: string, value: any) => any;
+        readonly parse: <T = Labeled<Type, Labels>>(text: string) => T;
+        readonly encode: (adt: Type) => EncodedADT<Type["_tag"]>;
+      },
+      WithVariants extends true ?
+        {
+          readonly decode: (input: unknown) => Labeled<Type, Labels> | ValidationError;
+          readonly "~standard": StandardSchemaV1.Props<unknown, Type>;
+          readonly toJSONSchema: (options?: JSONSchemaOptions) => JSONSchema;
+          readonly tags: readonly Type["_tag"][];
+          readonly variants: {
+            readonly [Tag in Type["_tag"]]: Constructor<
+              F,
+              Tag,
+              Err,
+              Labels,
+              WithArities extends true ? ArityOf<Type, Tag> : undefined
+            >;
+          };
+          readonly arity: WithArities extends true ?
+            <Tag extends Type["_tag"]>(tag: Tag) => ArityOf<Type, Tag>
+          : (tag: Type["_tag"]) => undefined;
+          readonly labels: [Labels] extends [never] ? MakeOptions["labels"] : Labels;
+        }
+      : {},
+      [Monadic] extends [never] ? {}
+      : { readonly gen: GenOf<F, Monadic>; readonly genAsync: GenAsyncOf<F, Monadic> }
+    >
+  : never;
+
+type LayoutADTFunctions<F extends LaidOut | TypeLambda<never, LaidOut>> =
+  InstantiateLaidOut<F> extends infer Type extends LaidOut ?
+    Spread<
+      { readonly [Tag in TagOf<Type>]: LayoutConstructor<F, Tag> },
+      {
+        readonly [Tag in TagOf<Type> as `is${Tag}`]: (adt: Type) => adt is FilterTagged<Type, Tag>;
+      },
+      { readonly unwrap: Deconstructor<Type> },
+      { readonly [Tag in TagOf<Type> as `unwrap${Tag}`]: Deconstructor<FilterTagged<Type, Tag>> },
+      { readonly [Tag in TagOf<Type> as `if${Tag}`]: ConditionalDeconstructor<Type, Tag> },
+      {
+        readonly match: Matcher<Type>;
+        readonly matchW: MatcherW<Type>;
+        readonly matchNamed: MatcherNamed<Type>;
+        readonly equals: (a: Type, b: Type) => boolean;
+        readonly tags: readonly TagOf<Type>[];
+        readonly variants: { readonly [Tag in TagOf<Type>]: LayoutConstructor<F, Tag> };
+        readonly arity: (tag: TagOf<Type>) => number | undefined;
+        readonly layout: LayoutOf<Type>;
+      }
+    >
+  : never;
+
+/**
+ * A constructor for an ADT with a custom {@linkcode Layout}, returning a plain object.
+ * @private
+ */
+type LayoutConstructor<F extends LaidOut | TypeLambda<never, LaidOut>, Tag extends string> = {
+  readonly arity: number | undefined;
+} & ([F] extends [TypeLambda<[never], unknown>] ?
+  <T = never>(...args: ExtractFields<FilterTagged<ApplyHKT<F, [T]>, Tag>>) => ApplyHKT<F, [T]>
+: [F] extends [TypeLambda<[never, never], unknown>] ?
+  <T = never, U = never>(
+    ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
+  ) => ApplyHKT<F, [T, U]>
+: (...args: ExtractFields<FilterTagged<InstantiateLaidOut<F>, Tag>>) => InstantiateLaidOut<F>);
 
 /**
  * Extract the fields of an ADT.
@@ -41,6 +528,515 @@ export function make<F extends Tagged | TypeLambda<never, Tagged>>(
  */
 export function unwrap<T extends Tagged>(adt: T): ExtractFields<T>;
 
+/**
+ * Match several ADTs at once (e.g., a state and an event), possibly created by different
+ * {@linkcode make} calls. This function requires the return type of each case to be the same.
+ *
+ * Cases are keyed by the tags of the ADTs joined by commas (e.g., `"Idle,Start"`), where `_` matches
+ * any tag in its position. Cases are tried in the order they are written, and the handler of the
+ * first matched case is called with the ADTs (narrowed by the key). A single `_` is a catch-all
+ * case, tried last. All combinations of tags must be handled.
+ * @param adts The ADTs to match.
+ * @param cases The cases to match.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * const transition = (state: State, event: Event): State =>
+ *   matchN([state, event], {
+ *     "Idle,Start": () => State.Running,
+ *     "Running,Stop": () => State.Idle,
+ *     "_,Reset": () => State.Idle,
+ *     _: () => state,
+ *   });
+ * ```
+ */
+export function matchN<
+  const T extends readonly Tagged[],
+  R,
+  Cases extends { readonly [Key in CaseKeyN<T>]?: (...adts: CaseArgsN<T, Key>) => R },
+>(adts: T, cases: Cases & NoInfer<CheckCasesN<T, keyof Cases>> & ReturnsN<R>): R;
+/**
+ * The curried version of {@linkcode matchN} (see the other overload for details).
+ * @param cases The cases to match.
+ * @returns
+ */
+export function matchN<
+  T extends readonly Tagged[],
+  R,
+  Cases extends { readonly [Key in CaseKeyN<T>]?: (...adts: CaseArgsN<T, Key>) => R },
+>(cases: Cases & NoInfer<CheckCasesN<T, keyof Cases>> & ReturnsN<R>): (adts: T) => R;
+
+/**
+ * Same as {@linkcode matchN}, but allows the return type of each case to be different.
+ * @param adts The ADTs to match.
+ * @param cases The cases to match.
+ * @returns
+ */
+export function matchNW<
+  const T extends readonly Tagged[],
+  Cases extends {
+    readonly [Key in CaseKeyN<T>]?: (...adts: CaseArgsN<T, Key>) => unknown;
+  },
+>(
+  adts: T,
+  cases: Cases & NoInfer<CheckCasesN<T, keyof Cases>>,
+): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+/**
+ * The curried version of {@linkcode matchNW} (see the other overload for details).
+ * @param cases The cases to match.
+ * @returns
+ */
+export function matchNW<
+  T extends readonly Tagged[],
+  Cases extends {
+    readonly [Key in CaseKeyN<T>]?: (...adts: CaseArgsN<T, Key>) => unknown;
+  },
+>(
+  cases: Cases & NoInfer<CheckCasesN<T, keyof Cases>>,
+): (adts: T) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+
+/**
+ * Patterns used by `ADT.matchPattern` (see {@linkcode make}).
+ *
+ * - `P._` matches any value.
+ * - `P.bind` matches any value and passes it to the handler. Bound values are passed in the order
+ *   they appear in the pattern.
+ * - `P.tag(tag, ...fields)` matches an ADT with the tag whose fields match the given patterns.
+ *   Omitted fields are matched by `P._`. Any ADT (e.g., `None`) can also be used as a pattern.
+ * - Any other value is a literal pattern, compared with {@linkcode equals}.
+ *
+ * @example
+ * ```typescript
+ * const describe = (value: Option<Result<number, string>>) =>
+ *   Option.matchPattern(value)
+ *     .case(P.tag("Some", P.tag("Ok", 0)), () => "zero")
+ *     .case(P.tag("Some", P.tag("Ok", P.bind)), (n) => n > 0, (n) => `positive: ${n}`)
+ *     .case(P.tag("Some", P.tag("Ok", P._)), () => "negative")
+ *     .case(P.tag("Some", P.tag("Err", P.bind)), (error) => `error: ${error}`)
+ *     .case(Option.None, () => "nothing")
+ *     .exhaustive();
+ * ```
+ */
+export const P: {
+  /**
+   * Match any value.
+   */
+  readonly _: WildcardPattern;
+  /**
+   * Match any value and pass it to the handler.
+   */
+  readonly bind: BindPattern;
+  /**
+   * Match an ADT with the tag whose fields match the given patterns. Omitted fields are matched by
+   * `P._`.
+   * @param tag The tag of the ADT.
+   * @param fields The patterns of the fields.
+   * @returns
+   */
+  readonly tag: <const Tag extends string, const Fields extends readonly unknown[] = []>(
+    tag: Tag,
+    ...fields: Fields
+  ) => TagPattern<Tag, Fields>;
+};
+/**
+ * The type of `P._` (see {@linkcode P}).
+ */
+export interface WildcardPattern {
+  readonly "~pattern": "_";
+}
+/**
+ * The type of `P.bind` (see {@linkcode P}).
+ */
+export interface BindPattern {
+  readonly "~pattern": "bind";
+}
+/**
+ * The type of a pattern created by `P.tag` (see {@linkcode P}).
+ */
+export type TagPattern<Tag extends string, Fields extends readonly unknown[]> = Merge<
+  { readonly _tag: Tag },
+  { readonly [I in IndexOf<Fields> as `_${I}`]: Fields[I] }
+>;
+
+/**
+ * The error thrown (or returned in safe mode) by constructors generated from field schemas when
+ * their arguments are invalid.
+ *
+ * The message lists each issue with the path to the invalid value, e.g., `$._0: Expected number`.
+ */
+export class ValidationError extends TypeError {
+  /**
+   * @param issues The issues found during validation, each with the path to the invalid value.
+   */
+  constructor(issues: readonly ValidationIssue[]);
+  /**
+   * The path to the first invalid value (e.g., `$._0`).
+   */
+  readonly path: string;
+  /**
+   * The issues found during validation.
+   */
+  readonly issues: readonly ValidationIssue[];
+}
+/**
+ * An issue found during validation.
+ */
+export interface ValidationIssue {
+  /**
+   * The error message of the issue.
+   */
+  readonly message: string;
+  /**
+   * The path to the invalid value (e.g., `$._0.foo[1]`).
+   */
+  readonly path: string;
+}
+
+/**
+ * The error thrown by `ADT.parse` (see {@linkcode make}) when the text is invalid.
+ *
+ * The message ends with the position of the error, e.g.,
+ * `Expected "," or ")", but got "]" (at line 1, column 8)`.
+ */
+export class ParseError extends SyntaxError {
+  /**
+   * @param message The error message (without the position).
+   * @param line The line of the error (1-based).
+   * @param column The column of the error (1-based).
+   */
+  constructor(message: string, line: number, column: number);
+  /**
+   * The line of the error (1-based).
+   */
+  readonly line: number;
+  /**
+   * The column of the error (1-based).
+   */
+  readonly column: number;
+}
+
+/**
+ * The error thrown by match functions when no case matches the ADT(s), e.g., a case is missing
+ * without a catch-all case (`_`).
+ *
+ * This can only happen when type checking is bypassed, since match functions are exhaustive.
+ */
+export class MatchError extends Error {
+  /**
+   * @param message The error message.
+   * @param options The cases tried, the unmatched value, the name of the ADT and the cause.
+   */
+  constructor(message: string, options: ADTErrorOptions);
+  /**
+   * The cases tried, e.g., the tags of the provided cases.
+   */
+  readonly expected: readonly string[];
+  /**
+   * The value that no case matched.
+   */
+  readonly value: unknown;
+  /**
+   * The name of the ADT (see the `name` option of {@linkcode make}), if known.
+   */
+  readonly adtName?: string;
+  /**
+   * The cause of the error.
+   */
+  readonly cause?: unknown;
+}
+
+/**
+ * The error thrown when a value is not one of the expected variants of an ADT, e.g., when an ADT
+ * from another `make` call is passed to a match function generated with variants.
+ *
+ * The message lists the expected variants, e.g., ``Expected `Some(...)`/`None(...)`, but got `42` ``.
+ */
+export class VariantMismatchError extends TypeError {
+  /**
+   * @param message The error message.
+   * @param options The expected tags, the actual value, the name of the ADT and the cause.
+   */
+  constructor(message: string, options: ADTErrorOptions);
+  /**
+   * The expected tags.
+   */
+  readonly expected: readonly string[];
+  /**
+   * The actual value.
+   */
+  readonly value: unknown;
+  /**
+   * The name of the ADT (see the `name` option of {@linkcode make}), if known.
+   */
+  readonly adtName?: string;
+  /**
+   * The cause of the error.
+   */
+  readonly cause?: unknown;
+}
+
+/**
+ * The error thrown by deconstructors (`ADT.unwrap<Tag>` and `ADT.unwrap`) when the value is not
+ * the expected variant.
+ */
+export class UnwrapError extends VariantMismatchError {}
+
+/**
+ * The options of {@linkcode MatchError} and {@linkcode VariantMismatchError}.
+ */
+export interface ADTErrorOptions {
+  /**
+   * The expected tags (or the cases tried).
+   */
+  readonly expected: readonly string[];
+  /**
+   * The actual value.
+   */
+  readonly value: unknown;
+  /**
+   * The name of the ADT, if known.
+   */
+  readonly adtName?: string;
+  /**
+   * The cause of the error.
+   */
+  readonly cause?: unknown;
+}
+
+/**
+ * Check if two values are structurally equal.
+ *
+ * ADTs are compared by their `_tag` and fields (`_0`, `_1`, ...) recursively, and a nullary
+ * constructor (e.g., `None`) is considered equal to the ADT created by calling it (e.g., `None()`).
+ * ADT-like plain objects (e.g., `{ _tag: "Some", _0: 42 }` parsed from JSON) are equal to the ADTs
+ * they represent, while plain objects with other keys are not. Arrays, plain objects, `Map`s,
+ * `Set`s, `Date`s and `RegExp`s are compared structurally, and circular references are considered.
+ *
+ * Values implementing the {@linkcode Equal} protocol (including ADTs and ADT constructors) are
+ * compared using that protocol.
+ * @param a The first value to compare.
+ * @param b The second value to compare.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * equals(Some(42), Some(42)); // => true
+ * equals(Some([1, 2]), Some([1, 2])); // => true
+ * equals(None, None()); // => true
+ * equals(Some(42), None); // => false
+ * ```
+ */
+export function equals(a: unknown, b: unknown): boolean;
+
+/**
+ * The symbol for the structural equality protocol used by {@linkcode equals}.
+ */
+export const equalsSymbol: unique symbol;
+/**
+ * An object that implements a custom structural equality used by {@linkcode equals}.
+ *
+ * `ADTProto` and `ADTConstructorProto` implement this protocol by comparing the `_tag` and fields
+ * of ADTs, which you can override to customize how ADTs are compared.
+ */
+export interface Equal {
+  /**
+   * Check if this value is structurally equal to another value.
+   * @param that The value to compare with.
+   * @param equals The function to compare nested values, which handles circular references.
+   */
+  [equalsSymbol](that: unknown, equals: (a: unknown, b: unknown) => boolean): boolean;
+}
+
+/**
+ * Compute the hash code of a value, which is consistent with {@linkcode equals}, i.e., structurally
+ * equal values always have the same hash code.
+ *
+ * ADTs and ADT-like plain objects are hashed by their `_tag` and fields (`_0`, `_1`, ...)
+ * recursively, or by their `_tag` only if their variants have an equality override (see the
+ * `equals` option of {@linkcode make}). Arrays, plain objects, `Map`s, `Set`s, `Date`s and
+ * `RegExp`s are hashed structurally (the order of keys of objects and the order of entries of
+ * `Map`s and `Set`s do not matter), and circular references are considered. Other functions are
+ * hashed by their identity.
+ *
+ * Values implementing the {@linkcode Hash} protocol (including ADTs and ADT constructors) are
+ * hashed using that protocol. Values implementing only the {@linkcode Equal} protocol share the
+ * same hash code, since it is impossible to infer a consistent hash code from a custom equality.
+ * @param value The value to hash.
+ * @returns A 32-bit integer.
+ *
+ * @example
+ * ```typescript
+ * hash(Some(42)) === hash(Some(42)); // => true
+ * hash(None) === hash(None()); // => true
+ * hash(Some({ a: 1, b: 2 })) === hash(Some({ b: 2, a: 1 })); // => true
+ * ```
+ */
+export function hash(value: unknown): number;
+
+/**
+ * Convert a value to a human-readable string, displaying ADTs as `Tag(field, ...)` (or just `Tag`
+ * for nullary ones), with the same layout as the [showify](https://github.com/Snowflyt/showify)
+ * integration. Arrays, plain objects, class instances, `Map`s, `Set`s, `Date`s, `RegExp`s and
+ * functions are supported as well, and circular references are displayed as `[Circular]`.
+ *
+ * ADTs created by constructors with display overrides (see {@linkcode MakeOptions.display}) are
+ * displayed using the overrides.
+ * @param value The value to show.
+ * @param options The options.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * show(Some({ value: [1, 2] })); // => "Some({ value: [1, 2] })"
+ * show(Node(Empty, Node(Empty, Empty, 2), 1), { indent: 2, maxWidth: 30 });
+ * // => Node(
+ * //      Empty,
+ * //      Node(Empty, Empty, 2),
+ * //      1
+ * //    )
+ * ```
+ */
+export function show(value: unknown, options?: ShowOptions): string;
+/**
+ * Options for {@linkcode show}.
+ */
+export interface ShowOptions {
+  /**
+   * The number of spaces to indent with when a value is broken into multiple lines. If `0`, values
+   * are never broken into multiple lines.
+   * @default 0
+   */
+  readonly indent?: number;
+  /**
+   * The maximum width of a line. Arrays, objects and ADTs that do not fit are broken into multiple
+   * lines (only if `indent` is greater than `0`).
+   * @default 80
+   */
+  readonly maxWidth?: number;
+  /**
+   * Whether to colorize the output with ANSI escape codes.
+   * @default false
+   */
+  readonly colors?: boolean;
+  /**
+   * Whether to add a trailing comma after the last item of arrays, objects and ADTs: `"none"`
+   * never adds one, `"always"` always adds one, and `"auto"` adds one only if the value is broken
+   * into multiple lines.
+   * @default "none"
+   */
+  readonly trailingComma?: "none" | "always" | "auto";
+  /**
+   * The maximum depth of nested values to display. Deeper arrays, objects and ADTs are displayed
+   * as `[Array]`, `[Object]` and `Tag(...)` respectively.
+   * @default Infinity
+   */
+  readonly depth?: number;
+}
+
+/**
+ * Install a [custom formatter](https://firefox-source-docs.mozilla.org/devtools-user/custom_formatters/)
+ * for ADTs in browser DevTools (Chrome, Edge and Firefox), so that ADTs are displayed as
+ * `Tag(field, ...)` in the console and can be expanded to inspect their fields. Custom formatters
+ * should be enabled in the DevTools settings.
+ *
+ * In Node.js, ADTs are always displayed as `Tag(field, ...)` by `util.inspect` (and
+ * `console.log`), so this is not needed.
+ * @returns A function to uninstall the formatter.
+ *
+ * @example
+ * ```typescript
+ * if (import.meta.env.DEV) installDevtoolsFormatter();
+ *
+ * console.log(Some({ value: 42 })); // Displayed as `Some({…})` with an expandable body
+ * ```
+ */
+export function installDevtoolsFormatter(): () => void;
+
+/**
+ * The symbol for the hashing protocol used by {@linkcode hash}.
+ */
+export const hashSymbol: unique symbol;
+/**
+ * An object that implements a custom hash code used by {@linkcode hash}.
+ *
+ * The hash code must be consistent with the {@linkcode Equal} protocol, i.e., values that are
+ * considered equal must have the same hash code. If you override the {@linkcode Equal} protocol of
+ * `ADTProto`, you should override this protocol accordingly.
+ */
+export interface Hash {
+  /**
+   * Compute the hash code of this value.
+   * @param hash The function to hash nested values, which handles circular references.
+   * @returns A 32-bit integer.
+   */
+  [hashSymbol](hash: (value: unknown) => number): number;
+}
+
+/**
+ * A `Map` that compares its keys structurally using {@linkcode equals} and {@linkcode hash}
+ * instead of by reference, so ADTs can be used as keys.
+ *
+ * Entries are iterated in insertion order. When setting a key that is structurally equal to an
+ * existing key, the existing key is kept and only the value is updated.
+ *
+ * @example
+ * ```typescript
+ * const cache = new HashMap<Option<number>, string>();
+ * cache.set(Some(42), "foo");
+ * cache.get(Some(42)); // => "foo"
+ * cache.has(None); // => false
+ * ```
+ */
+export class HashMap<K, V> implements Equal, Hash {
+  constructor(entries?: Iterable<readonly [K, V]> | null);
+  get size(): number;
+  get(key: K): V | undefined;
+  has(key: K): boolean;
+  set(key: K, value: V): this;
+  delete(key: K): boolean;
+  clear(): void;
+  forEach(callbackfn: (value: V, key: K, map: HashMap<K, V>) => void, thisArg?: any): void;
+  keys(): IterableIterator<K>;
+  values(): IterableIterator<V>;
+  entries(): IterableIterator<[K, V]>;
+  [Symbol.iterator](): IterableIterator<[K, V]>;
+  get [Symbol.toStringTag](): string;
+  [equalsSymbol](that: unknown, equals: (a: unknown, b: unknown) => boolean): boolean;
+  [hashSymbol](hash: (value: unknown) => number): number;
+}
+
+/**
+ * A `Set` that compares its values structurally using {@linkcode equals} and {@linkcode hash}
+ * instead of by reference, so ADTs can be de-duplicated.
+ *
+ * Values are iterated in insertion order. When adding a value that is structurally equal to an
+ * existing value, the existing value is kept.
+ *
+ * @example
+ * ```typescript
+ * const set = new HashSet([Some(1), Some(1), None, None()]);
+ * set.size; // => 2
+ * set.has(Some(1)); // => true
+ * ```
+ */
+export class HashSet<T> implements Equal, Hash {
+  constructor(values?: Iterable<T> | null);
+  get size(): number;
+  has(value: T): boolean;
+  add(value: T): this;
+  delete(value: T): boolean;
+  clear(): void;
+  forEach(callbackfn: (value: T, value2: T, set: HashSet<T>) => void, thisArg?: any): void;
+  keys(): IterableIterator<T>;
+  values(): IterableIterator<T>;
+  entries(): IterableIterator<[T, T]>;
+  [Symbol.iterator](): IterableIterator<T>;
+  get [Symbol.toStringTag](): string;
+  [equalsSymbol](that: unknown): boolean;
+  [hashSymbol](hash: (value: unknown) => number): number;
+}
+
 /**
  * A type that supports an [RxJS](https://rxjs.dev/api/index/function/pipe)-like
  * (or [Effect](https://github.com/Effect-TS/effect)-like) `.pipe()` method.
@@ -192,19 +1188,20 @@ export const PipeableFunctionProto: PipeableFunction;
 
 export interface ADT extends Pipeable {}
 /** The prototype of ADTs. */
-export const ADTProto: ADT;
+export const ADTProto: ADT & Equal & Hash;
 /** The constructor with prototype set to {@linkcode ADTProto}. */
 export const ADT: new () => ADT;
 
 export interface ADTConstructor extends PipeableFunction {}
 /** The prototype of ADT constructors. */
-export const ADTConstructorProto: ADTConstructor;
+export const ADTConstructorProto: ADTConstructor & Equal & Hash;
 
 /**************
  * Main types *
  **************/
 /**
- * A tagged type with a `_tag` property.
+ * A tagged type with a `_tag` property (or the discriminant of the {@linkcode Layout} `L`, if
+ * provided).
  *
  * @example
  * ```typescript
@@ -223,20 +1220,90 @@ export const ADTConstructorProto: ADTConstructor;
  * type Some<T> = Extract<Option<T>, Tagged<"Some">>;
  * //   ^?: type Some<T> = { readonly _tag: "Some"; readonly _0: T }
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Create a tagged type with a custom layout (see `Layout`)
+ * type _ = Tagged<"A", [value: string], { discriminant: "type"; fields: { A: ["value"] } }>;
+ * // => { readonly type: "A"; readonly value: string }
+ * ```
+ */
+export type Tagged<
+  Tag extends string = string,
+  Fields = readonly unknown[],
+  L extends Layout = never,
+> =
+  [L] extends [never] ?
+    Merge<
+      { readonly _tag: Tag },
+      NormalizeFields<Fields> extends infer Fields ?
+        { readonly [I in IndexOf<Fields> as `_${I}`]: Fields[I] }
+      : never
+    > &
+      ADT
+  : Merge<
+      { readonly [K in DiscriminantOf<L>]: Tag },
+      NormalizeFields<Fields> extends infer Fields ?
+        { readonly [I in IndexOf<Fields> as FieldKeyOf<L, Tag, I>]: Fields[I] }
+      : never
+    > & { readonly [layoutSymbol]?: LayoutInfo<L, Tag, Fields> };
+
+/**
+ * Strip the `__labels` property from the fields of a recursive ADT (see {@linkcode Data}).
+ * @private
+ */
+type NormalizeFields<Fields> =
+  [Exclude<keyof Fields, "__labels">, IsNever<Exclude<keyof Fields, "__labels">>] extends (
+    [number, false]
+  ) ?
+    Exclude<Fields, "__labels">
+  : Fields;
+
+/**
+ * The phantom property of ADTs with a custom {@linkcode Layout}, which only exists in the type
+ * system to record their layout and fields.
+ * @private
+ */
+declare const layoutSymbol: unique symbol;
+/** @private */
+interface LayoutInfo<L extends Layout, Tag extends string, Fields> {
+  readonly layout: L;
+  readonly tag: Tag;
+  readonly fields: Fields;
+}
+/**
+ * A variant of an ADT with a custom {@linkcode Layout}.
+ * @private
  */
-export type Tagged<Tag extends string = string, Fields = readonly unknown[]> = Merge<
-  { readonly _tag: Tag },
-  (
-    [Exclude<keyof Fields, "__labels">, IsNever<Exclude<keyof Fields, "__labels">>] extends (
-      [number, false]
-    ) ?
-      Exclude<Fields, "__labels">
-    : Fields
-  ) extends infer Fields ?
-    { readonly [I in IndexOf<Fields> as `_${I}`]: Fields[I] }
-  : never
-> &
-  ADT;
+type LaidOut = { readonly [layoutSymbol]?: LayoutInfo<Layout, string, unknown> };
+
+/**
+ * The key storing the tag in a {@linkcode Layout}.
+ * @private
+ */
+type DiscriminantOf<L extends Layout> =
+  L extends { readonly discriminant: infer D extends string } ? D : "_tag";
+/**
+ * The key storing the `I`-th field of the variant `Tag` in a {@linkcode Layout}.
+ * @private
+ */
+type FieldKeyOf<L extends Layout, Tag extends string, I extends number> =
+  L extends { readonly fields: { readonly [T in Tag]: infer Keys extends readonly string[] } } ?
+    Keys[I]
+  : `_${I}`;
+
+/**
+ * Get the {@linkcode Layout} of an ADT with a custom layout.
+ * @private
+ */
+type LayoutOf<T> =
+  T extends unknown ?
+    typeof layoutSymbol extends keyof T ?
+      NonNullable<T[typeof layoutSymbol]> extends LayoutInfo<infer L, string, unknown> ?
+        L
+      : never
+    : never
+  : never;
 
 /**
  * Create an ADT with tagged types.
@@ -418,77 +1485,105 @@ export type Tagged<Tag extends string = string, Fields = readonly unknown[]> = M
  *   // Labels are preserved in the match function
  * });
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Pass a `Layout` to store the tags and fields in other keys, e.g., for interop with Redux
+ * type Action = Data<
+ *   { Add: [amount: number]; Reset: [] },
+ *   { discriminant: "type"; fields: { Add: ["amount"] } }
+ * >;
+ * // => { readonly type: "Add"; readonly amount: number } | { readonly type: "Reset" }
+ * ```
  */
-export type Data<Variants extends Record<string, unknown>> = ValueOf<{
+export type Data<Variants extends Record<string, unknown>, L extends Layout = never> = ValueOf<{
   [Tag in keyof Variants & string]: Variants[Tag] extends (
     readonly unknown[] // Regular ADTs
   ) ?
-    Tagged<Tag, Variants[Tag]>
+    Tagged<Tag, Variants[Tag], L>
   : // Special syntax for recursive ADTs
   [
     Exclude<keyof Variants[Tag], "__labels">,
     IsNever<Exclude<keyof Variants[Tag], "__labels">>,
   ] extends [number, false] ?
-    Tagged<Tag, Variants[Tag]>
+    Tagged<Tag, Variants[Tag], L>
   : // If the object is `{}`, we still treat it as `[]`
-  IsNever<keyof Variants[Tag]> extends true ? Tagged<Tag, []>
+  IsNever<keyof Variants[Tag]> extends true ? Tagged<Tag, [], L>
   : // Special syntax for ADTs with only one object argument
-    Tagged<Tag, [fields: Variants[Tag]]>;
+    Tagged<Tag, [fields: Variants[Tag]], L>;
 }>;
 
 /**
- * A constructor for an ADT.
+ * A constructor for an ADT. `Err` is the type of the error returned when validation fails in safe
+ * mode, `Labels` the type of the `labels` option, if passed, and `Arity` the type of
+ * `Constructor.arity` (see {@linkcode make}).
  */
-export type Constructor<Type extends Tagged | TypeLambda<never, Tagged>, Tag extends string> =
+export type Constructor<
+  Type extends Tagged | TypeLambda<never, Tagged>,
+  Tag extends string,
+  Err = never,
+  Labels = never,
+  Arity extends number | undefined = number | undefined,
+> =
   [Type] extends (
     [Tagged] // Non-generic ADT
   ) ?
-    { readonly _tag: Tag } & ADT & ((...args: ExtractFields<Extract<Type, Tagged<Tag>>>) => Type)
+    ConstructorProps<Tag, Arity> &
+      ADT &
+      ((...args: ExtractFields<Extract<Type, Tagged<Tag>>>) => Labeled<Type, Labels> | Err)
   : // Generic ADT
   Type extends TypeLambda<[never], unknown> ?
     unknown extends _UpperBound<HKTParams<Type>[0]> ?
-      { readonly _tag: Tag } & ADT &
+      ConstructorProps<Tag, Arity> &
+        ADT &
         (<T = never>(
           ...args: ExtractFields<FilterTagged<ApplyHKT<Type, [T]>, Tag>>
-        ) => ApplyHKT<Type, [T]>)
-    : { readonly _tag: Tag } & ADT &
+        ) => Labeled<ApplyHKT<Type, [T]>, Labels> | Err)
+    : ConstructorProps<Tag, Arity> &
+        ADT &
         (<T extends _UpperBound<HKTParams<Type>[0]> = never>(
           ...args: ExtractFields<FilterTagged<ApplyHKT<Type, [T]>, Tag>>
-        ) => ApplyHKT<Type, [T]>)
+        ) => Labeled<ApplyHKT<Type, [T]>, Labels> | Err)
   : Type extends TypeLambda<[never, never], unknown> ?
     [unknown, unknown] extends [_UpperBound<HKTParams<Type>[0]>, _UpperBound<HKTParams<Type>[1]>] ?
-      { readonly _tag: Tag } & ADT &
+      ConstructorProps<Tag, Arity> &
+        ADT &
         (<T = never, U = never>(
           ...args: ExtractFields<FilterTagged<ApplyHKT<Type, [T, U]>, Tag>>
-        ) => ApplyHKT<Type, [T, U]>)
+        ) => Labeled<ApplyHKT<Type, [T, U]>, Labels> | Err)
     : unknown extends _UpperBound<HKTParams<Type>[0]> ?
-      { readonly _tag: Tag } & ADT &
+      ConstructorProps<Tag, Arity> &
+        ADT &
         (<T = never, U extends _UpperBound<HKTParams<Type>[1]> = never>(
           ...args: ExtractFields<FilterTagged<ApplyHKT<Type, [T, U]>, Tag>>
-        ) => ApplyHKT<Type, [T, U]>)
+        ) => Labeled<ApplyHKT<Type, [T, U]>, Labels> | Err)
     : unknown extends _UpperBound<HKTParams<Type>[1]> ?
-      { readonly _tag: Tag } & ADT &
+      ConstructorProps<Tag, Arity> &
+        ADT &
         (<T extends _UpperBound<HKTParams<Type>[0]> = never, U = never>(
           ...args: ExtractFields<FilterTagged<ApplyHKT<Type, [T, U]>, Tag>>
-        ) => ApplyHKT<Type, [T, U]>)
-    : { readonly _tag: Tag } & ADT &
+        ) => Labeled<ApplyHKT<Type, [T, U]>, Labels> | Err)
+    : ConstructorProps<Tag, Arity> &
+        ADT &
         (<
           T extends _UpperBound<HKTParams<Type>[0]> = never,
           U extends _UpperBound<HKTParams<Type>[1]> = never,
         >(
           ...args: ExtractFields<FilterTagged<ApplyHKT<Type, [T, U]>, Tag>>
-        ) => ApplyHKT<Type, [T, U]>)
+        ) => Labeled<ApplyHKT<Type, [T, U]>, Labels> | Err)
   : Type extends TypeLambda<[never, never, never], unknown> ?
-    { readonly _tag: Tag } & ADT &
+    ConstructorProps<Tag, Arity> &
+      ADT &
       (<
         T extends _UpperBound<HKTParams<Type>[0]> = never,
         U extends _UpperBound<HKTParams<Type>[1]> = never,
         V extends _UpperBound<HKTParams<Type>[2]> = never,
       >(
         ...args: ExtractFields<FilterTagged<ApplyHKT<Type, [T, U, V]>, Tag>>
-      ) => ApplyHKT<Type, [T, U, V]>)
+      ) => Labeled<ApplyHKT<Type, [T, U, V]>, Labels> | Err)
   : Type extends TypeLambda<[never, never, never, never], unknown> ?
-    { readonly _tag: Tag } & ADT &
+    ConstructorProps<Tag, Arity> &
+      ADT &
       (<
         T extends _UpperBound<HKTParams<Type>[0]> = never,
         U extends _UpperBound<HKTParams<Type>[1]> = never,
@@ -496,9 +1591,10 @@ export type Constructor<Type extends Tagged | TypeLambda<never, Tagged>, Tag ext
         W extends _UpperBound<HKTParams<Type>[3]> = never,
       >(
         ...args: ExtractFields<FilterTagged<ApplyHKT<Type, [T, U, V, W]>, Tag>>
-      ) => ApplyHKT<Type, [T, U, V, W]>)
+      ) => Labeled<ApplyHKT<Type, [T, U, V, W]>, Labels> | Err)
   : Type extends TypeLambda<[never, never, never, never, never], unknown> ?
-    { readonly _tag: Tag } & ADT &
+    ConstructorProps<Tag, Arity> &
+      ADT &
       (<
         T extends _UpperBound<HKTParams<Type>[0]> = never,
         U extends _UpperBound<HKTParams<Type>[1]> = never,
@@ -507,9 +1603,10 @@ export type Constructor<Type extends Tagged | TypeLambda<never, Tagged>, Tag ext
         X extends _UpperBound<HKTParams<Type>[4]> = never,
       >(
         ...args: ExtractFields<FilterTagged<ApplyHKT<Type, [T, U, V, W, X]>, Tag>>
-      ) => ApplyHKT<Type, [T, U, V, W, X]>)
+      ) => Labeled<ApplyHKT<Type, [T, U, V, W, X]>, Labels> | Err)
   : Type extends TypeLambda<[never, never, never, never, never, never], unknown> ?
-    { readonly _tag: Tag } & ADT &
+    ConstructorProps<Tag, Arity> &
+      ADT &
       (<
         T extends _UpperBound<HKTParams<Type>[0]> = never,
         U extends _UpperBound<HKTParams<Type>[1]> = never,
@@ -519,8 +1616,27 @@ export type Constructor<Type extends Tagged | TypeLambda<never, Tagged>, Tag ext
         Y extends _UpperBound<HKTParams<Type>[5]> = never,
       >(
         ...args: ExtractFields<FilterTagged<ApplyHKT<Type, [T, U, V, W, X, Y]>, Tag>>
-      ) => ApplyHKT<Type, [T, U, V, W, X, Y]>)
+      ) => Labeled<ApplyHKT<Type, [T, U, V, W, X, Y]>, Labels> | Err)
   : /* support up to 6 type parameters */ never;
+/**
+ * The properties of a constructor (see {@linkcode Constructor}).
+ */
+interface ConstructorProps<Tag extends string, Arity extends number | undefined> {
+  readonly _tag: Tag;
+  /**
+   * The number of fields of the variant, declared in {@linkcode make} (by field schemas or
+   * arities). `undefined` if not declared, including when only the variants are passed to `make`
+   * or none at all (i.e., the arity is never inferred from the type or from created ADTs).
+   */
+  readonly arity: Arity;
+}
+
+/**
+ * The number of fields of a variant of an ADT.
+ * @private
+ */
+type ArityOf<Type extends Tagged, Tag extends string> =
+  ExtractFields<FilterTagged<Type, Tag>>["length"] extends infer N extends number ? N : number;
 
 /**
  * A type guard function for an ADT.
@@ -530,7 +1646,9 @@ export type Guard<T extends Tagged, Tag extends string> = (adt: T) => adt is Fil
 /**
  * A deconstructor for an ADT.
  */
-export type Deconstructor<Type extends Tagged> = <T extends Type>(adt: T) => ExtractFields<T>;
+export type Deconstructor<Type extends Tagged | LaidOut> = <T extends Type>(
+  adt: T,
+) => ExtractFields<T>;
 
 type ConditionalDeconstructorOf<F extends Tagged | TypeLambda<never, Tagged>, Tag extends string> =
   [F] extends [Tagged] ?
@@ -541,6 +1659,13 @@ type ConditionalDeconstructorOf<F extends Tagged | TypeLambda<never, Tagged>, Ta
     ) => R1 | R2
   : [F] extends [TypeLambda<[never], Tagged>] ? ConditionalDeconstructor1<F, Tag>
   : [F] extends [TypeLambda<[never, never], Tagged>] ? ConditionalDeconstructor2<F, Tag>
+  : [F] extends [TypeLambda<[never, never, never], Tagged>] ? ConditionalDeconstructor3<F, Tag>
+  : [F] extends [TypeLambda<[never, never, never, never], Tagged>] ?
+    ConditionalDeconstructor4<F, Tag>
+  : [F] extends [TypeLambda<[never, never, never, never, never], Tagged>] ?
+    ConditionalDeconstructor5<F, Tag>
+  : [F] extends [TypeLambda<[never, never, never, never, never, never], Tagged>] ?
+    ConditionalDeconstructor6<F, Tag>
   : ConditionalDeconstructor<Instantiate<F>, Tag>;
 
 type ConditionalDeconstructor1<F extends TypeLambda<[never], Tagged>, Tag extends string> =
@@ -581,20 +1706,102 @@ type ConditionalDeconstructor2<F extends TypeLambda<[never, never], Tagged>, Tag
       otherwise?: (adt: Exclude<ApplyHKT<F, [T, U]>, Tagged<Tag>>) => R2,
     ) => R1 | R2;
 
+type ConditionalDeconstructor3<
+  F extends TypeLambda<[never, never, never], Tagged>,
+  Tag extends string,
+> = <
+  T extends HKTParams<F>[0],
+  U extends HKTParams<F>[1],
+  V extends HKTParams<F>[2],
+  R1,
+  R2 = void,
+>(
+  adt: ApplyHKT<F, [T, U, V]>,
+  onMatch: (...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V]>, Tag>>) => R1,
+  otherwise?: (adt: Exclude<ApplyHKT<F, [T, U, V]>, Tagged<Tag>>) => R2,
+) => R1 | R2;
+
+type ConditionalDeconstructor4<
+  F extends TypeLambda<[never, never, never, never], Tagged>,
+  Tag extends string,
+> = <
+  T extends HKTParams<F>[0],
+  U extends HKTParams<F>[1],
+  V extends HKTParams<F>[2],
+  W extends HKTParams<F>[3],
+  R1,
+  R2 = void,
+>(
+  adt: ApplyHKT<F, [T, U, V, W]>,
+  onMatch: (...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W]>, Tag>>) => R1,
+  otherwise?: (adt: Exclude<ApplyHKT<F, [T, U, V, W]>, Tagged<Tag>>) => R2,
+) => R1 | R2;
+
+type ConditionalDeconstructor5<
+  F extends TypeLambda<[never, never, never, never, never], Tagged>,
+  Tag extends string,
+> = <
+  T extends HKTParams<F>[0],
+  U extends HKTParams<F>[1],
+  V extends HKTParams<F>[2],
+  W extends HKTParams<F>[3],
+  X extends HKTParams<F>[4],
+  R1,
+  R2 = void,
+>(
+  adt: ApplyHKT<F, [T, U, V, W, X]>,
+  onMatch: (...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W, X]>, Tag>>) => R1,
+  otherwise?: (adt: Exclude<ApplyHKT<F, [T, U, V, W, X]>, Tagged<Tag>>) => R2,
+) => R1 | R2;
+
+type ConditionalDeconstructor6<
+  F extends TypeLambda<[never, never, never, never, never, never], Tagged>,
+  Tag extends string,
+> = <
+  T extends HKTParams<F>[0],
+  U extends HKTParams<F>[1],
+  V extends HKTParams<F>[2],
+  W extends HKTParams<F>[3],
+  X extends HKTParams<F>[4],
+  Y extends HKTParams<F>[5],
+  R1,
+  R2 = void,
+>(
+  adt: ApplyHKT<F, [T, U, V, W, X, Y]>,
+  onMatch: (...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W, X, Y]>, Tag>>) => R1,
+  otherwise?: (adt: Exclude<ApplyHKT<F, [T, U, V, W, X, Y]>, Tagged<Tag>>) => R2,
+) => R1 | R2;
+
 // Fallback conditional deconstructor type
 /**
  * A conditional {@link Deconstructor} for an ADT, which is similar to the `if let` syntax in Rust.
  */
-export type ConditionalDeconstructor<Type extends Tagged, Tag extends string> = <
+export type ConditionalDeconstructor<Type extends Tagged | LaidOut, Tag extends string> = <
   T extends Type,
   R1,
   R2 = void,
 >(
   adt: T,
   onMatch: (...args: ExtractFields<FilterTagged<T, Tag>>) => R1,
-  otherwise?: (adt: Exclude<T, Tagged<Tag>>) => R2,
+  otherwise?: (adt: Exclude<T, FilterTagged<T, Tag>>) => R2,
 ) => R1 | R2;
 
+/**
+ * An async {@link ConditionalDeconstructor} for an ADT, which accepts an ADT or a promise of it and
+ * returns a promise of the (awaited) result of the called handler.
+ */
+export interface ConditionalDeconstructorAsync<Type extends Tagged, Tag extends string> {
+  <T extends Type, R1, R2 = void>(
+    adt: T | PromiseLike<T>,
+    onMatch: (...args: ExtractFields<FilterTagged<T, Tag>>) => R1 | PromiseLike<R1>,
+    otherwise?: (adt: Exclude<T, Tagged<Tag>>) => R2 | PromiseLike<R2>,
+  ): Promise<R1 | R2>;
+  <T extends Type, R1, R2 = void>(
+    onMatch: (...args: ExtractFields<FilterTagged<T, Tag>>) => R1 | PromiseLike<R1>,
+    otherwise?: (adt: Exclude<T, Tagged<Tag>>) => R2 | PromiseLike<R2>,
+  ): (adt: T | PromiseLike<T>) => Promise<R1 | R2>;
+}
+
 type MatcherOf<F extends Tagged | TypeLambda<never, Tagged>> =
   [F] extends [Tagged] ?
     {
@@ -604,23 +1811,18 @@ type MatcherOf<F extends Tagged | TypeLambda<never, Tagged>> =
           readonly [Tag in F["_tag"]]: (...args: ExtractFields<FilterTagged<F, Tag>>) => R;
         },
       ): R;
-      <R>(
-        adt: F,
-        cases: {
-          readonly [Tag in F["_tag"]]?: (...args: ExtractFields<FilterTagged<F, Tag>>) => R;
-        } & { _: (adt: F) => R },
-      ): R;
+      <R, K extends F["_tag"] | "_" = never>(adt: F, cases: CatchAllCases<F, K, R>): R;
       <R>(cases: {
         readonly [Tag in F["_tag"]]: (...args: ExtractFields<FilterTagged<F, Tag>>) => R;
       }): (adt: F) => R;
-      <R>(
-        cases: {
-          readonly [Tag in F["_tag"]]?: (...args: ExtractFields<FilterTagged<F, Tag>>) => R;
-        } & { _: (adt: F) => R },
-      ): (adt: F) => R;
+      <R, K extends F["_tag"] | "_" = never>(cases: CatchAllCases<F, K, R>): (adt: F) => R;
     }
   : [F] extends [TypeLambda<[never], Tagged>] ? Matcher1<F>
   : [F] extends [TypeLambda<[never, never], Tagged>] ? Matcher2<F>
+  : [F] extends [TypeLambda<[never, never, never], Tagged>] ? Matcher3<F>
+  : [F] extends [TypeLambda<[never, never, never, never], Tagged>] ? Matcher4<F>
+  : [F] extends [TypeLambda<[never, never, never, never, never], Tagged>] ? Matcher5<F>
+  : [F] extends [TypeLambda<[never, never, never, never, never, never], Tagged>] ? Matcher6<F>
   : Matcher<Instantiate<F>>;
 
 type Matcher1<F extends TypeLambda<[never], Tagged>> =
@@ -634,25 +1836,17 @@ type Matcher1<F extends TypeLambda<[never], Tagged>> =
           ) => R;
         },
       ): R;
-      <T, R>(
+      <T, R, K extends Instantiate<F>["_tag"] | "_" = never>(
         adt: ApplyHKT<F, [T]>,
-        cases: {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T]>, Tag>>
-          ) => R;
-        } & { _: (adt: ApplyHKT<F, [T]>) => R },
+        cases: CatchAllCases<ApplyHKT<F, [T]>, K, R>,
       ): R;
       <T, R>(cases: {
         readonly [Tag in Instantiate<F>["_tag"]]: (
           ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T]>, Tag>>
         ) => R;
       }): (adt: ApplyHKT<F, [T]>) => R;
-      <T, R>(
-        cases: {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T]>, Tag>>
-          ) => R;
-        } & { _: (adt: ApplyHKT<F, [T]>) => R },
+      <T, R, K extends Instantiate<F>["_tag"] | "_" = never>(
+        cases: CatchAllCases<ApplyHKT<F, [T]>, K, R>,
       ): (adt: ApplyHKT<F, [T]>) => R;
     }
   : {
@@ -664,25 +1858,17 @@ type Matcher1<F extends TypeLambda<[never], Tagged>> =
           ) => R;
         },
       ): R;
-      <T extends HKTParams<F>[0], R>(
+      <T extends HKTParams<F>[0], R, K extends Instantiate<F>["_tag"] | "_" = never>(
         adt: ApplyHKT<F, [T]>,
-        cases: {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T]>, Tag>>
-          ) => R;
-        } & { _: (adt: ApplyHKT<F, [T]>) => R },
+        cases: CatchAllCases<ApplyHKT<F, [T]>, K, R>,
       ): R;
       <T extends HKTParams<F>[0], R>(cases: {
         readonly [Tag in Instantiate<F>["_tag"]]: (
           ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T]>, Tag>>
         ) => R;
       }): (adt: ApplyHKT<F, [T]>) => R;
-      <T extends HKTParams<F>[0], R>(
-        cases: {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T]>, Tag>>
-          ) => R;
-        } & { _: (adt: ApplyHKT<F, [T]>) => R },
+      <T extends HKTParams<F>[0], R, K extends Instantiate<F>["_tag"] | "_" = never>(
+        cases: CatchAllCases<ApplyHKT<F, [T]>, K, R>,
       ): (adt: ApplyHKT<F, [T]>) => R;
     };
 
@@ -697,25 +1883,17 @@ type Matcher2<F extends TypeLambda<[never, never], Tagged>> =
           ) => R;
         },
       ): R;
-      <T, U, R>(
+      <T, U, R, K extends Instantiate<F>["_tag"] | "_" = never>(
         adt: ApplyHKT<F, [T, U]>,
-        cases: {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => R;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => R },
+        cases: CatchAllCases<ApplyHKT<F, [T, U]>, K, R>,
       ): R;
       <T, U, R>(cases: {
         readonly [Tag in Instantiate<F>["_tag"]]: (
           ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
         ) => R;
       }): (adt: ApplyHKT<F, [T, U]>) => R;
-      <T, U, R>(
-        cases: {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => R;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => R },
+      <T, U, R, K extends Instantiate<F>["_tag"] | "_" = never>(
+        cases: CatchAllCases<ApplyHKT<F, [T, U]>, K, R>,
       ): (adt: ApplyHKT<F, [T, U]>) => R;
     }
   : unknown extends HKTParams<F>[0] ?
@@ -728,25 +1906,17 @@ type Matcher2<F extends TypeLambda<[never, never], Tagged>> =
           ) => R;
         },
       ): R;
-      <T, U extends HKTParams<F>[1], R>(
+      <T, U extends HKTParams<F>[1], R, K extends Instantiate<F>["_tag"] | "_" = never>(
         adt: ApplyHKT<F, [T, U]>,
-        cases: {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => R;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => R },
+        cases: CatchAllCases<ApplyHKT<F, [T, U]>, K, R>,
       ): R;
       <T, U extends HKTParams<F>[1], R>(cases: {
         readonly [Tag in Instantiate<F>["_tag"]]: (
           ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
         ) => R;
       }): (adt: ApplyHKT<F, [T, U]>) => R;
-      <T, U extends HKTParams<F>[1], R>(
-        cases: {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => R;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => R },
+      <T, U extends HKTParams<F>[1], R, K extends Instantiate<F>["_tag"] | "_" = never>(
+        cases: CatchAllCases<ApplyHKT<F, [T, U]>, K, R>,
       ): (adt: ApplyHKT<F, [T, U]>) => R;
     }
   : unknown extends HKTParams<F>[1] ?
@@ -759,25 +1929,17 @@ type Matcher2<F extends TypeLambda<[never, never], Tagged>> =
           ) => R;
         },
       ): R;
-      <T extends HKTParams<F>[0], U, R>(
+      <T extends HKTParams<F>[0], U, R, K extends Instantiate<F>["_tag"] | "_" = never>(
         adt: ApplyHKT<F, [T, U]>,
-        cases: {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => R;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => R },
+        cases: CatchAllCases<ApplyHKT<F, [T, U]>, K, R>,
       ): R;
       <T extends HKTParams<F>[0], U, R>(cases: {
         readonly [Tag in Instantiate<F>["_tag"]]: (
           ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
         ) => R;
       }): (adt: ApplyHKT<F, [T, U]>) => R;
-      <T extends HKTParams<F>[0], U, R>(
-        cases: {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => R;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => R },
+      <T extends HKTParams<F>[0], U, R, K extends Instantiate<F>["_tag"] | "_" = never>(
+        cases: CatchAllCases<ApplyHKT<F, [T, U]>, K, R>,
       ): (adt: ApplyHKT<F, [T, U]>) => R;
     }
   : {
@@ -789,52 +1951,244 @@ type Matcher2<F extends TypeLambda<[never, never], Tagged>> =
           ) => R;
         },
       ): R;
-      <T extends HKTParams<F>[0], U extends HKTParams<F>[1], R>(
+      <
+        T extends HKTParams<F>[0],
+        U extends HKTParams<F>[1],
+        R,
+        K extends Instantiate<F>["_tag"] | "_" = never,
+      >(
         adt: ApplyHKT<F, [T, U]>,
-        cases: {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => R;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => R },
+        cases: CatchAllCases<ApplyHKT<F, [T, U]>, K, R>,
       ): R;
       <T extends HKTParams<F>[0], U extends HKTParams<F>[1], R>(cases: {
         readonly [Tag in Instantiate<F>["_tag"]]: (
           ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
         ) => R;
       }): (adt: ApplyHKT<F, [T, U]>) => R;
-      <T extends HKTParams<F>[0], U extends HKTParams<F>[1], R>(
-        cases: {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => R;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => R },
+      <
+        T extends HKTParams<F>[0],
+        U extends HKTParams<F>[1],
+        R,
+        K extends Instantiate<F>["_tag"] | "_" = never,
+      >(
+        cases: CatchAllCases<ApplyHKT<F, [T, U]>, K, R>,
       ): (adt: ApplyHKT<F, [T, U]>) => R;
     };
 
+type Matcher3<F extends TypeLambda<[never, never, never], Tagged>> = {
+  <T extends HKTParams<F>[0], U extends HKTParams<F>[1], V extends HKTParams<F>[2], R>(
+    adt: ApplyHKT<F, [T, U, V]>,
+    cases: {
+      readonly [Tag in Instantiate<F>["_tag"]]: (
+        ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V]>, Tag>>
+      ) => R;
+    },
+  ): R;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    R,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    adt: ApplyHKT<F, [T, U, V]>,
+    cases: CatchAllCases<ApplyHKT<F, [T, U, V]>, K, R>,
+  ): R;
+  <T extends HKTParams<F>[0], U extends HKTParams<F>[1], V extends HKTParams<F>[2], R>(cases: {
+    readonly [Tag in Instantiate<F>["_tag"]]: (
+      ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V]>, Tag>>
+    ) => R;
+  }): (adt: ApplyHKT<F, [T, U, V]>) => R;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    R,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    cases: CatchAllCases<ApplyHKT<F, [T, U, V]>, K, R>,
+  ): (adt: ApplyHKT<F, [T, U, V]>) => R;
+};
+
+type Matcher4<F extends TypeLambda<[never, never, never, never], Tagged>> = {
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    R,
+  >(
+    adt: ApplyHKT<F, [T, U, V, W]>,
+    cases: {
+      readonly [Tag in Instantiate<F>["_tag"]]: (
+        ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W]>, Tag>>
+      ) => R;
+    },
+  ): R;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    R,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    adt: ApplyHKT<F, [T, U, V, W]>,
+    cases: CatchAllCases<ApplyHKT<F, [T, U, V, W]>, K, R>,
+  ): R;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    R,
+  >(cases: {
+    readonly [Tag in Instantiate<F>["_tag"]]: (
+      ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W]>, Tag>>
+    ) => R;
+  }): (adt: ApplyHKT<F, [T, U, V, W]>) => R;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    R,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    cases: CatchAllCases<ApplyHKT<F, [T, U, V, W]>, K, R>,
+  ): (adt: ApplyHKT<F, [T, U, V, W]>) => R;
+};
+
+type Matcher5<F extends TypeLambda<[never, never, never, never, never], Tagged>> = {
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    R,
+  >(
+    adt: ApplyHKT<F, [T, U, V, W, X]>,
+    cases: {
+      readonly [Tag in Instantiate<F>["_tag"]]: (
+        ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W, X]>, Tag>>
+      ) => R;
+    },
+  ): R;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    R,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    adt: ApplyHKT<F, [T, U, V, W, X]>,
+    cases: CatchAllCases<ApplyHKT<F, [T, U, V, W, X]>, K, R>,
+  ): R;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    R,
+  >(cases: {
+    readonly [Tag in Instantiate<F>["_tag"]]: (
+      ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W, X]>, Tag>>
+    ) => R;
+  }): (adt: ApplyHKT<F, [T, U, V, W, X]>) => R;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    R,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    cases: CatchAllCases<ApplyHKT<F, [T, U, V, W, X]>, K, R>,
+  ): (adt: ApplyHKT<F, [T, U, V, W, X]>) => R;
+};
+
+type Matcher6<F extends TypeLambda<[never, never, never, never, never, never], Tagged>> = {
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    Y extends HKTParams<F>[5],
+    R,
+  >(
+    adt: ApplyHKT<F, [T, U, V, W, X, Y]>,
+    cases: {
+      readonly [Tag in Instantiate<F>["_tag"]]: (
+        ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W, X, Y]>, Tag>>
+      ) => R;
+    },
+  ): R;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    Y extends HKTParams<F>[5],
+    R,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    adt: ApplyHKT<F, [T, U, V, W, X, Y]>,
+    cases: CatchAllCases<ApplyHKT<F, [T, U, V, W, X, Y]>, K, R>,
+  ): R;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    Y extends HKTParams<F>[5],
+    R,
+  >(cases: {
+    readonly [Tag in Instantiate<F>["_tag"]]: (
+      ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W, X, Y]>, Tag>>
+    ) => R;
+  }): (adt: ApplyHKT<F, [T, U, V, W, X, Y]>) => R;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    Y extends HKTParams<F>[5],
+    R,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    cases: CatchAllCases<ApplyHKT<F, [T, U, V, W, X, Y]>, K, R>,
+  ): (adt: ApplyHKT<F, [T, U, V, W, X, Y]>) => R;
+};
+
 // Fallback matcher type
 /**
  * A {@linkcode match} function for a specific ADT.
  */
-export interface Matcher<Type extends Tagged> {
+export interface Matcher<Type extends Tagged | LaidOut> {
   <T extends Type, R>(
     adt: T,
     cases: {
-      readonly [Tag in Type["_tag"]]: (...args: ExtractFields<FilterTagged<T, Tag>>) => R;
+      readonly [Tag in TagOf<Type>]: (...args: ExtractFields<FilterTagged<T, Tag>>) => R;
     },
   ): R;
-  <T extends Type, R>(
+  <T extends Type, R, K extends TagOf<Type> | "_" = never>(
     adt: T,
-    cases: {
-      readonly [Tag in Type["_tag"]]?: (...args: ExtractFields<FilterTagged<T, Tag>>) => R;
-    } & { _: (adt: T) => R },
+    cases: CatchAllCases<T, K, R>,
   ): R;
   <T extends Type, R>(cases: {
-    readonly [Tag in Type["_tag"]]: (...args: ExtractFields<FilterTagged<T, Tag>>) => R;
+    readonly [Tag in TagOf<Type>]: (...args: ExtractFields<FilterTagged<T, Tag>>) => R;
   }): (adt: T) => R;
-  <T extends Type, R>(
-    cases: {
-      readonly [Tag in Type["_tag"]]?: (...args: ExtractFields<FilterTagged<T, Tag>>) => R;
-    } & { _: (adt: T) => R },
+  <T extends Type, R, K extends TagOf<Type> | "_" = never>(
+    cases: CatchAllCases<T, K, R>,
   ): (adt: T) => R;
 }
 
@@ -847,33 +2201,29 @@ type MatcherOfW<F extends Tagged | TypeLambda<never, Tagged>> =
         },
       >(
         adt: F,
-        cases: Cases,
+        cases: Cases & NoCatchAll,
       ): ReturnType<ValueOf<Cases>>;
-      <
-        Cases extends {
-          readonly [Tag in F["_tag"]]?: (...args: ExtractFields<FilterTagged<F, Tag>>) => unknown;
-        } & { _: (adt: F) => unknown },
-      >(
+      <Cases, K extends F["_tag"] | "_" = never>(
         adt: F,
-        cases: Cases,
+        cases: Cases & CatchAllCases<F, K, unknown>,
       ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
       <
         Cases extends {
           readonly [Tag in F["_tag"]]: (...args: ExtractFields<FilterTagged<F, Tag>>) => unknown;
         },
       >(
-        cases: Cases,
+        cases: Cases & NoCatchAll,
       ): (adt: F) => ReturnType<ValueOf<Cases>>;
-      <
-        Cases extends {
-          readonly [Tag in F["_tag"]]?: (...args: ExtractFields<FilterTagged<F, Tag>>) => unknown;
-        } & { _: (adt: F) => unknown },
-      >(
-        cases: Cases,
+      <Cases, K extends F["_tag"] | "_" = never>(
+        cases: Cases & CatchAllCases<F, K, unknown>,
       ): (adt: F) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
     }
   : [F] extends [TypeLambda<[never], Tagged>] ? Matcher1W<F>
   : [F] extends [TypeLambda<[never, never], Tagged>] ? Matcher2W<F>
+  : [F] extends [TypeLambda<[never, never, never], Tagged>] ? Matcher3W<F>
+  : [F] extends [TypeLambda<[never, never, never, never], Tagged>] ? Matcher4W<F>
+  : [F] extends [TypeLambda<[never, never, never, never, never], Tagged>] ? Matcher5W<F>
+  : [F] extends [TypeLambda<[never, never, never, never, never, never], Tagged>] ? Matcher6W<F>
   : MatcherW<Instantiate<F>>;
 
 type Matcher1W<F extends TypeLambda<[never], Tagged>> =
@@ -889,19 +2239,11 @@ type Matcher1W<F extends TypeLambda<[never], Tagged>> =
         },
       >(
         adt: ApplyHKT<F, [T]>,
-        cases: Cases,
+        cases: Cases & NoCatchAll,
       ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
-      <
-        T,
-        R,
-        Cases extends {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T]>, Tag>>
-          ) => R;
-        } & { _: (adt: ApplyHKT<F, [T]>) => R },
-      >(
+      <T, Cases, K extends Instantiate<F>["_tag"] | "_" = never>(
         adt: ApplyHKT<F, [T]>,
-        cases: Cases,
+        cases: Cases & CatchAllCases<ApplyHKT<F, [T]>, K, unknown>,
       ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
       <
         T,
@@ -912,20 +2254,12 @@ type Matcher1W<F extends TypeLambda<[never], Tagged>> =
           ) => unknown;
         },
       >(
-        cases: Cases,
+        cases: Cases & NoCatchAll,
       ): (
         adt: ApplyHKT<F, [T]>,
       ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
-      <
-        T,
-        R,
-        Cases extends {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T]>, Tag>>
-          ) => R;
-        } & { _: (adt: ApplyHKT<F, [T]>) => R },
-      >(
-        cases: Cases,
+      <T, Cases, K extends Instantiate<F>["_tag"] | "_" = never>(
+        cases: Cases & CatchAllCases<ApplyHKT<F, [T]>, K, unknown>,
       ): (
         adt: ApplyHKT<F, [T]>,
       ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
@@ -940,18 +2274,11 @@ type Matcher1W<F extends TypeLambda<[never], Tagged>> =
         },
       >(
         adt: T,
-        cases: Cases,
+        cases: Cases & NoCatchAll,
       ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
-      <
-        T extends HKTParams<F>[0],
-        Cases extends {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T]>, Tag>>
-          ) => unknown;
-        } & { _: (adt: ApplyHKT<F, [T]>) => unknown },
-      >(
+      <T extends HKTParams<F>[0], Cases, K extends Instantiate<F>["_tag"] | "_" = never>(
         adt: ApplyHKT<F, [T]>,
-        cases: Cases,
+        cases: Cases & CatchAllCases<ApplyHKT<F, [T]>, K, unknown>,
       ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
       <
         T extends HKTParams<F>[0],
@@ -961,19 +2288,12 @@ type Matcher1W<F extends TypeLambda<[never], Tagged>> =
           ) => unknown;
         },
       >(
-        cases: Cases,
+        cases: Cases & NoCatchAll,
       ): (
         adt: ApplyHKT<F, [T]>,
       ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
-      <
-        T extends HKTParams<F>[0],
-        Cases extends {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T]>, Tag>>
-          ) => unknown;
-        } & { _: (adt: ApplyHKT<F, [T]>) => unknown },
-      >(
-        cases: Cases,
+      <T extends HKTParams<F>[0], Cases, K extends Instantiate<F>["_tag"] | "_" = never>(
+        cases: Cases & CatchAllCases<ApplyHKT<F, [T]>, K, unknown>,
       ): (
         adt: ApplyHKT<F, [T]>,
       ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
@@ -992,19 +2312,11 @@ type Matcher2W<F extends TypeLambda<[never, never], Tagged>> =
         },
       >(
         adt: ApplyHKT<F, [T, U]>,
-        cases: Cases,
+        cases: Cases & NoCatchAll,
       ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
-      <
-        T,
-        U,
-        Cases extends {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => unknown;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => unknown },
-      >(
+      <T, U, Cases, K extends Instantiate<F>["_tag"] | "_" = never>(
         adt: ApplyHKT<F, [T, U]>,
-        cases: Cases,
+        cases: Cases & CatchAllCases<ApplyHKT<F, [T, U]>, K, unknown>,
       ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
       <
         T,
@@ -1015,20 +2327,12 @@ type Matcher2W<F extends TypeLambda<[never, never], Tagged>> =
           ) => unknown;
         },
       >(
-        cases: Cases,
+        cases: Cases & NoCatchAll,
       ): (
         adt: ApplyHKT<F, [T, U]>,
       ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
-      <
-        T,
-        U,
-        Cases extends {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => unknown;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => unknown },
-      >(
-        cases: Cases,
+      <T, U, Cases, K extends Instantiate<F>["_tag"] | "_" = never>(
+        cases: Cases & CatchAllCases<ApplyHKT<F, [T, U]>, K, unknown>,
       ): (
         adt: ApplyHKT<F, [T, U]>,
       ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
@@ -1045,19 +2349,11 @@ type Matcher2W<F extends TypeLambda<[never, never], Tagged>> =
         },
       >(
         adt: ApplyHKT<F, [T, U]>,
-        cases: Cases,
+        cases: Cases & NoCatchAll,
       ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
-      <
-        T,
-        U extends HKTParams<F>[1],
-        Cases extends {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => unknown;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => unknown },
-      >(
+      <T, U extends HKTParams<F>[1], Cases, K extends Instantiate<F>["_tag"] | "_" = never>(
         adt: ApplyHKT<F, [T, U]>,
-        cases: Cases,
+        cases: Cases & CatchAllCases<ApplyHKT<F, [T, U]>, K, unknown>,
       ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
       <
         T,
@@ -1068,20 +2364,12 @@ type Matcher2W<F extends TypeLambda<[never, never], Tagged>> =
           ) => unknown;
         },
       >(
-        cases: Cases,
+        cases: Cases & NoCatchAll,
       ): (
         adt: ApplyHKT<F, [T, U]>,
       ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
-      <
-        T,
-        U extends HKTParams<F>[1],
-        Cases extends {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => unknown;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => unknown },
-      >(
-        cases: Cases,
+      <T, U extends HKTParams<F>[1], Cases, K extends Instantiate<F>["_tag"] | "_" = never>(
+        cases: Cases & CatchAllCases<ApplyHKT<F, [T, U]>, K, unknown>,
       ): (
         adt: ApplyHKT<F, [T, U]>,
       ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
@@ -1098,19 +2386,11 @@ type Matcher2W<F extends TypeLambda<[never, never], Tagged>> =
         },
       >(
         adt: ApplyHKT<F, [T, U]>,
-        cases: Cases,
+        cases: Cases & NoCatchAll,
       ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
-      <
-        T extends HKTParams<F>[0],
-        U,
-        Cases extends {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => unknown;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => unknown },
-      >(
+      <T extends HKTParams<F>[0], U, Cases, K extends Instantiate<F>["_tag"] | "_" = never>(
         adt: ApplyHKT<F, [T, U]>,
-        cases: Cases,
+        cases: Cases & CatchAllCases<ApplyHKT<F, [T, U]>, K, unknown>,
       ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
       <
         T extends HKTParams<F>[0],
@@ -1121,20 +2401,12 @@ type Matcher2W<F extends TypeLambda<[never, never], Tagged>> =
           ) => unknown;
         },
       >(
-        cases: Cases,
+        cases: Cases & NoCatchAll,
       ): (
         adt: ApplyHKT<F, [T, U]>,
       ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
-      <
-        T extends HKTParams<F>[0],
-        U,
-        Cases extends {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => unknown;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => unknown },
-      >(
-        cases: Cases,
+      <T extends HKTParams<F>[0], U, Cases, K extends Instantiate<F>["_tag"] | "_" = never>(
+        cases: Cases & CatchAllCases<ApplyHKT<F, [T, U]>, K, unknown>,
       ): (
         adt: ApplyHKT<F, [T, U]>,
       ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
@@ -1150,19 +2422,16 @@ type Matcher2W<F extends TypeLambda<[never, never], Tagged>> =
         },
       >(
         adt: ApplyHKT<F, [T, U]>,
-        cases: Cases,
+        cases: Cases & NoCatchAll,
       ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
       <
         T extends HKTParams<F>[0],
         U extends HKTParams<F>[1],
-        Cases extends {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => unknown;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => unknown },
+        Cases,
+        K extends Instantiate<F>["_tag"] | "_" = never,
       >(
         adt: ApplyHKT<F, [T, U]>,
-        cases: Cases,
+        cases: Cases & CatchAllCases<ApplyHKT<F, [T, U]>, K, unknown>,
       ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
       <
         T extends HKTParams<F>[0],
@@ -1173,66 +2442,790 @@ type Matcher2W<F extends TypeLambda<[never, never], Tagged>> =
           ) => unknown;
         },
       >(
-        cases: Cases,
+        cases: Cases & NoCatchAll,
       ): (
         adt: ApplyHKT<F, [T, U]>,
       ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
       <
         T extends HKTParams<F>[0],
         U extends HKTParams<F>[1],
-        Cases extends {
-          readonly [Tag in Instantiate<F>["_tag"]]?: (
-            ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U]>, Tag>>
-          ) => unknown;
-        } & { _: (adt: ApplyHKT<F, [T, U]>) => unknown },
+        Cases,
+        K extends Instantiate<F>["_tag"] | "_" = never,
       >(
-        cases: Cases,
+        cases: Cases & CatchAllCases<ApplyHKT<F, [T, U]>, K, unknown>,
       ): (
         adt: ApplyHKT<F, [T, U]>,
       ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
     };
 
+type Matcher3W<F extends TypeLambda<[never, never, never], Tagged>> = {
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    Cases extends {
+      readonly [Tag in Instantiate<F>["_tag"]]: (
+        ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V]>, Tag>>
+      ) => unknown;
+    },
+  >(
+    adt: ApplyHKT<F, [T, U, V]>,
+    cases: Cases & NoCatchAll,
+  ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    Cases,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    adt: ApplyHKT<F, [T, U, V]>,
+    cases: Cases & CatchAllCases<ApplyHKT<F, [T, U, V]>, K, unknown>,
+  ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    Cases extends {
+      readonly [Tag in Instantiate<F>["_tag"]]: (
+        ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V]>, Tag>>
+      ) => unknown;
+    },
+  >(
+    cases: Cases & NoCatchAll,
+  ): (
+    adt: ApplyHKT<F, [T, U, V]>,
+  ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    Cases,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    cases: Cases & CatchAllCases<ApplyHKT<F, [T, U, V]>, K, unknown>,
+  ): (
+    adt: ApplyHKT<F, [T, U, V]>,
+  ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+};
+
+type Matcher4W<F extends TypeLambda<[never, never, never, never], Tagged>> = {
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    Cases extends {
+      readonly [Tag in Instantiate<F>["_tag"]]: (
+        ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W]>, Tag>>
+      ) => unknown;
+    },
+  >(
+    adt: ApplyHKT<F, [T, U, V, W]>,
+    cases: Cases & NoCatchAll,
+  ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    Cases,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    adt: ApplyHKT<F, [T, U, V, W]>,
+    cases: Cases & CatchAllCases<ApplyHKT<F, [T, U, V, W]>, K, unknown>,
+  ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    Cases extends {
+      readonly [Tag in Instantiate<F>["_tag"]]: (
+        ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W]>, Tag>>
+      ) => unknown;
+    },
+  >(
+    cases: Cases & NoCatchAll,
+  ): (
+    adt: ApplyHKT<F, [T, U, V, W]>,
+  ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    Cases,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    cases: Cases & CatchAllCases<ApplyHKT<F, [T, U, V, W]>, K, unknown>,
+  ): (
+    adt: ApplyHKT<F, [T, U, V, W]>,
+  ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+};
+
+type Matcher5W<F extends TypeLambda<[never, never, never, never, never], Tagged>> = {
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    Cases extends {
+      readonly [Tag in Instantiate<F>["_tag"]]: (
+        ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W, X]>, Tag>>
+      ) => unknown;
+    },
+  >(
+    adt: ApplyHKT<F, [T, U, V, W, X]>,
+    cases: Cases & NoCatchAll,
+  ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    Cases,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    adt: ApplyHKT<F, [T, U, V, W, X]>,
+    cases: Cases & CatchAllCases<ApplyHKT<F, [T, U, V, W, X]>, K, unknown>,
+  ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    Cases extends {
+      readonly [Tag in Instantiate<F>["_tag"]]: (
+        ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W, X]>, Tag>>
+      ) => unknown;
+    },
+  >(
+    cases: Cases & NoCatchAll,
+  ): (
+    adt: ApplyHKT<F, [T, U, V, W, X]>,
+  ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    Cases,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    cases: Cases & CatchAllCases<ApplyHKT<F, [T, U, V, W, X]>, K, unknown>,
+  ): (
+    adt: ApplyHKT<F, [T, U, V, W, X]>,
+  ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+};
+
+type Matcher6W<F extends TypeLambda<[never, never, never, never, never, never], Tagged>> = {
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    Y extends HKTParams<F>[5],
+    Cases extends {
+      readonly [Tag in Instantiate<F>["_tag"]]: (
+        ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W, X, Y]>, Tag>>
+      ) => unknown;
+    },
+  >(
+    adt: ApplyHKT<F, [T, U, V, W, X, Y]>,
+    cases: Cases & NoCatchAll,
+  ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    Y extends HKTParams<F>[5],
+    Cases,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    adt: ApplyHKT<F, [T, U, V, W, X, Y]>,
+    cases: Cases & CatchAllCases<ApplyHKT<F, [T, U, V, W, X, Y]>, K, unknown>,
+  ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    Y extends HKTParams<F>[5],
+    Cases extends {
+      readonly [Tag in Instantiate<F>["_tag"]]: (
+        ...args: ExtractFields<FilterTagged<ApplyHKT<F, [T, U, V, W, X, Y]>, Tag>>
+      ) => unknown;
+    },
+  >(
+    cases: Cases & NoCatchAll,
+  ): (
+    adt: ApplyHKT<F, [T, U, V, W, X, Y]>,
+  ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+  <
+    T extends HKTParams<F>[0],
+    U extends HKTParams<F>[1],
+    V extends HKTParams<F>[2],
+    W extends HKTParams<F>[3],
+    X extends HKTParams<F>[4],
+    Y extends HKTParams<F>[5],
+    Cases,
+    K extends Instantiate<F>["_tag"] | "_" = never,
+  >(
+    cases: Cases & CatchAllCases<ApplyHKT<F, [T, U, V, W, X, Y]>, K, unknown>,
+  ): (
+    adt: ApplyHKT<F, [T, U, V, W, X, Y]>,
+  ) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+};
+
 // Fallback matcher type
 /**
  * A {@linkcode matchW} function for a specific ADT.
  */
-export interface MatcherW<Type extends Tagged> {
+export interface MatcherW<Type extends Tagged | LaidOut> {
   <
     T extends Type,
     Cases extends {
-      readonly [Tag in Type["_tag"]]: (...args: ExtractFields<FilterTagged<T, Tag>>) => unknown;
+      readonly [Tag in TagOf<Type>]: (...args: ExtractFields<FilterTagged<T, Tag>>) => unknown;
     },
   >(
     adt: T,
-    cases: Cases,
+    cases: Cases & NoCatchAll,
   ): ReturnType<ValueOf<Cases>>;
+  <T extends Type, Cases, K extends TagOf<Type> | "_" = never>(
+    adt: T,
+    cases: Cases & CatchAllCases<T, K, unknown>,
+  ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
   <
     T extends Type,
     Cases extends {
-      readonly [Tag in Type["_tag"]]?: (...args: ExtractFields<FilterTagged<T, Tag>>) => unknown;
-    } & { _: (adt: T) => unknown },
+      readonly [Tag in TagOf<Type>]: (...args: ExtractFields<FilterTagged<T, Tag>>) => unknown;
+    },
   >(
-    adt: T,
-    cases: Cases,
-  ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+    cases: Cases & NoCatchAll,
+  ): (adt: T) => ReturnType<ValueOf<Cases>>;
+  <T extends Type, Cases, K extends TagOf<Type> | "_" = never>(
+    cases: Cases & CatchAllCases<T, K, unknown>,
+  ): (adt: T) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
+}
+
+/**
+ * An async {@linkcode Matcher}, which accepts an ADT or a promise of it, allows the handlers to
+ * return promises, and returns a single promise of the (awaited) result.
+ */
+export interface MatcherAsync<Type extends Tagged> {
+  <T extends Type, R>(
+    adt: T | PromiseLike<T>,
+    cases: {
+      readonly [Tag in Type["_tag"]]: (
+        ...args: ExtractFields<FilterTagged<T, Tag>>
+      ) => R | PromiseLike<R>;
+    },
+  ): Promise<R>;
+  <T extends Type, R, K extends Type["_tag"] | "_" = never>(
+    adt: T | PromiseLike<T>,
+    cases: CatchAllCases<T, K, R | PromiseLike<R>>,
+  ): Promise<R>;
+  <T extends Type, R>(cases: {
+    readonly [Tag in Type["_tag"]]: (
+      ...args: ExtractFields<FilterTagged<T, Tag>>
+    ) => R | PromiseLike<R>;
+  }): (adt: T | PromiseLike<T>) => Promise<R>;
+  <T extends Type, R, K extends Type["_tag"] | "_" = never>(
+    cases: CatchAllCases<T, K, R | PromiseLike<R>>,
+  ): (adt: T | PromiseLike<T>) => Promise<R>;
+}
+
+/**
+ * An async {@linkcode MatcherW}, which accepts an ADT or a promise of it, allows the handlers to
+ * return promises, and returns a single promise of the (awaited) result.
+ */
+export interface MatcherWAsync<Type extends Tagged> {
   <
     T extends Type,
     Cases extends {
       readonly [Tag in Type["_tag"]]: (...args: ExtractFields<FilterTagged<T, Tag>>) => unknown;
     },
   >(
-    cases: Cases,
-  ): (adt: T) => ReturnType<ValueOf<Cases>>;
+    adt: T | PromiseLike<T>,
+    cases: Cases & NoCatchAll,
+  ): Promise<Awaited<ReturnType<ValueOf<Cases>>>>;
+  <T extends Type, Cases, K extends Type["_tag"] | "_" = never>(
+    adt: T | PromiseLike<T>,
+    cases: Cases & CatchAllCases<T, K, unknown>,
+  ): Promise<Awaited<ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>>>;
+  <
+    T extends Type,
+    Cases extends {
+      readonly [Tag in Type["_tag"]]: (...args: ExtractFields<FilterTagged<T, Tag>>) => unknown;
+    },
+  >(
+    cases: Cases & NoCatchAll,
+  ): (adt: T | PromiseLike<T>) => Promise<Awaited<ReturnType<ValueOf<Cases>>>>;
+  <T extends Type, Cases, K extends Type["_tag"] | "_" = never>(
+    cases: Cases & CatchAllCases<T, K, unknown>,
+  ): (
+    adt: T | PromiseLike<T>,
+  ) => Promise<Awaited<ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>>>;
+}
+
+/**
+ * An object-style {@linkcode MatcherW}, whose cases are called with the ADT itself instead of its
+ * fields, so the fields can be destructured by their labels (see the `labels` option of
+ * {@linkcode MakeOptions}).
+ *
+ * @example
+ * ```typescript
+ * const labels = { Ok: ["value"], Err: ["error"] } as const;
+ * const Result = make<ResultHKT, never, typeof labels>(["Ok", "Err"], { labels });
+ *
+ * Result.matchNamed(Result.Ok(42), {
+ *   Ok: ({ value }) => `Ok: ${value}`, // `value` is typed as `number`
+ *   Err: ({ _0: error }) => `Err: ${error}`, // Fields are still accessible by their indices
+ * });
+ * ```
+ */
+export interface MatcherNamed<Type extends Tagged | LaidOut, Labels = never> {
+  <
+    T extends Type,
+    Cases extends {
+      readonly [Tag in TagOf<Type>]: (adt: Labeled<FilterTagged<T, Tag>, Labels>) => unknown;
+    },
+  >(
+    adt: T,
+    cases: Cases & NoCatchAll,
+  ): ReturnType<ValueOf<Cases>>;
+  <T extends Type, Cases, K extends TagOf<Type> | "_" = never>(
+    adt: T,
+    cases: Cases & NamedCatchAllCases<T, K, Labels>,
+  ): ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
   <
     T extends Type,
     Cases extends {
-      readonly [Tag in Type["_tag"]]?: (...args: ExtractFields<FilterTagged<T, Tag>>) => unknown;
-    } & { _: (adt: T) => unknown },
+      readonly [Tag in TagOf<Type>]: (adt: Labeled<FilterTagged<T, Tag>, Labels>) => unknown;
+    },
   >(
-    cases: Cases,
+    cases: Cases & NoCatchAll,
+  ): (adt: T) => ReturnType<ValueOf<Cases>>;
+  <T extends Type, Cases, K extends TagOf<Type> | "_" = never>(
+    cases: Cases & NamedCatchAllCases<T, K, Labels>,
   ): (adt: T) => ReturnType<Extract<ValueOf<Cases>, (...args: never) => unknown>>;
 }
 
+/**
+ * An ADT with the getters named after the labels of its fields (see the `labels` option of
+ * {@linkcode MakeOptions}), typed by the type of the labels (`never` if not passed to `make`).
+ * @private
+ */
+type Labeled<T, Labels> =
+  [Labels] extends [never] ? T
+  : T extends Tagged ?
+    T["_tag"] extends keyof Labels ?
+      T & LabelGetters<ExtractFields<T>, Labels[T["_tag"]]>
+    : T
+  : T;
+/**
+ * The getters named after the labels of fields, typed as the fields at the same indices.
+ * @private
+ */
+type LabelGetters<Fields extends readonly unknown[], Names> = {
+  readonly [I in keyof Names & `${number}` as Names[I] extends string ? Names[I]
+  : never]: I extends keyof Fields ? Fields[I] : never;
+};
+
+/**
+ * Same as {@linkcode CatchAllCases}, but for {@linkcode MatcherNamed}.
+ * @private
+ */
+type NamedCatchAllCases<T, K extends string, Labels> =
+  [K] extends [never] ?
+    {
+      readonly [Tag in TagOf<T>]?: (adt: NoInfer<Labeled<FilterTagged<T, Tag>, Labels>>) => unknown;
+    } & { readonly _: (adt: NoInfer<T>) => unknown }
+  : {
+      readonly [Tag in K]: Tag extends "_" ?
+        [Exclude<T, FilterTagged<T, Exclude<K, "_">>>] extends [never] ?
+          never
+        : (adt: NoInfer<Exclude<T, FilterTagged<T, Exclude<K, "_">>>>) => unknown
+      : (adt: NoInfer<Labeled<FilterTagged<T, Tag>, Labels>>) => unknown;
+    } & { readonly _: unknown };
+
+/**
+ * Reject the catch-all case (`_`) in the cases of a match function where all variants are handled,
+ * since it would be stale.
+ * @private
+ */
+interface NoCatchAll {
+  readonly _?: never;
+}
+
+/**
+ * The cases of a match function with a catch-all case (`_`), where `K` is the keys of the provided
+ * cases. The catch-all case is called with the variants not handled by other cases, and is typed as
+ * `never` if all variants are already handled, since it would silently swallow variants added later.
+ *
+ * If `K` is `never` (i.e., not inferred because type arguments are explicitly provided), the
+ * catch-all case is called with the whole ADT instead.
+ * @private
+ */
+type CatchAllCases<T, K extends string, R> =
+  [K] extends [never] ?
+    {
+      readonly [Tag in TagOf<T>]?: (...args: NoInfer<ExtractFields<FilterTagged<T, Tag>>>) => R;
+    } & { readonly _: (adt: NoInfer<T>) => R }
+  : {
+      readonly [Tag in K]: Tag extends "_" ?
+        [Exclude<T, FilterTagged<T, Exclude<K, "_">>>] extends [never] ?
+          never
+        : (adt: NoInfer<Exclude<T, FilterTagged<T, Exclude<K, "_">>>>) => R
+      : (...args: NoInfer<ExtractFields<FilterTagged<T, Tag>>>) => R;
+    } & { readonly _: unknown };
+
+/**
+ * Check the cases of {@linkcode matchN}, where `K` is the keys of the provided cases. Combinations
+ * of tags not handled by `K` are required to report them as missing, and unknown keys are rejected.
+ * @private
+ */
+type CheckCasesN<T extends readonly Tagged[], K extends PropertyKey> = {
+  readonly [Key in UncoveredN<T, K>]: (...adts: CaseArgsN<T, Key>) => unknown;
+} & { readonly [Key in Exclude<K, CaseKeyN<T>>]: never };
+/**
+ * Infer the return type of the cases of {@linkcode matchN}.
+ * @private
+ */
+interface ReturnsN<R> {
+  readonly [key: string]: (...adts: never) => R;
+}
+
+/**
+ * The possible case keys of {@linkcode matchN}, e.g., `"Idle,Start" | "Idle,_" | ... | "_"`.
+ * @private
+ */
+type CaseKeyN<T extends readonly Tagged[]> =
+  | "_"
+  | JoinTags<{ readonly [I in keyof T]: T[I]["_tag"] | "_" }>;
+/**
+ * The arguments of the handler of a case of {@linkcode matchN}, i.e., the ADTs narrowed by the key.
+ * @private
+ */
+type CaseArgsN<T extends readonly Tagged[], Key extends string> =
+  (Key extends "_" ? [] : SplitTags<Key>) extends infer Tags ?
+    [
+      ...{
+        [I in keyof T]: I extends keyof Tags ?
+          Tags[I] extends "_" ?
+            T[I]
+          : FilterTagged<T[I], Tags[I] & string>
+        : T[I];
+      },
+    ]
+  : never;
+/**
+ * The combinations of tags (joined by commas) not handled by any of the keys `K`.
+ * @private
+ */
+type UncoveredN<T extends readonly Tagged[], K> =
+  "_" extends K ? never
+  : TagCombinations<T> extends infer Combination ?
+    Combination extends readonly string[] ?
+      IsNever<Extract<K, JoinTags<{ [I in keyof Combination]: Combination[I] | "_" }>>> extends (
+        true
+      ) ?
+        JoinTags<Combination>
+      : never
+    : never
+  : never;
+
+/**
+ * The cartesian product of the tags of `T` as a union of tuples.
+ * @private
+ */
+type TagCombinations<T> =
+  T extends readonly [infer Head extends Tagged, ...infer Rest] ?
+    Head["_tag"] extends infer Tag ?
+      Tag extends string ?
+        [Tag, ...TagCombinations<Rest>]
+      : never
+    : never
+  : [];
+/**
+ * Join a tuple of tags (or unions of tags) with commas.
+ * @private
+ */
+type JoinTags<Tags> =
+  Tags extends readonly [infer Head extends string] ? Head
+  : Tags extends readonly [infer Head extends string, ...infer Rest] ? `${Head},${JoinTags<Rest>}`
+  : never;
+/**
+ * Split a case key of {@linkcode matchN} into a tuple of tags.
+ * @private
+ */
+type SplitTags<Key extends string> =
+  Key extends `${infer Head},${infer Rest}` ? [Head, ...SplitTags<Rest>] : [Key];
+
+/**
+ * The type of `ADT.gen` (see the `monadic` option of {@linkcode MakeOptions}).
+ * @private
+ */
+type GenOf<F extends Tagged | TypeLambda<never, Tagged>, Monadic extends string> = <Y, R>(
+  f: ($: BindOf<F, Monadic>) => Generator<Y, R, unknown>,
+) => GenResult<F, Monadic, Y, R>;
+/**
+ * The type of `ADT.genAsync` (see the `monadic` option of {@linkcode MakeOptions}).
+ * @private
+ */
+type GenAsyncOf<F extends Tagged | TypeLambda<never, Tagged>, Monadic extends string> = <Y, R>(
+  f: ($: BindOf<F, Monadic>) => AsyncGeneratorLike<Y, R>,
+) => Promise<GenResult<F, Monadic, Y, R>>;
+/**
+ * A structural `AsyncGenerator`, which is not available in ES2015.
+ * @private
+ */
+interface AsyncGeneratorLike<Y, R> {
+  next(...args: [] | [unknown]): PromiseLike<IteratorResult<Y, R>>;
+}
+
+/**
+ * The type of `$` passed to the generators of `ADT.gen` and `ADT.genAsync`, where `yield* $(adt)`
+ * evaluates to the field of the monadic variant. The yielded ADTs are tagged with the type
+ * arguments of the HKT, from which {@linkcode GenResult} collects the types of the other side.
+ * @private
+ */
+type BindOf<F extends Tagged | TypeLambda<never, Tagged>, Monadic extends string> =
+  [F] extends [Tagged] ? (adt: F) => Generator<GenYield<F, []>, MonadicField<F, Monadic>, unknown>
+  : [F] extends [TypeLambda<[never], Tagged>] ?
+    <T>(
+      adt: ApplyHKT<F, [T]>,
+    ) => Generator<
+      GenYield<ApplyHKT<F, [T]>, [T]>,
+      MonadicField<ApplyHKT<F, [T]>, Monadic>,
+      unknown
+    >
+  : [F] extends [TypeLambda<[never, never], Tagged>] ?
+    <T, U>(
+      adt: ApplyHKT<F, [T, U]>,
+    ) => Generator<
+      GenYield<ApplyHKT<F, [T, U]>, [T, U]>,
+      MonadicField<ApplyHKT<F, [T, U]>, Monadic>,
+      unknown
+    >
+  : never;
+type GenYield<T, Args extends unknown[]> = T & { readonly "~args"?: Args };
+type MonadicField<T, Monadic extends string> = ExtractFields<FilterTagged<T, Monadic>>[0];
+
+/**
+ * The result of `ADT.gen`, i.e., the ADT wrapping the return type `R` of the generator in the
+ * monadic variant, with the other type argument (if any) collected from the yielded ADTs `Y`
+ * (e.g., the union of the error types of `Result`s).
+ * @private
+ */
+type GenResult<F extends Tagged | TypeLambda<never, Tagged>, Monadic extends string, Y, R> =
+  [F] extends [Tagged] ? F
+  : [F] extends [TypeLambda<[never], Tagged>] ? ApplyHKT<F, [R]>
+  : [F] extends [TypeLambda<[never, never], Tagged>] ?
+    // Whether the field of the monadic variant is the first or the second type argument
+    MonadicField<ApplyHKT<F, [GenValue, unknown]>, Monadic> extends GenValue ?
+      ApplyHKT<F, [R, GenArgs<Y>[1]]>
+    : ApplyHKT<F, [GenArgs<Y>[0], R]>
+  : never;
+type GenArgs<Y> = Y extends { readonly "~args"?: infer Args extends unknown[] } ? Args : never;
+interface GenValue {
+  readonly "~genValue": true;
+}
+
+/**
+ * The builder returned by `ADT.matchPattern` (see {@linkcode make}). Cases are tried in order, and
+ * the handler of the first case whose pattern (see {@linkcode P}) matches and whose guard (if any)
+ * returns `true` is called with the values bound by `P.bind`.
+ *
+ * `Rest` is the part of `T` not handled yet. Cases with guards do not handle anything, and a case
+ * narrows a variant only if at most one of its field patterns can fail to match.
+ */
+export interface PatternMatcher<in out T, out R = never, in out Rest = T> {
+  /**
+   * Add a case.
+   * @param pattern The pattern to match.
+   * @param handler The function called with the bound values if the pattern matches.
+   * @returns
+   */
+  case<const Pat, R2>(
+    pattern: Pat,
+    handler: (...bindings: PatternBindings<Pat, T>) => R2,
+  ): PatternMatcher<T, R | R2, ExcludePattern<Rest, Pat>>;
+  /**
+   * Add a case with a guard.
+   * @param pattern The pattern to match.
+   * @param when The guard called with the bound values if the pattern matches.
+   * @param handler The function called with the bound values if the guard returns `true`.
+   * @returns
+   */
+  case<const Pat, R2>(
+    pattern: Pat,
+    when: (...bindings: PatternBindings<Pat, T>) => boolean,
+    handler: (...bindings: PatternBindings<Pat, T>) => R2,
+  ): PatternMatcher<T, R | R2, Rest>;
+  /**
+   * Get the result of the matched case. Only callable if all cases are handled, and throws an
+   * error if no case matches at runtime.
+   * @returns
+   */
+  exhaustive(...args: IsNever<Rest> extends true ? [] : [unhandled: NonExhaustive<Rest>]): R;
+  /**
+   * Get the result of the matched case, or call `handler` with the ADT if no case matches.
+   * @param handler The function called with the ADT if no case matches.
+   * @returns
+   */
+  otherwise<R2>(handler: (adt: Rest) => R2): R | R2;
+}
+
+/**
+ * Placeholder reporting the unhandled part of an ADT in {@linkcode PatternMatcher.exhaustive}.
+ * @private
+ */
+interface NonExhaustive<Rest> {
+  readonly "~unhandled": Rest;
+}
+
+/**
+ * Get the values bound by `P.bind` in a pattern matched against `T`.
+ * @private
+ */
+type PatternBindings<Pat, T> =
+  Pat extends BindPattern ? [T]
+  : Pat extends { readonly _tag: infer Tag extends string } ?
+    _PatternBindings<_ExtractFields<Pat>, _ExtractFields<FilterTagged<T, Tag>>>
+  : [];
+type _PatternBindings<Pats, Fields extends unknown[], Acc extends unknown[] = []> =
+  Pats extends [infer Head, ...infer RestPats] ?
+    _PatternBindings<RestPats, Tail<Fields>, [...Acc, ...PatternBindings<Head, Fields[0]>]>
+  : Acc;
+
+/**
+ * Exclude the part of `T` matched by a pattern.
+ * @private
+ */
+type ExcludePattern<T, Pat> =
+  Pat extends WildcardPattern | BindPattern ? never
+  : Pat extends { readonly _tag: infer Tag extends string } ?
+    T extends { readonly _tag: Tag } ?
+      _ExcludeFieldPatterns<T, _ExtractFields<Pat>, _ExtractFields<T>>
+    : T
+  : T extends unknown ?
+    [T] extends [Pat] ?
+      never
+    : T
+  : never;
+// Only narrow `T` if at most one field pattern can fail to match
+type _ExcludeFieldPatterns<
+  T,
+  Pats,
+  Fields extends unknown[],
+  Counter extends void[] = [],
+  Refutable extends [number, unknown][] = [],
+> =
+  Pats extends [infer Head, ...infer RestPats] ?
+    _ExcludeFieldPatterns<
+      T,
+      RestPats,
+      Fields,
+      [...Counter, void],
+      IsNever<ExcludePattern<Fields[Counter["length"]], Head>> extends true ? Refutable
+      : [...Refutable, [Counter["length"], ExcludePattern<Fields[Counter["length"]], Head>]]
+    >
+  : Refutable extends [] ? never
+  : Refutable extends [[infer I extends number, infer Remaining]] ?
+    [Fields[I]] extends [Remaining] ?
+      T
+    : T & { readonly [K in `_${I}`]: Remaining }
+  : T;
+
+/**
+ * The [Standard Schema](https://standardschema.dev)-compatible validators of the fields of each
+ * variant of an ADT, used to create validating constructors with {@linkcode make}.
+ *
+ * **Example**
+ *
+ * ```typescript
+ * type Shape = Data<{
+ *   Circle: [radius: number];
+ *   Rectangle: [width: number, height: number];
+ * }>;
+ *
+ * const schemas: VariantSchemas<Shape> = {
+ *   Circle: [z.number()],
+ *   Rectangle: [z.number(), z.number()],
+ * };
+ * ```
+ */
+export type VariantSchemas<Type extends Tagged> = {
+  readonly [Tag in Type["_tag"]]: ExtractFields<FilterTagged<Type, Tag>> extends (
+    infer Fields extends readonly unknown[]
+  ) ?
+    {
+      readonly [I in keyof Fields]:
+        | StandardSchemaV1<unknown, Fields[I]>
+        | (() => StandardSchemaV1<unknown, Fields[I]>);
+    }
+  : never;
+};
+
+/**
+ * The arity (number of fields) of each variant of an ADT, used to declare the arities of
+ * constructors with {@linkcode make}.
+ *
+ * **Example**
+ *
+ * ```typescript
+ * const arities: VariantArities<Shape> = { Circle: 1, Rectangle: 2 };
+ * ```
+ */
+export type VariantArities<Type extends Tagged | LaidOut> = {
+  readonly [Tag in TagOf<Type>]: ExtractFields<FilterTagged<Type, Tag>>["length"];
+};
+
+/**
+ * The [Standard Schema](https://standardschema.dev) interface (v1), implemented by validation
+ * libraries like Zod, Valibot and ArkType.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1.Props<Input, Output>;
+}
+export declare namespace StandardSchemaV1 {
+  interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output>;
+  }
+  type Result<Output> = SuccessResult<Output> | FailureResult;
+  interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: never;
+  }
+  interface FailureResult {
+    readonly issues: readonly Issue[];
+  }
+  interface Issue {
+    readonly message: string;
+    readonly path?: readonly (PropertyKey | PathSegment)[];
+  }
+  interface PathSegment {
+    readonly key: PropertyKey;
+  }
+  interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+}
+
 /*****************
  * Utility types *
  *****************/
@@ -1244,14 +3237,53 @@ type Instantiate<F extends Tagged | TypeLambda<never, Tagged>> =
   (F extends TypeLambda ? TolerantResult<F> : F) extends infer R extends Tagged ? R : never;
 
 /**
- * {@link Extract} a {@linkcode Tagged} from a union of {@linkcode Tagged}s.
+ * Instantiate a possibly higher-kinded ADT with a custom {@linkcode Layout}.
+ * @private
+ */
+type InstantiateLaidOut<F extends LaidOut | TypeLambda<never, LaidOut>> =
+  (F extends TypeLambda ? TolerantResult<F> : F) extends infer R extends LaidOut ? R : never;
+
+/**
+ * Get the tags of a union of {@linkcode Tagged}s (with or without a custom {@linkcode Layout}).
+ * @private
+ */
+type TagOf<T> =
+  T extends unknown ?
+    typeof layoutSymbol extends keyof T ?
+      NonNullable<T[typeof layoutSymbol]> extends LayoutInfo<Layout, infer Tag, unknown> ?
+        Tag
+      : never
+    : T extends { readonly _tag: infer Tag extends string } ? Tag
+    : never
+  : never;
+
+/**
+ * {@link Extract} a {@linkcode Tagged} from a union of {@linkcode Tagged}s (with or without a
+ * custom {@linkcode Layout}).
  */
-type FilterTagged<T, Tag extends string> = Extract<T, { readonly _tag: Tag }>;
+type FilterTagged<T, Tag extends string> =
+  T extends unknown ?
+    typeof layoutSymbol extends keyof T ?
+      TagOf<T> extends Tag ?
+        T
+      : never
+    : T extends { readonly _tag: Tag } ? T
+    : never
+  : never;
 
 /**
- * Extract the fields of a {@linkcode Tagged} as a (possibly) labeled tuple.
+ * Extract the fields of a {@linkcode Tagged} (with or without a custom {@linkcode Layout}) as a
+ * (possibly) labeled tuple.
  */
-type ExtractFields<F> = AddLabels<
+type ExtractFields<F> =
+  typeof layoutSymbol extends keyof F ?
+    F extends unknown ?
+      NonNullable<F[typeof layoutSymbol]> extends LayoutInfo<Layout, infer Tag, infer Fields> ?
+        ExtractFields<Tagged<Tag, Fields>>
+      : never
+    : never
+  : _ExtractLabeledFields<F>;
+type _ExtractLabeledFields<F> = AddLabels<
   _ExtractFields<F>,
   F extends (
     Tagged<
@@ -1329,8 +3361,10 @@ type Merge<L, R> = {
  * {@link Merge} multiple object types. Optional keys are not considered.
  * @private
  */
-type Spread<A, B, C = {}, D = {}, E = {}, F = {}, G = {}, H = {}> =
-  Merge<A, Merge<B, Merge<C, Merge<D, Merge<E, Merge<F, Merge<G, H>>>>>>> extends infer R ?
+type Spread<A, B, C = {}, D = {}, E = {}, F = {}, G = {}, H = {}, I = {}> =
+  Merge<A, Merge<B, Merge<C, Merge<D, Merge<E, Merge<F, Merge<G, Merge<H, I>>>>>>>> extends (
+    infer R
+  ) ?
     { [K in keyof R]: R[K] }
   : never;
 
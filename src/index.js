@@ -1,178 +1,2220 @@
 /**
  * Generate constructors and match functions for an ADT.
- * @param {Array<string>} [variants] The variants of the ADT. If not provided, a proxy object will
- * be returned.
+ * @param {Array<string> | Object<string, Array<*>> | Object<string, number>} [spec] The variants
+ * of the ADT, or an object mapping each variant to the Standard Schema validators of its fields or
+ * to its arity. If not provided, a proxy object will be returned.
+ * @param {{ safe?: boolean, name?: string, labels?: Object<string, Array<string>>, display?: Object<string, (...fields: Array<*>) => string>, equals?: Object<string, (self: *, that: *, equals: (a: *, b: *) => boolean) => boolean>, monadic?: string, layout?: { discriminant?: string, fields?: Object<string, Array<string>> } }} [options]
+ * The options. If `safe` is `true`, constructors return a {@linkcode ValidationError} instead of
+ * throwing it when validation fails. `name` and `labels` are used to generate JSON Schemas, and
+ * `labels` also define read-only getters named after the fields on ADTs (displayed by
+ * {@linkcode show} as well).
+ * `display` maps variants to functions overriding how their ADTs are displayed by {@linkcode show},
+ * and `equals` to functions overriding how they are compared by {@linkcode equals}.
+ * `monadic` names the unary variant holding the value of successful computations (e.g., `"Ok"`),
+ * which enables the do-notation of `ADT.gen` and `ADT.genAsync`.
+ * `layout` stores the tag and fields of ADTs in other keys than `_tag` and `_0`, `_1`, etc. (see
+ * {@linkcode makeWithLayout}), and cannot be combined with options other than `name`.
  * @returns {*}
  */
-export function make(variants) {
+export function make(spec, options) {
+  if (options && options.layout) {
+    // Other options are not supported by ADTs with layouts, which are rejected instead of ignored
+    for (const key of Object.keys(options))
+      if (key !== "name" && key !== "layout" && options[key] !== undefined)
+        throw new TypeError(`The \`${key}\` option is not supported with \`layout\``);
+    return makeWithLayout(spec, { name: options.name, layout: options.layout });
+  }
+
+  const variants = spec && (Array.isArray(spec) ? spec : Object.keys(spec));
+  // `if<Tag>Async` of a variant would collide with `if<Tag>` of the variant suffixed with `Async`
+  if (variants)
+    for (const tag of variants)
+      if (tag.endsWith("Async") && variants.indexOf(tag.slice(0, -5)) !== -1)
+        throw new TypeError(
+          `The variants \`${tag.slice(0, -5)}\` and \`${tag}\` cannot be used together, since both would generate \`if${tag}\``,
+        );
+  /** @type {Object<string, Array<*>> | undefined} */
+  const schemas =
+    spec && !Array.isArray(spec) && Object.keys(spec).some((tag) => typeof spec[tag] !== "number") ?
+      /** @type {Object<string, Array<*>>} */ (spec)
+    : undefined;
+  // The arity of each variant declared by `spec` (if any), which constructors enforce outside of
+  // production builds. Arities are never inferred, so constructors of ADTs created without `spec`
+  // or with an array of variants accept any number of arguments
+  /** @type {Object<string, number>} */
+  const arities = Object.create(null);
+  if (spec && !Array.isArray(spec))
+    for (const tag of Object.keys(spec))
+      arities[tag] = typeof spec[tag] === "number" ? spec[tag] : spec[tag].length;
+  const safe = !!(options && options.safe);
+  const display = options && options.display;
+  const equality = options && options.equals;
+  if (equality)
+    for (const tag of Object.keys(equality)) if (equality[tag]) tagsWithEqualities.add(tag);
+  const adtName = options && options.name;
+
+  const labels = options && options.labels;
+  if (labels)
+    for (const tag in labels)
+      for (const label of labels[tag])
+        if (label === "_tag" || /^_\d+$/.test(label))
+          throw new TypeError(`Invalid label \`${label}\` for \`${tag}(...)\`, which is reserved`);
+
+  const monadic = options && options.monadic;
+  if (monadic !== undefined) {
+    if (variants && variants.indexOf(monadic) === -1)
+      throw new TypeError(
+        `Invalid monadic variant \`${monadic}\`, expected ${variants.map((tag) => "`" + tag + "`").join("/")}`,
+      );
+    if (monadic in arities && arities[monadic] !== 1)
+      throw new TypeError(
+        `The monadic variant \`${monadic}(...)\` must have exactly 1 field, but has ${arities[monadic]}`,
+      );
+  }
+
+  // Associate ADTs created by this function with their display and equality overrides (if any)
+  const withOverrides = (adt) => {
+    if (display && display[adt._tag]) displays.set(adt, display[adt._tag]);
+    if (equality && equality[adt._tag]) equalities.set(adt, equality[adt._tag]);
+    return adt;
+  };
+  // Define read-only getters named after the labels of fields (if any) on ADTs created by this
+  // function (constructors are skipped, since they are only ADTs if nullary)
+  const withLabels = (adt) => {
+    const names = labels && typeof adt === "object" && labels[adt._tag];
+    if (!names || !names.length) return adt;
+    fieldLabels.set(adt, names);
+    for (let i = 0; i < names.length; i++)
+      if (names[i])
+        Object.defineProperty(adt, names[i], { get: () => adt["_" + i], configurable: true });
+    return adt;
+  };
+
+  // Create the error thrown when a value is not one of the variants (if provided)
+  /** @type {(ErrorClass: typeof VariantMismatchError, value: *) => VariantMismatchError} */
+  const createMismatchError = (ErrorClass, value) => {
+    const expected = /** @type {Array<string>} */ (variants);
+    return new ErrorClass(
+      `Expected ${expected.map((tag) => "`" + tag + "(...)`").join("/")}, but got \`${show(value)}\``,
+      { expected, value, adtName },
+    );
+  };
+
   /* Guard */
   const createGuard = (tag) => renameFunction((adt) => adt._tag === tag, `is${tag}`);
 
-  /* Conditional deconstructor */
-  const createConditionalDeconstructor = (tag) =>
-    renameFunction((adt, onMatch, otherwise) => {
-      if (adt._tag === tag) return onMatch(...unwrap(adt));
-      if (otherwise) return otherwise(adt);
-    }, `if${tag}`);
+  /* Conditional deconstructor */
+  const createConditionalDeconstructor = (tag) =>
+    renameFunction((adt, onMatch, otherwise) => {
+      if (adt._tag === tag) return onMatch(...unwrapKnown(adt, arities));
+      if (otherwise) return otherwise(adt);
+    }, `if${tag}`);
+
+  const createAsyncConditionalDeconstructor = (tag) => {
+    const ifTag = createConditionalDeconstructor(tag);
+    return renameFunction((adt, onMatch, otherwise) => {
+      // Curried overload, i.e., `if<Tag>Async(onMatch, otherwise?)`
+      if (typeof adt === "function" && !("_tag" in adt)) {
+        const handlers = [adt, onMatch];
+        return renameFunction(
+          (adt) => Promise.resolve(adt).then((adt) => ifTag(adt, ...handlers)),
+          `if${tag}Async`,
+        );
+      }
+      return Promise.resolve(adt).then((adt) => ifTag(adt, onMatch, otherwise));
+    }, `if${tag}Async`);
+  };
+
+  /* Deconstructor */
+  const createDeconstructor = (tag) =>
+    renameFunction((adt) => {
+      if (adt == null || adt._tag !== tag)
+        throw new UnwrapError(`Expected \`${tag}(...)\`, but got \`${show(adt)}\``, {
+          expected: [tag],
+          value: adt,
+          adtName,
+        });
+      return unwrapKnown(adt, arities);
+    }, `unwrap${tag}`);
+
+  /* Constructor */
+  // ADTs known to be valid (i.e., created by validating constructors or `decode`), which are not
+  // validated again when used as fields of other ADTs
+  /** @type {WeakSet<object>} */
+  const validated = new WeakSet();
+  const createConstructor = (tag) =>
+    withOverrides(
+      Object.setPrototypeOf(
+        Object.defineProperty(
+          Object.assign(
+            renameFunction((...args) => {
+              if (schemas) {
+                const fieldSchemas = schemas[tag];
+                const issues =
+                  args.length === fieldSchemas.length ?
+                    validateFields(tag, fieldSchemas, args)
+                  : [
+                      {
+                        message: `Expected ${fieldSchemas.length} argument${fieldSchemas.length === 1 ? "" : "s"} for \`${tag}(...)\`, but got ${args.length}`,
+                      },
+                    ];
+                if (issues.length) {
+                  const error = createValidationError(issues);
+                  if (safe) return error;
+                  throw error;
+                }
+              } else if (
+                typeof process !== "undefined" &&
+                process.env.NODE_ENV !== "production" &&
+                tag in arities &&
+                args.length !== arities[tag]
+              ) {
+                throw createArityError(tag, arities[tag], args.length);
+              }
+              const result = withLabels(withOverrides(createADT(tag, args)));
+              if (schemas) validated.add(result);
+              return result;
+            }, tag),
+            { _tag: tag },
+          ),
+          // The arity is `undefined` unless declared
+          "arity",
+          { get: () => arities[tag], configurable: true },
+        ),
+        ADTConstructorProto,
+      ),
+    );
+
+  /* Match functions */
+  // `match(W)` and `match(W)Async` only differ in types and the names used in error messages
+  /** @type {(fnName: string) => Function} */
+  const createMatch = (fnName) =>
+    variants ?
+      renameFunction((adt, cases) => {
+        if (!cases) {
+          const cases = adt;
+          if (typeof process !== "undefined" && process.env.NODE_ENV !== "production")
+            checkCases(variants, cases, fnName);
+          const dispatch = compileMatch(cases, adtName, arities);
+          return renameFunction((adt) => {
+            if (adt == null || variants.indexOf(adt._tag) === -1)
+              throw createMismatchError(VariantMismatchError, adt);
+            return dispatch(adt);
+          }, fnName);
+        }
+        if (typeof process !== "undefined" && process.env.NODE_ENV !== "production")
+          checkCases(variants, cases, fnName);
+        if (adt == null || variants.indexOf(adt._tag) === -1)
+          throw createMismatchError(VariantMismatchError, adt);
+        return _match(adt, cases, adtName, arities);
+      }, fnName)
+    : renameFunction((adt, cases) => {
+        if (!cases) {
+          const dispatch = compileMatch(adt, adtName, arities);
+          return renameFunction((adt) => dispatch(adt), fnName);
+        }
+        return _match(adt, cases, adtName, arities);
+      }, fnName);
+  const matchForAsync = createMatch("matchAsync");
+  const matchWForAsync = createMatch("matchWAsync");
+
+  const result = {
+    unwrap:
+      variants ?
+        function unwrap(adt) {
+          if (adt == null || variants.indexOf(adt._tag) === -1)
+            throw createMismatchError(UnwrapError, adt);
+          return unwrapKnown(adt, arities);
+        }
+      : function unwrap(adt) {
+          return unwrapKnown(adt, arities);
+        },
+
+    match: createMatch("match"),
+    matchW: createMatch("matchW"),
+
+    matchAsync: function matchAsync(adt, cases) {
+      if (!cases) {
+        const match = matchForAsync(adt);
+        return function matchAsync(adt) {
+          return Promise.resolve(adt).then(match);
+        };
+      }
+      return Promise.resolve(adt).then((adt) => matchForAsync(adt, cases));
+    },
+    matchWAsync: function matchWAsync(adt, cases) {
+      if (!cases) {
+        const matchW = matchWForAsync(adt);
+        return function matchWAsync(adt) {
+          return Promise.resolve(adt).then(matchW);
+        };
+      }
+      return Promise.resolve(adt).then((adt) => matchWForAsync(adt, cases));
+    },
+
+    matchNamed: function matchNamed(adt, cases) {
+      if (!cases) {
+        const cases = adt;
+        if (variants && typeof process !== "undefined" && process.env.NODE_ENV !== "production")
+          checkCases(variants, cases, "matchNamed");
+        return function matchNamed(adt) {
+          if (variants && (adt == null || variants.indexOf(adt._tag) === -1))
+            throw createMismatchError(VariantMismatchError, adt);
+          return _matchNamed(adt, cases, adtName);
+        };
+      }
+      if (variants && typeof process !== "undefined" && process.env.NODE_ENV !== "production")
+        checkCases(variants, cases, "matchNamed");
+      if (variants && (adt == null || variants.indexOf(adt._tag) === -1))
+        throw createMismatchError(VariantMismatchError, adt);
+      return _matchNamed(adt, cases, adtName);
+    },
+
+    matchPattern: function matchPattern(adt) {
+      if (variants && (adt == null || variants.indexOf(adt._tag) === -1))
+        throw createMismatchError(VariantMismatchError, adt);
+      return createPatternMatcher(adt, adtName);
+    },
+
+    equals,
+
+    encode: function encode(adt) {
+      return encodeValue(adt, [], arities);
+    },
+
+    revive: function revive(value) {
+      return reviveDeep(value, (adt) => reviveADT(adt, adt === value));
+    },
+    reviver: function reviver(key, value) {
+      // `JSON.parse` calls the reviver with an empty key for the root value
+      return reviveADT(value, key === "");
+    },
+
+    parse: function parse(text) {
+      return parseText(text, parseADT);
+    },
+  };
+
+  // The object returned by `make` (a proxy if no variants are provided), used to retrieve
+  // nullary constructors when reviving
+  /** @type {*} */
+  let self = result;
+
+  /* Do-notation */
+  if (monadic !== undefined) {
+    /** @type {(value: *) => *} */
+    const wrap = (value) => self[monadic](value);
+    result.gen = function gen(f) {
+      return runGen(f(bindADT), monadic, wrap);
+    };
+    result.genAsync = function genAsync(f) {
+      return runGenAsync(f(bindADT), monadic, wrap);
+    };
+  }
+
+  /* Reviver */
+  // Unknown tags are only rejected for the root value, since nested ADTs may be created by other
+  // `make` calls (e.g., `Some(Ok(42))`), which are revived without labels or overrides
+  const reviveADT = (value, isRoot) => {
+    if (!isADTLike(value)) return value;
+    if (variants && variants.indexOf(value._tag) === -1) {
+      if (isRoot) throw createMismatchError(VariantMismatchError, value);
+      return Object.setPrototypeOf(value, ADTProto);
+    }
+    // `{ _tag }` is what a nullary constructor (or the ADT created by it) is serialized to
+    if (Object.keys(value).length === 1) return self[value._tag];
+    return withLabels(withOverrides(Object.setPrototypeOf(value, ADTProto)));
+  };
+
+  /* Parser */
+  const parseADT = (tag, fields, fail) => {
+    if (variants && variants.indexOf(tag) === -1)
+      fail(`Expected ${variants.map((tag) => "`" + tag + "(...)`").join("/")}, but got \`${tag}\``);
+    if (tag in arities && fields.length !== arities[tag])
+      fail(
+        `Expected ${arities[tag]} argument${arities[tag] === 1 ? "" : "s"} for \`${tag}(...)\`, but got ${fields.length}`,
+      );
+    const adt = fields.length ? withLabels(withOverrides(createADT(tag, fields))) : self[tag];
+    if (!schemas) return adt;
+    const validation = result["~standard"].validate(adt);
+    if (validation.issues)
+      fail(`Invalid \`${tag}(...)\`: ${createValidationError(validation.issues).message}`);
+    return validation.value;
+  };
+
+  if (variants) {
+    /* Decoder */
+    // Nullary variants are displayed without `(...)` if their arities are declared
+    const expected = variants.map((tag) => (arities[tag] === 0 ? tag : tag + "(...)")).join("|");
+    const validateADT = (input) => {
+      if (validated.has(input)) return { value: input };
+      if (
+        input == null ||
+        (typeof input !== "object" && typeof input !== "function") ||
+        variants.indexOf(input._tag) === -1
+      )
+        return { issues: [{ message: `expected ${expected}` }] };
+
+      /** @type {string} */
+      const tag = input._tag;
+      const fields = unwrap(input);
+      if (tag in arities && fields.length !== arities[tag])
+        return {
+          issues: [
+            {
+              message: `expected ${arities[tag]} field${arities[tag] === 1 ? "" : "s"} for \`${tag}(...)\`, but got ${fields.length}`,
+            },
+          ],
+        };
+      if (schemas) {
+        const issues = validateFields(tag, schemas[tag], fields);
+        if (issues.length) return { issues };
+      }
+
+      // Nullary ADTs are decoded as their constructors, just like `revive`
+      const value = fields.length ? withLabels(withOverrides(createADT(tag, fields))) : result[tag];
+      validated.add(value);
+      return { value };
+    };
+
+    result.decode = function decode(input) {
+      const validation = validateADT(input);
+      return validation.issues ? createValidationError(validation.issues) : validation.value;
+    };
+    result["~standard"] = { version: 1, vendor: "kind-adt", validate: validateADT };
+
+    /* JSON Schema */
+    descriptions.set(result, {
+      variants,
+      schemas,
+      name: options && options.name,
+      labels,
+    });
+    result.toJSONSchema = function toJSONSchema(options) {
+      return createJSONSchema(result, options || {});
+    };
+  }
+
+  if (!variants) {
+    // Generated functions are cached so that they keep the same identity across accesses
+    // (e.g., `ADT.None === ADT.None`), just like those generated with runtime variants
+    /** @type {Object<string, *>} */
+    const cache = Object.create(null);
+
+    return (self = new Proxy(result, {
+      get(target, prop, receiver) {
+        if (typeof prop !== "string" || prop in target) return Reflect.get(target, prop, receiver);
+
+        if (
+          prop === "decode" ||
+          prop === "~standard" ||
+          prop === "toJSONSchema" ||
+          prop === "tags" ||
+          prop === "variants" ||
+          prop === "arity" ||
+          prop === "labels"
+        )
+          throw new TypeError(
+            `\`${prop}\` is not available for ADTs created without variants. Pass the variants (or field schemas) to \`make\` to use it`,
+          );
+
+        if (prop in cache) return cache[prop];
+
+        /* Guard */
+        if (matchesPrefix(prop, "is")) {
+          const tag = prop.slice(2);
+          return (cache[prop] = createGuard(tag));
+        }
+
+        /* Async conditional deconstructor */
+        if (matchesPrefix(prop, "if") && prop.endsWith("Async") && prop.length > 7) {
+          const tag = prop.slice(2, -5);
+          return (cache[prop] = createAsyncConditionalDeconstructor(tag));
+        }
+
+        /* Conditional deconstructor */
+        if (matchesPrefix(prop, "if")) {
+          const tag = prop.slice(2);
+          return (cache[prop] = createConditionalDeconstructor(tag));
+        }
+
+        /* Deconstructor */
+        if (matchesPrefix(prop, "unwrap")) {
+          const tag = prop.slice(6);
+          return (cache[prop] = createDeconstructor(tag));
+        }
+
+        /* Constructor */
+        return (cache[prop] = createConstructor(prop));
+      },
+    }));
+  }
+
+  /** @type {Object<string, *>} */
+  const constructors = {};
+  for (const tag of variants) {
+    /* Constructor */
+    result[tag] = constructors[tag] = createConstructor(tag);
+
+    /* Guard */
+    result[`is${tag}`] = createGuard(tag);
+
+    /* Conditional deconstructor */
+    result[`if${tag}`] = createConditionalDeconstructor(tag);
+    result[`if${tag}Async`] = createAsyncConditionalDeconstructor(tag);
+
+    /* Deconstructor */
+    result[`unwrap${tag}`] = createDeconstructor(tag);
+  }
+
+  /* Reflection */
+  result.tags = Object.freeze(variants.slice());
+  result.variants = Object.freeze(constructors);
+  result.arity = function arity(tag) {
+    if (variants.indexOf(tag) === -1)
+      throw new VariantMismatchError(
+        `Expected ${variants.map((tag) => "`" + tag + "`").join("/")}, but got \`${show(tag)}\``,
+        { expected: variants, value: tag, adtName },
+      );
+    return arities[tag];
+  };
+  result.labels = labels;
+
+  return result;
+}
+
+/**
+ * Generate the functions of {@linkcode make} for ADTs with a custom `layout`, which are plain
+ * objects storing their tag in `layout.discriminant` and their fields in the keys listed in
+ * `layout.fields` (or in `_0`, `_1`, etc. for unlisted variants), e.g., `{ type: "Add", amount: 1 }`.
+ * @private
+ *
+ * @param {Array<string> | Object<string, *> | undefined} spec The variants of the ADT, or an
+ * object mapping each variant to its arity.
+ * @param {{ name?: string, layout: { discriminant?: string, fields?: Object<string, Array<string>> } }} options
+ * The options.
+ * @returns {*}
+ */
+function makeWithLayout(spec, options) {
+  if (
+    !spec ||
+    (!Array.isArray(spec) && Object.keys(spec).some((tag) => typeof spec[tag] !== "number"))
+  )
+    throw new TypeError("`layout` requires the variants (or their arities) to be passed to `make`");
+  const variants = Array.isArray(spec) ? spec : Object.keys(spec);
+  const adtName = options.name;
+  const discriminant = options.layout.discriminant || "_tag";
+  /** @type {Object<string, Array<string>>} */
+  const fieldKeys = Object.create(null);
+  /** @type {Object<string, number>} */
+  const arities = Object.create(null);
+  for (const tag of variants) {
+    const keys = options.layout.fields && options.layout.fields[tag];
+    if (keys) {
+      if (keys.indexOf(discriminant) !== -1)
+        throw new TypeError(
+          `Invalid field \`${discriminant}\` for \`${tag}(...)\`, which is the discriminant`,
+        );
+      fieldKeys[tag] = keys;
+      arities[tag] = keys.length;
+    } else if (!Array.isArray(spec)) {
+      arities[tag] = spec[tag];
+    }
+  }
+
+  const isVariant = (value) =>
+    value != null && typeof value === "object" && variants.indexOf(value[discriminant]) !== -1;
+  const fieldsOf = (adt) => {
+    const keys = fieldKeys[adt[discriminant]];
+    return keys ? keys.map((key) => adt[key]) : unwrap(adt);
+  };
+
+  /** @type {(ErrorClass: typeof VariantMismatchError, value: *) => VariantMismatchError} */
+  const createMismatchError = (ErrorClass, value) =>
+    new ErrorClass(
+      `Expected ${variants.map((tag) => "`" + tag + "(...)`").join("/")}, but got \`${show(value)}\``,
+      { expected: variants, value, adtName },
+    );
+
+  const matchKnown = (adt, cases) => {
+    if (!isVariant(adt)) throw createMismatchError(VariantMismatchError, adt);
+    const handler = cases[adt[discriminant]];
+    if (handler) return handler(...fieldsOf(adt));
+    if (cases._) return cases._(adt);
+    throw new MatchError(
+      `No case found for \`${show(adt)}\`. Consider adding a catch-all case (\`_\`) if needed`,
+      { expected: Object.keys(cases), value: adt, adtName },
+    );
+  };
+  /** @type {(fnName: string, matchKnown: (adt: *, cases: Object<string, Function>) => *) => Function} */
+  const createMatcher = (fnName, matchKnown) =>
+    renameFunction((adt, cases) => {
+      if (!cases) {
+        const cases = adt;
+        if (typeof process !== "undefined" && process.env.NODE_ENV !== "production")
+          checkCases(variants, cases, fnName);
+        return renameFunction((adt) => matchKnown(adt, cases), fnName);
+      }
+      if (typeof process !== "undefined" && process.env.NODE_ENV !== "production")
+        checkCases(variants, cases, fnName);
+      return matchKnown(adt, cases);
+    }, fnName);
+
+  /** @type {Object<string, *>} */
+  const result = {
+    unwrap: function unwrap(adt) {
+      if (!isVariant(adt)) throw createMismatchError(UnwrapError, adt);
+      return fieldsOf(adt);
+    },
+    match: createMatcher("match", matchKnown),
+    matchW: createMatcher("matchW", matchKnown),
+    matchNamed: createMatcher("matchNamed", (adt, cases) => {
+      if (!isVariant(adt)) throw createMismatchError(VariantMismatchError, adt);
+      return _matchNamed(adt, cases, adtName, discriminant);
+    }),
+    equals,
+  };
+
+  /** @type {Object<string, Function>} */
+  const constructors = {};
+  for (const tag of variants) {
+    const keys = fieldKeys[tag];
+    constructors[tag] = result[tag] = Object.defineProperty(
+      renameFunction((...args) => {
+        if (
+          typeof process !== "undefined" &&
+          process.env.NODE_ENV !== "production" &&
+          tag in arities &&
+          args.length !== arities[tag]
+        )
+          throw createArityError(tag, arities[tag], args.length);
+        /** @type {Object<string, *>} */
+        const adt = {};
+        adt[discriminant] = tag;
+        for (let i = 0; i < args.length; i++) adt[keys ? keys[i] : "_" + i] = args[i];
+        return adt;
+      }, tag),
+      "arity",
+      { get: () => arities[tag], configurable: true },
+    );
+    result[`is${tag}`] = renameFunction(
+      (adt) => adt != null && adt[discriminant] === tag,
+      `is${tag}`,
+    );
+    result[`unwrap${tag}`] = renameFunction((adt) => {
+      if (adt == null || adt[discriminant] !== tag)
+        throw new UnwrapError(`Expected \`${tag}(...)\`, but got \`${show(adt)}\``, {
+          expected: [tag],
+          value: adt,
+          adtName,
+        });
+      return fieldsOf(adt);
+    }, `unwrap${tag}`);
+    result[`if${tag}`] = renameFunction((adt, onMatch, otherwise) => {
+      if (adt != null && adt[discriminant] === tag) return onMatch(...fieldsOf(adt));
+      if (otherwise) return otherwise(adt);
+    }, `if${tag}`);
+  }
+
+  result.tags = Object.freeze(variants.slice());
+  result.variants = Object.freeze(constructors);
+  result.arity = function arity(tag) {
+    if (variants.indexOf(tag) === -1)
+      throw new VariantMismatchError(
+        `Expected ${variants.map((tag) => "`" + tag + "`").join("/")}, but got \`${show(tag)}\``,
+        { expected: variants, value: tag, adtName },
+      );
+    return arities[tag];
+  };
+  result.layout = options.layout;
+
+  return result;
+}
+
+/**
+ * Create the error thrown by constructors (unless `process.env.NODE_ENV` is `"production"`) when
+ * called with a number of arguments different from the declared arity of their variant.
+ * @private
+ *
+ * @param {string} tag The tag of the variant.
+ * @param {number} arity The arity of the variant.
+ * @param {number} got The number of arguments passed to the constructor.
+ * @returns {TypeError}
+ */
+const createArityError = (tag, arity, got) =>
+  new TypeError(
+    `Expected ${arity} argument${arity === 1 ? "" : "s"} for \`${tag}(...)\`, but got ${got}`,
+  );
+
+/**
+ * Extract the fields of an ADT.
+ * @param {*} adt The ADT to unwrap.
+ * @returns {Array}
+ */
+export function unwrap(adt) {
+  const result = [];
+  for (const key in adt)
+    if (Object.prototype.hasOwnProperty.call(adt, key))
+      if (key.startsWith("_") && !isNaN(Number(key.slice(1))))
+        // eslint-disable-next-line sonarjs/no-associative-arrays
+        result[key.slice(1)] = adt[key];
+  return result;
+}
+
+/**
+ * Match several ADTs at once (e.g., a state and an event), possibly created by different
+ * {@linkcode make} calls.
+ *
+ * Cases are keyed by the tags of the ADTs joined by commas (e.g., `"Idle,Start"`), where `_` matches
+ * any tag in its position. Cases are tried in the order they are written, and the handler of the
+ * first matched case is called with the ADTs. A single `_` is a catch-all case, tried last.
+ *
+ * If only `cases` is provided, a function accepting the ADTs is returned.
+ * @param {Array<*>} adts The ADTs to match.
+ * @param {Object<string, Function>} [cases] The cases to match.
+ * @returns {*}
+ *
+ * @example
+ * ```javascript
+ * const transition = (state, event) =>
+ *   matchN([state, event], {
+ *     "Idle,Start": () => Running,
+ *     "Running,Stop": () => Idle,
+ *     "_,Reset": () => Idle,
+ *     _: () => state,
+ *   });
+ * ```
+ */
+export function matchN(adts, cases) {
+  if (!cases) {
+    const cases = /** @type {*} */ (adts);
+    return function matchN(adts) {
+      return _matchN(adts, cases);
+    };
+  }
+  return _matchN(adts, cases);
+}
+
+/**
+ * Same as {@linkcode matchN}, but allows the return type of each case to be different.
+ * @param {Array<*>} adts The ADTs to match.
+ * @param {Object<string, Function>} [cases] The cases to match.
+ * @returns {*}
+ */
+export function matchNW(adts, cases) {
+  if (!cases) {
+    const cases = /** @type {*} */ (adts);
+    return function matchNW(adts) {
+      return _matchN(adts, cases);
+    };
+  }
+  return _matchN(adts, cases);
+}
+
+/**
+ * Patterns used by `ADT.matchPattern` (see {@linkcode make}).
+ *
+ * - `P._` matches any value.
+ * - `P.bind` matches any value and passes it to the handler. Bound values are passed in the order
+ *   they appear in the pattern.
+ * - `P.tag(tag, ...fields)` matches an ADT with the tag whose fields match the given patterns.
+ *   Omitted fields are matched by `P._`. Any ADT (e.g., `None`) can also be used as a pattern.
+ * - Any other value is a literal pattern, compared with {@linkcode equals}.
+ */
+export const P = {
+  _: /* @__PURE__ */ Object.freeze({ "~pattern": "_" }),
+  bind: /* @__PURE__ */ Object.freeze({ "~pattern": "bind" }),
+  tag: function tag(tag, ...fields) {
+    return createADT(tag, fields);
+  },
+};
+
+/**
+ * Check if two values are structurally equal.
+ *
+ * ADTs are compared by their `_tag` and fields (`_0`, `_1`, ...) recursively, and a nullary
+ * constructor (e.g., `None`) is considered equal to the ADT created by calling it (e.g., `None()`).
+ * Arrays, plain objects, `Map`s, `Set`s, `Date`s and `RegExp`s are compared structurally, and
+ * circular references are considered.
+ *
+ * Values implementing the {@linkcode equalsSymbol} protocol (including ADTs and ADT constructors)
+ * are compared using that protocol.
+ * @param {*} a The first value to compare.
+ * @param {*} b The second value to compare.
+ * @returns {boolean}
+ */
+export function equals(a, b) {
+  /** @type {Array<[*, *]>} */
+  const comparing = [];
+
+  const eq = (a, b) => {
+    if (a === b) return true;
+    if (a == null || b == null) return false;
+
+    const typeA = typeof a;
+    const typeB = typeof b;
+    if (typeA === "number" && typeB === "number") return Number.isNaN(a) && Number.isNaN(b);
+    if (typeA !== "object" && typeA !== "function") return false;
+    if (typeB !== "object" && typeB !== "function") return false;
+
+    for (const [x, y] of comparing) if (x === a && y === b) return true;
+    comparing.push([a, b]);
+    try {
+      if (typeof a[equalsSymbol] === "function") return !!a[equalsSymbol](b, eq);
+      if (typeof b[equalsSymbol] === "function") return !!b[equalsSymbol](a, eq);
+      if (typeA !== "object" || typeB !== "object") return false;
+      return structuralEquals(a, b, eq);
+    } finally {
+      comparing.pop();
+    }
+  };
+
+  return eq(a, b);
+}
+
+/**
+ * The symbol for the structural equality protocol used by {@linkcode equals}.
+ */
+export const equalsSymbol = Symbol.for("kind-adt.equals");
+
+/**
+ * Check if two objects (that do not implement the {@linkcode equalsSymbol} protocol) are
+ * structurally equal.
+ * @private
+ *
+ * @param {object} a The first object to compare.
+ * @param {object} b The second object to compare.
+ * @param {(a: *, b: *) => boolean} eq The function to compare nested values.
+ * @returns {boolean}
+ */
+const structuralEquals = (a, b, eq) => {
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  // `Object.is` also treats two invalid dates (whose time values are `NaN`) as equal
+  if (a instanceof Date) return Object.is(a.getTime(), b.getTime());
+
+  if (a instanceof RegExp) return a.toString() === b.toString();
+
+  if (a instanceof Map) {
+    if (a.size !== b.size) return false;
+    // Entries of `a` not found in `b` are paired with distinct (structurally equal) entries of `b`
+    const unpaired = Array.from(b).filter(([k, v]) => !(a.has(k) && eq(a.get(k), v)));
+    for (const [key, value] of a) {
+      if (b.has(key) && eq(value, b.get(key))) continue;
+      const i = unpaired.findIndex(([k, v]) => eq(key, k) && eq(value, v));
+      if (i === -1) return false;
+      unpaired.splice(i, 1);
+    }
+    return true;
+  }
+
+  if (a instanceof Set) {
+    if (a.size !== b.size) return false;
+    // Values of `a` not found in `b` are paired with distinct (structurally equal) values of `b`
+    const unpaired = Array.from(b).filter((v) => !a.has(v));
+    for (const value of a) {
+      if (b.has(value)) continue;
+      const i = unpaired.findIndex((v) => eq(value, v));
+      if (i === -1) return false;
+      unpaired.splice(i, 1);
+    }
+    return true;
+  }
+
+  if (Array.isArray(a)) {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) if (!eq(a[i], b[i])) return false;
+    return true;
+  }
+
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  for (const key of keys)
+    if (!Object.prototype.hasOwnProperty.call(b, key) || !eq(a[key], b[key])) return false;
+  return true;
+};
+
+/**
+ * Compute the hash code of a value, which is consistent with {@linkcode equals}, i.e., structurally
+ * equal values always have the same hash code.
+ *
+ * ADTs are hashed by their `_tag` and fields (`_0`, `_1`, ...) recursively, the same as ADT-like
+ * plain objects (e.g., `{ _tag: "Some", _0: 42 }` parsed from JSON), which are considered equal to
+ * the ADTs they represent (plain objects with other keys are neither ADT-like nor equal to ADTs).
+ * ADTs and ADT-like plain objects of variants with an equality override (see the `equals` option
+ * of {@linkcode make}) are hashed by their `_tag` only. Arrays, plain objects, `Map`s, `Set`s,
+ * `Date`s and `RegExp`s are hashed structurally (the order of keys of objects and the order of
+ * entries of `Map`s and `Set`s do not matter), and circular references are considered. Other
+ * functions are hashed by their identity.
+ *
+ * Values implementing the {@linkcode hashSymbol} protocol (including ADTs and ADT constructors) are
+ * hashed using that protocol. Values implementing only the {@linkcode equalsSymbol} protocol share
+ * the same hash code, since it is impossible to infer a consistent hash code from a custom equality.
+ * @param {*} value The value to hash.
+ * @returns {number} A 32-bit integer.
+ */
+export function hash(value) {
+  /** @type {Array<*>} */
+  const hashing = [];
+
+  /** @type {(value: *) => number} */
+  const h = (value) => {
+    if (value === null) return 0x6e756c6c;
+    switch (typeof value) {
+      case "undefined":
+        return 0x756e6466;
+      case "boolean":
+        return value ? 1231 : 1237;
+      case "number":
+      case "bigint":
+        // `0` and `-0` are both stringified as "0", and `NaN` as "NaN"
+        // eslint-disable-next-line @typescript-eslint/no-base-to-string
+        return hashString(typeof value + ":" + value);
+      case "string":
+        return hashString(value);
+      case "symbol":
+        return hashString(value.toString());
+    }
+
+    // The value refers back to itself, so a placeholder is used to avoid infinite recursion
+    if (hashing.indexOf(value) !== -1) return 0x63697263;
+    hashing.push(value);
+    try {
+      if (typeof value[hashSymbol] === "function") return value[hashSymbol](h) | 0;
+      if (typeof value[equalsSymbol] === "function") return 0x65716c73;
+      if (typeof value === "function") return identityHash(value);
+      // ADT-like plain objects (e.g., parsed JSON) are equal to the ADTs they represent
+      if (isADTLike(value)) return hashADT.call(value, h);
+      return structuralHash(value, h);
+    } finally {
+      hashing.pop();
+    }
+  };
+
+  return h(value);
+}
+
+/**
+ * The symbol for the hashing protocol used by {@linkcode hash}.
+ */
+export const hashSymbol = Symbol.for("kind-adt.hash");
+
+/**
+ * Compute the hash code of an object (that does not implement the {@linkcode hashSymbol} or
+ * {@linkcode equalsSymbol} protocol) structurally.
+ * @private
+ *
+ * @param {object} value The object to hash.
+ * @param {(value: *) => number} h The function to hash nested values.
+ * @returns {number}
+ */
+const structuralHash = (value, h) => {
+  if (value instanceof Date) return hashString("Date:" + value.getTime());
+
+  if (value instanceof RegExp) return hashString("RegExp:" + value.toString());
+
+  // Entries of `Map`s, `Set`s and objects are combined by addition, which is order-independent
+  if (value instanceof Map) {
+    let result = hashString("Map");
+    for (const [key, val] of value) result = (result + combineHash(h(key), h(val))) | 0;
+    return result;
+  }
+
+  if (value instanceof Set) {
+    let result = hashString("Set");
+    for (const val of value) result = (result + h(val)) | 0;
+    return result;
+  }
+
+  if (Array.isArray(value)) {
+    let result = hashString("Array");
+    for (const val of value) result = combineHash(result, h(val));
+    return result;
+  }
+
+  let result = hashString("Object");
+  for (const key of Object.keys(value))
+    result = (result + combineHash(hashString(key), h(value[key]))) | 0;
+  return result;
+};
+
+/**
+ * Compute the hash code of a string (djb2).
+ * @private
+ *
+ * @param {string} str The string to hash.
+ * @returns {number}
+ */
+const hashString = (str) => {
+  let result = 5381;
+  for (let i = 0; i < str.length; i++) result = (Math.imul(result, 33) ^ str.charCodeAt(i)) | 0;
+  return result;
+};
+
+/**
+ * Combine two hash codes in an order-dependent way. The result is mixed (using the finalizer of
+ * MurmurHash3) so that sums of combined hash codes (used for order-independent hashing) do not
+ * collide easily, e.g., `{ a: 1, b: 2 }` and `{ a: 2, b: 1 }`.
+ * @private
+ *
+ * @param {number} a The first hash code.
+ * @param {number} b The second hash code.
+ * @returns {number}
+ */
+const combineHash = (a, b) => {
+  let result = (Math.imul(a, 31) + b) | 0;
+  result = Math.imul(result ^ (result >>> 16), 0x85ebca6b);
+  result = Math.imul(result ^ (result >>> 13), 0xc2b2ae35);
+  return (result ^ (result >>> 16)) | 0;
+};
+
+/** @type {WeakMap<object, number>} */
+const identityHashes = new WeakMap();
+let nextIdentityHash = 0;
+/**
+ * Get the hash code of an object by its identity.
+ * @private
+ *
+ * @param {object} value The object to hash.
+ * @returns {number}
+ */
+const identityHash = (value) => {
+  let result = identityHashes.get(value);
+  if (result === undefined) identityHashes.set(value, (result = nextIdentityHash++ | 0));
+  return result;
+};
+
+/**
+ * Convert a value to a human-readable string, displaying ADTs as `Tag(field, ...)` (or just `Tag`
+ * for nullary ones), with the same layout as the [showify](https://github.com/Snowflyt/showify)
+ * integration. Arrays, plain objects, class instances, `Map`s, `Set`s, `Date`s, `RegExp`s and
+ * functions are supported as well, and circular references are displayed as `[Circular]`.
+ *
+ * ADTs created by constructors with display overrides (see the `display` option of
+ * {@linkcode make}) are displayed using the overrides.
+ * @param {*} value The value to show.
+ * @param {{ indent?: number, maxWidth?: number, colors?: boolean, trailingComma?: "none" | "always" | "auto", depth?: number }} [options]
+ * The options.
+ * @returns {string}
+ */
+export function show(value, options) {
+  const {
+    colors = false,
+    depth = Infinity,
+    indent = 0,
+    maxWidth = 80,
+    trailingComma = "none",
+  } = options || {};
+
+  /** @type {(code: number, reset: number) => (str: string) => string} */
+  const color = (code, reset) => (str) => (colors ? `\x1b[${code}m${str}\x1b[${reset}m` : str);
+  const c = {
+    cyan: color(36, 39),
+    yellow: color(33, 39),
+    green: color(32, 39),
+    magenta: color(35, 39),
+    red: color(31, 39),
+    gray: color(90, 39),
+    bold: color(1, 22),
+  };
+  const identifierRegex = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+  /**
+   * A node of the document to render, which is either a piece of text, a sequence of nodes, or
+   * comma-separated nodes between `open` and `close` that can be broken into multiple lines.
+   * @typedef {{ type: "text", value: string } | { type: "sequence", values: Array<Node> } | { type: "between", open: string, close: string, values: Array<Node>, pad: boolean, adt: boolean }} Node
+   */
+
+  /** @type {(value: string) => Node} */
+  const text = (value) => ({ type: "text", value });
+  /** @type {(values: Array<Node>) => Node} */
+  const sequence = (values) => ({ type: "sequence", values });
+  /** @type {(open: string, values: Array<Node>, close: string, pad?: boolean, adt?: boolean) => Node} */
+  const between = (open, values, close, pad = false, adt = false) => ({
+    type: "between",
+    open,
+    close,
+    values,
+    pad,
+    adt,
+  });
+
+  /** @type {(value: *, ancestors: Array<*>) => Node} */
+  const build = (value, ancestors) => {
+    if (typeof value === "string") return text(c.green(JSON.stringify(value)));
+    if (typeof value === "number") return text(c.yellow(Object.is(value, -0) ? "-0" : `${value}`));
+    // eslint-disable-next-line @typescript-eslint/no-base-to-string
+    if (typeof value === "bigint") return text(c.yellow(`${value}n`));
+    if (typeof value === "boolean") return text(c.yellow(`${value}`));
+    if (typeof value === "symbol") return text(c.green(value.toString()));
+    if (value === undefined) return text(c.gray("undefined"));
+    if (value === null) return text(c.bold("null"));
+
+    if (ancestors.indexOf(value) !== -1) return text(c.cyan("[Circular]"));
+    const nextAncestors = ancestors.concat([value]);
+    const tooDeep = ancestors.length > depth;
+
+    const proto = Object.getPrototypeOf(value);
+    const isADT = proto === ADTProto || proto === ADTConstructorProto;
+    const display = isADT && displays.get(value);
+    if (display) return text(display(...unwrap(value)));
+
+    if (!isADT && typeof value === "function")
+      return text(c.cyan(value.name ? `[Function: ${value.name}]` : "[Function (anonymous)]"));
+    if (value instanceof Date) return text(c.magenta(value.toISOString()));
+    if (value instanceof RegExp) return text(c.red(value.toString()));
+
+    /** @type {(keys: Array<string | symbol>) => Array<Node>} */
+    const buildEntries = (keys) =>
+      keys.map((key) => {
+        const keyDisplay =
+          typeof key === "symbol" ? key.toString()
+          : identifierRegex.test(key) ? key
+          : c.green(JSON.stringify(key));
+        return sequence([text(keyDisplay + ": "), build(value[key], nextAncestors)]);
+      });
+    const ownKeys = () =>
+      Reflect.ownKeys(value).filter((key) =>
+        Object.prototype.propertyIsEnumerable.call(value, key),
+      );
+
+    if (isADT) {
+      const fields = unwrap(value);
+      const labels = fieldLabels.get(value) || [];
+      const tag = c.cyan(value._tag);
+      if (tooDeep) return text(fields.length ? tag + "(...)" : tag);
+      /** @type {Node} */
+      const node =
+        fields.length ?
+          between(
+            tag + "(",
+            fields.map((field, i) =>
+              labels[i] ?
+                sequence([text(labels[i] + ": "), build(field, nextAncestors)])
+              : build(field, nextAncestors),
+            ),
+            ")",
+            false,
+            true,
+          )
+        : text(tag);
+      // Properties other than the tag and fields (e.g., added by `Object.assign`)
+      const keys = ownKeys().filter(
+        (key) => key !== "_tag" && !(typeof key === "string" && /^_\d+$/.test(key)),
+      );
+      return keys.length ?
+          sequence([node, text(" "), between("{", buildEntries(keys), "}", true)])
+        : node;
+    }
+
+    const className =
+      proto === null ? "[Object: null prototype]"
+      : proto.constructor && proto.constructor.name !== "Object" ? proto.constructor.name
+      : "";
+
+    if (value instanceof Map) {
+      if (tooDeep) return text(c.cyan(`[${className}]`));
+      return between(
+        `${className}(${value.size}) {`,
+        Array.from(value).map(([k, v]) =>
+          sequence([build(k, nextAncestors), text(" => "), build(v, nextAncestors)]),
+        ),
+        "}",
+        true,
+      );
+    }
+
+    if (value instanceof Set) {
+      if (tooDeep) return text(c.cyan(`[${className}]`));
+      return between(
+        `${className}(${value.size}) {`,
+        Array.from(value).map((v) => build(v, nextAncestors)),
+        "}",
+        true,
+      );
+    }
+
+    if (Array.isArray(value)) {
+      if (tooDeep) return text(c.cyan(`[${className}]`));
+      return between(
+        className === "Array" ? "[" : `${className}(${value.length}) [`,
+        value.map((item) => build(item, nextAncestors)),
+        "]",
+      );
+    }
+
+    if (tooDeep) return text(c.cyan(`[${className || "Object"}]`));
+    return between((className ? className + " " : "") + "{", buildEntries(ownKeys()), "}", true);
+  };
+
+  /** @type {(str: string) => number} */
+  // eslint-disable-next-line no-control-regex
+  const width = (str) => str.replace(/\x1b\[\d+m/g, "").length;
+
+  /** @type {(node: Node) => string} */
+  const renderInline = (node) => {
+    if (node.type === "text") return node.value;
+    if (node.type === "sequence") return node.values.map(renderInline).join("");
+    if (!node.values.length) return node.open + node.close;
+    const pad = node.pad ? " " : "";
+    return (
+      node.open +
+      pad +
+      node.values.map(renderInline).join(", ") +
+      (trailingComma === "always" ? "," : "") +
+      pad +
+      node.close
+    );
+  };
+
+  /**
+   * Render a node, breaking it into multiple lines if it does not fit in `maxWidth`.
+   * @param {Node} node The node to render.
+   * @param {number} level The indentation level.
+   * @param {number} column The column where the node starts.
+   * @param {number} trail The width of the text that follows the node on the same line.
+   * @param {boolean} [broken] Whether to break the node even if it fits, which is the case for
+   * nodes following a broken node in a sequence, e.g., the properties of `Some({` ... `}) { ... }`.
+   * @returns {string}
+   */
+  const render = (node, level, column, trail, broken = false) => {
+    if (node.type === "text") return node.value;
+
+    if (node.type === "sequence") {
+      let result = "";
+      for (let i = 0; i < node.values.length; i++) {
+        const rest = node.values
+          .slice(i + 1)
+          .map(renderInline)
+          .join("");
+        const lastLine = result.slice(result.lastIndexOf("\n") + 1);
+        result +=
+          !result.includes("\n") ?
+            render(node.values[i], level, column + width(result), width(rest) + trail)
+          : render(node.values[i], level, width(lastLine), width(rest) + trail, true);
+      }
+      return result;
+    }
+
+    const inline = renderInline(node);
+    if (
+      indent <= 0 ||
+      !node.values.length ||
+      (!broken && column + width(inline) + trail <= maxWidth)
+    )
+      return inline;
+
+    // Collapse ADTs with only one field that is an array, object, `Map` or `Set`, e.g.,
+    // `Some({` ... `})`
+    const first = node.values[0];
+    if (node.adt && node.values.length === 1 && first.type === "between" && !first.adt)
+      return (
+        node.open +
+        render(first, level, column + width(node.open), trail + width(node.close)) +
+        node.close
+      );
+
+    const padding = " ".repeat(indent * (level + 1));
+    return (
+      node.open +
+      "\n" +
+      node.values
+        .map((value, i, arr) => {
+          const comma = i !== arr.length - 1 || trailingComma !== "none" ? "," : "";
+          return padding + render(value, level + 1, padding.length, comma.length) + comma;
+        })
+        .join("\n") +
+      "\n" +
+      " ".repeat(indent * level) +
+      node.close
+    );
+  };
+
+  return render(build(value, []), 0, 0, 0);
+}
+
+/**
+ * The display overrides (see the `display` option of {@linkcode make}) of ADTs.
+ * @private
+ * @type {WeakMap<object, (...fields: Array<*>) => string>}
+ */
+const displays = new WeakMap();
+
+/**
+ * The equality overrides (see the `equals` option of {@linkcode make}) of ADTs.
+ * @private
+ * @type {WeakMap<object, (self: *, that: *, equals: (a: *, b: *) => boolean) => boolean>}
+ */
+const equalities = new WeakMap();
+
+/**
+ * The tags of variants with an equality override in any call of {@linkcode make}. ADTs (and
+ * ADT-like plain objects) with these tags are hashed by their `_tag` only, since an ADT-like plain
+ * object may be equal to an ADT with an equality override of the same tag.
+ * @private
+ * @type {Set<string>}
+ */
+const tagsWithEqualities = new Set();
+
+/**
+ * The labels of the fields (see the `labels` option of {@linkcode make}) of ADTs, displayed before
+ * their fields by {@linkcode show} and the custom inspect functions.
+ * @private
+ * @type {WeakMap<object, ReadonlyArray<string>>}
+ */
+const fieldLabels = new WeakMap();
+
+/**
+ * Install a [custom formatter](https://firefox-source-docs.mozilla.org/devtools-user/custom_formatters/)
+ * for ADTs in browser DevTools (Chrome, Edge and Firefox), so that ADTs are displayed as
+ * `Tag(field, ...)` in the console and can be expanded to inspect their fields. Custom formatters
+ * should be enabled in the DevTools settings.
+ * @returns {() => void} A function to uninstall the formatter.
+ */
+export function installDevtoolsFormatter() {
+  const style = {
+    tag: "color: #0e7c86; font-weight: bold",
+    key: "color: #881391",
+    body: "padding-left: 1.25em",
+  };
+
+  const isADT = (value) => {
+    if (value === null || (typeof value !== "object" && typeof value !== "function")) return false;
+    const proto = Object.getPrototypeOf(value);
+    return proto === ADTProto || proto === ADTConstructorProto;
+  };
+
+  const formatter = {
+    header(value) {
+      if (!isADT(value)) return null;
+      const display = displays.get(value);
+      if (display) return ["span", {}, display(...unwrap(value))];
+      const fields = unwrap(value);
+      if (!fields.length) return ["span", { style: style.tag }, value._tag];
+      const labels = fieldLabels.get(value) || [];
+      /** @type {Array<*>} */
+      const result = ["span", {}, ["span", { style: style.tag }, value._tag], "("];
+      for (let i = 0; i < fields.length; i++) {
+        if (i) result.push(", ");
+        if (labels[i]) result.push(["span", { style: style.key }, labels[i]], ": ");
+        result.push(["object", { object: fields[i] }]);
+      }
+      result.push(")");
+      return result;
+    },
+    hasBody(value) {
+      return isADT(value) && unwrap(value).length > 0;
+    },
+    body(value) {
+      const labels = fieldLabels.get(value) || [];
+      return [
+        "div",
+        { style: style.body },
+        ...unwrap(value).map((field, i) => [
+          "div",
+          {},
+          ["span", { style: style.key }, labels[i] || "_" + i],
+          ": ",
+          ["object", { object: field }],
+        ]),
+      ];
+    },
+  };
+
+  /** @type {*} */
+  const global = globalThis;
+  (global.devtoolsFormatters || (global.devtoolsFormatters = [])).push(formatter);
+  return () => {
+    const index = global.devtoolsFormatters.indexOf(formatter);
+    if (index !== -1) global.devtoolsFormatters.splice(index, 1);
+  };
+}
+
+/**
+ * A `Map` that compares its keys structurally using {@linkcode equals} and {@linkcode hash}
+ * instead of by reference, so ADTs can be used as keys.
+ *
+ * Entries are iterated in insertion order. When setting a key that is structurally equal to an
+ * existing key, the existing key is kept and only the value is updated.
+ * @template K, V
+ */
+export class HashMap {
+  /**
+   * @param {Iterable<readonly [K, V]> | null} [entries] The initial entries of the map.
+   */
+  constructor(entries) {
+    /**
+     * The entries of the map, keyed by the first inserted key of each group of equal keys.
+     * @private
+     * @type {Map<K, V>}
+     */
+    this._entries = new Map();
+    /**
+     * The keys of the map grouped by their hash codes.
+     * @private
+     * @type {Map<number, Array<K>>}
+     */
+    this._buckets = new Map();
+    if (entries) for (const [key, value] of entries) this.set(key, value);
+  }
+
+  /**
+   * Find the stored key that is structurally equal to the given key.
+   * @private
+   *
+   * @param {K} key The key to find.
+   * @returns {{ found: true, key: K } | { found: false, key: K, hash: number }}
+   */
+  _find(key) {
+    if (this._entries.has(key)) return { found: true, key };
+    const h = hash(key);
+    const bucket = this._buckets.get(h);
+    if (bucket) for (const k of bucket) if (equals(k, key)) return { found: true, key: k };
+    return { found: false, key, hash: h };
+  }
+
+  get size() {
+    return this._entries.size;
+  }
+
+  /**
+   * Get the value of the key that is structurally equal to the given key.
+   * @param {K} key The key to get the value of.
+   * @returns {V | undefined}
+   */
+  get(key) {
+    return this._entries.get(this._find(key).key);
+  }
+
+  /**
+   * Check if the map contains a key that is structurally equal to the given key.
+   * @param {K} key The key to check.
+   * @returns {boolean}
+   */
+  has(key) {
+    return this._find(key).found;
+  }
+
+  /**
+   * Set the value of the key that is structurally equal to the given key.
+   * @param {K} key The key to set.
+   * @param {V} value The value to set.
+   * @returns {this}
+   */
+  set(key, value) {
+    const found = this._find(key);
+    if (!found.found) {
+      const bucket = this._buckets.get(found.hash);
+      if (bucket) bucket.push(key);
+      else this._buckets.set(found.hash, [key]);
+    }
+    this._entries.set(found.key, value);
+    return this;
+  }
+
+  /**
+   * Delete the entry whose key is structurally equal to the given key.
+   * @param {K} key The key to delete.
+   * @returns {boolean}
+   */
+  delete(key) {
+    const found = this._find(key);
+    if (!found.found) return false;
+    const h = hash(found.key);
+    const bucket = /** @type {Array<K>} */ (this._buckets.get(h));
+    if (bucket.length === 1) this._buckets.delete(h);
+    else bucket.splice(bucket.indexOf(found.key), 1);
+    return this._entries.delete(found.key);
+  }
+
+  clear() {
+    this._entries.clear();
+    this._buckets.clear();
+  }
+
+  /**
+   * Call a function for each entry of the map in insertion order.
+   * @param {(value: V, key: K, map: HashMap<K, V>) => void} callbackfn The function to call.
+   * @param {*} [thisArg] The value to use as `this` when calling the function.
+   */
+  forEach(callbackfn, thisArg) {
+    this._entries.forEach((value, key) => {
+      callbackfn.call(thisArg, value, key, this);
+    });
+  }
+
+  keys() {
+    return this._entries.keys();
+  }
+
+  values() {
+    return this._entries.values();
+  }
+
+  entries() {
+    return this._entries.entries();
+  }
+
+  [Symbol.iterator]() {
+    return this._entries[Symbol.iterator]();
+  }
+
+  // eslint-disable-next-line @typescript-eslint/class-literal-property-style
+  get [Symbol.toStringTag]() {
+    return "HashMap";
+  }
+
+  /**
+   * @param {*} that The value to compare with.
+   * @param {(a: *, b: *) => boolean} eq The function to compare values.
+   * @returns {boolean}
+   */
+  [equalsSymbol](that, eq) {
+    if (!(that instanceof HashMap) || this.size !== that.size) return false;
+    for (const [key, value] of this._entries)
+      if (!that.has(key) || !eq(value, that.get(key))) return false;
+    return true;
+  }
+
+  /**
+   * @param {(value: *) => number} h The function to hash keys and values.
+   * @returns {number}
+   */
+  [hashSymbol](h) {
+    let result = hashString("HashMap");
+    for (const [key, value] of this._entries) result = (result + combineHash(h(key), h(value))) | 0;
+    return result;
+  }
+}
+
+/**
+ * A `Set` that compares its values structurally using {@linkcode equals} and {@linkcode hash}
+ * instead of by reference, so ADTs can be de-duplicated.
+ *
+ * Values are iterated in insertion order. When adding a value that is structurally equal to an
+ * existing value, the existing value is kept.
+ * @template T
+ */
+export class HashSet {
+  /**
+   * @param {Iterable<T> | null} [values] The initial values of the set.
+   */
+  constructor(values) {
+    /**
+     * @private
+     * @type {HashMap<T, T>}
+     */
+    this._map = new HashMap();
+    if (values) for (const value of values) this.add(value);
+  }
+
+  get size() {
+    return this._map.size;
+  }
+
+  /**
+   * Check if the set contains a value that is structurally equal to the given value.
+   * @param {T} value The value to check.
+   * @returns {boolean}
+   */
+  has(value) {
+    return this._map.has(value);
+  }
+
+  /**
+   * Add a value to the set if it does not contain a structurally equal value.
+   * @param {T} value The value to add.
+   * @returns {this}
+   */
+  add(value) {
+    if (!this._map.has(value)) this._map.set(value, value);
+    return this;
+  }
+
+  /**
+   * Delete the value that is structurally equal to the given value.
+   * @param {T} value The value to delete.
+   * @returns {boolean}
+   */
+  delete(value) {
+    return this._map.delete(value);
+  }
+
+  clear() {
+    this._map.clear();
+  }
+
+  /**
+   * Call a function for each value of the set in insertion order.
+   * @param {(value: T, value2: T, set: HashSet<T>) => void} callbackfn The function to call.
+   * @param {*} [thisArg] The value to use as `this` when calling the function.
+   */
+  forEach(callbackfn, thisArg) {
+    this._map.forEach((value) => {
+      callbackfn.call(thisArg, value, value, this);
+    });
+  }
+
+  keys() {
+    return this._map.keys();
+  }
+
+  values() {
+    return this._map.keys();
+  }
+
+  entries() {
+    return this._map.entries();
+  }
+
+  [Symbol.iterator]() {
+    return this._map.keys();
+  }
+
+  // eslint-disable-next-line @typescript-eslint/class-literal-property-style
+  get [Symbol.toStringTag]() {
+    return "HashSet";
+  }
+
+  /**
+   * @param {*} that The value to compare with.
+   * @returns {boolean}
+   */
+  [equalsSymbol](that) {
+    if (!(that instanceof HashSet) || this.size !== that.size) return false;
+    for (const value of this) if (!that.has(value)) return false;
+    return true;
+  }
+
+  /**
+   * @param {(value: *) => number} h The function to hash values.
+   * @returns {number}
+   */
+  [hashSymbol](h) {
+    let result = hashString("HashSet");
+    for (const value of this) result = (result + h(value)) | 0;
+    return result;
+  }
+}
+
+/**
+ * The error thrown (or returned in safe mode) by constructors generated from field schemas when
+ * their arguments are invalid.
+ */
+export class ValidationError extends TypeError {
+  /**
+   * @param {ReadonlyArray<{ readonly message: string, readonly path: string }>} issues The issues
+   * found during validation, each with the path to the invalid value (e.g., `$._0`).
+   */
+  constructor(issues) {
+    super(issues.map((issue) => `${issue.path}: ${issue.message}`).join("\n"));
+    this.name = "ValidationError";
+    /**
+     * The path to the first invalid value (e.g., `$._0`).
+     * @type {string}
+     */
+    this.path = issues.length ? issues[0].path : "$";
+    /**
+     * The issues found during validation.
+     * @type {ReadonlyArray<{ readonly message: string, readonly path: string }>}
+     */
+    this.issues = issues;
+  }
+}
+
+/**
+ * The error thrown by `ADT.parse` when the text is invalid, reporting the position (1-based line
+ * and column) of the error.
+ */
+export class ParseError extends SyntaxError {
+  /**
+   * @param {string} message The error message (without the position).
+   * @param {number} line The line of the error (1-based).
+   * @param {number} column The column of the error (1-based).
+   */
+  constructor(message, line, column) {
+    super(`${message} (at line ${line}, column ${column})`);
+    this.name = "ParseError";
+    /**
+     * The line of the error (1-based).
+     * @type {number}
+     */
+    this.line = line;
+    /**
+     * The column of the error (1-based).
+     * @type {number}
+     */
+    this.column = column;
+  }
+}
+
+/**
+ * The error thrown by match functions when no case matches the ADT(s), e.g., a case is missing
+ * without a catch-all case (`_`).
+ */
+export class MatchError extends Error {
+  /**
+   * @param {string} message The error message.
+   * @param {{ expected: ReadonlyArray<string>, value: *, adtName?: string, cause?: * }} options
+   * The cases tried (`expected`), the unmatched value, the name of the ADT (if known) and the cause
+   * of the error (if any).
+   */
+  constructor(message, options) {
+    super(message);
+    this.name = "MatchError";
+    /**
+     * The cases tried, e.g., the tags of the provided cases.
+     * @type {ReadonlyArray<string>}
+     */
+    this.expected = options.expected;
+    /**
+     * The value that no case matched.
+     * @type {*}
+     */
+    this.value = options.value;
+    /**
+     * The name of the ADT (see the `name` option of {@linkcode make}), if known.
+     * @type {string | undefined}
+     */
+    this.adtName = options.adtName;
+    if ("cause" in options) {
+      /**
+       * The cause of the error.
+       * @type {*}
+       */
+      this.cause = options.cause;
+    }
+  }
+}
+
+/**
+ * The error thrown when a value is not one of the expected variants of an ADT, e.g., when an ADT
+ * from another `make` call is passed to a match function generated with variants.
+ */
+export class VariantMismatchError extends TypeError {
+  /**
+   * @param {string} message The error message.
+   * @param {{ expected: ReadonlyArray<string>, value: *, adtName?: string, cause?: * }} options
+   * The expected tags, the actual value, the name of the ADT (if known) and the cause of the error
+   * (if any).
+   */
+  constructor(message, options) {
+    super(message);
+    this.name = "VariantMismatchError";
+    /**
+     * The expected tags.
+     * @type {ReadonlyArray<string>}
+     */
+    this.expected = options.expected;
+    /**
+     * The actual value.
+     * @type {*}
+     */
+    this.value = options.value;
+    /**
+     * The name of the ADT (see the `name` option of {@linkcode make}), if known.
+     * @type {string | undefined}
+     */
+    this.adtName = options.adtName;
+    if ("cause" in options) {
+      /**
+       * The cause of the error.
+       * @type {*}
+       */
+      this.cause = options.cause;
+    }
+  }
+}
+
+/**
+ * The error thrown by deconstructors (`ADT.unwrap<Tag>` and `ADT.unwrap`) when the value is not
+ * the expected variant.
+ */
+export class UnwrapError extends VariantMismatchError {
+  /**
+   * @param {string} message The error message.
+   * @param {{ expected: ReadonlyArray<string>, value: *, adtName?: string, cause?: * }} options
+   * The expected tags, the actual value, the name of the ADT (if known) and the cause of the error
+   * (if any).
+   */
+  constructor(message, options) {
+    super(message, options);
+    this.name = "UnwrapError";
+  }
+}
+
+/**
+ * A Standard Schema issue, whose path is an array of keys (or path segments).
+ * @private
+ * @typedef {{ message: string, path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> }} Issue
+ */
+
+/**
+ * Validate the fields of a variant with their Standard Schema validators (or thunks returning
+ * them, for recursive ADTs), replacing the fields in place with the validated output values.
+ * @private
+ *
+ * @param {string} tag The tag of the variant.
+ * @param {ReadonlyArray<*>} schemas The Standard Schema validators of the fields.
+ * @param {Array<*>} fields The fields to validate, which should have the same length as `schemas`.
+ * @returns {Array<Issue>} The issues found, with paths relative to the ADT.
+ */
+const validateFields = (tag, schemas, fields) => {
+  /** @type {Array<Issue>} */
+  const issues = [];
+  for (let i = 0; i < schemas.length; i++) {
+    const schema =
+      typeof schemas[i] === "function" && !("~standard" in schemas[i]) ? schemas[i]() : schemas[i];
+    const result = schema["~standard"].validate(fields[i]);
+    if (result instanceof Promise)
+      throw new TypeError(
+        `Schema validation for \`${tag}(...)\` must be synchronous, but the schema of field _${i} returned a Promise`,
+      );
+    if (result.issues)
+      for (const issue of result.issues)
+        issues.push({ message: issue.message, path: ["_" + i, ...(issue.path || [])] });
+    else fields[i] = result.value;
+  }
+  return issues;
+};
+
+/**
+ * Create a {@linkcode ValidationError} from Standard Schema issues.
+ * @private
+ *
+ * @param {ReadonlyArray<Issue>} issues The issues found during validation.
+ * @returns {ValidationError}
+ */
+const createValidationError = (issues) =>
+  new ValidationError(
+    issues.map((issue) => ({ message: issue.message, path: formatPath(issue.path || []) })),
+  );
+
+/**
+ * Format a Standard Schema path as a JSONPath-like string, e.g., `$._0.foo[1]`.
+ * @private
+ *
+ * @param {ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>} path The path to format.
+ * @returns {string}
+ */
+const formatPath = (path) => {
+  const identifierRegex = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+  let result = "$";
+  for (const segment of path) {
+    const key = typeof segment === "object" ? segment.key : segment;
+    if (typeof key === "number") result += `[${key}]`;
+    else if (typeof key === "symbol") result += `[${key.toString()}]`;
+    else if (identifierRegex.test(key)) result += "." + key;
+    else result += `[${JSON.stringify(key)}]`;
+  }
+  return result;
+};
+
+/**
+ * The runtime descriptions of ADTs created by {@linkcode make} with variants, used to generate
+ * JSON Schemas of ADTs referencing each other.
+ * @private
+ * @type {WeakMap<object, { variants: Array<string>, schemas?: Object<string, Array<*>>, name?: string, labels?: Object<string, Array<string>> }>}
+ */
+const descriptions = new WeakMap();
+
+/**
+ * Generate a JSON Schema (draft 2020-12) for an ADT created by {@linkcode make} with variants.
+ *
+ * Each ADT (including the ADTs used as field schemas) is defined in `$defs` as a `oneOf` of its
+ * variants (also defined in `$defs` as `<name>.<tag>`, so they can be referenced by the
+ * `discriminator` mapping on `_tag`), and the root schema references the definition of the ADT.
+ * @private
+ *
+ * @param {object} adt The result of {@linkcode make}.
+ * @param {{ name?: string, convertFieldSchema?: (schema: *) => * }} options The options.
+ * @returns {Object<string, *>}
+ */
+const createJSONSchema = (adt, options) => {
+  /** @type {Object<string, *>} */
+  const defs = {};
+  /** @type {Map<object, string>} */
+  const names = new Map();
+
+  const define = (adt, name) => {
+    const defined = names.get(adt);
+    if (defined !== undefined) return defined;
+
+    const description = /** @type {*} */ (descriptions.get(adt));
+    const base = name || description.name || "ADT";
+    // Different ADTs with the same name are distinguished by numeric suffixes
+    name = base;
+    let suffix = 2;
+    while (name in defs) name = base + suffix++;
+    names.set(adt, name);
+    defs[name] = {}; // Reserved to handle recursive ADTs
+
+    /** @type {Object<string, string>} */
+    const mapping = {};
+    for (const tag of description.variants) {
+      /** @type {Object<string, *>} */
+      const properties = { _tag: { const: tag } };
+      const required = ["_tag"];
+      /** @type {Object<string, *>} */
+      const variant = { type: "object", properties, required };
+      if (description.schemas) {
+        const fieldSchemas = description.schemas[tag];
+        const labels = (description.labels && description.labels[tag]) || [];
+        for (let i = 0; i < fieldSchemas.length; i++) {
+          const fieldSchema = convert(fieldSchemas[i]);
+          properties["_" + i] = labels[i] ? { ...fieldSchema, title: labels[i] } : fieldSchema;
+          required.push("_" + i);
+        }
+        variant.additionalProperties = false;
+      }
+      defs[`${name}.${tag}`] = variant;
+      mapping[tag] = `#/$defs/${name}.${tag}`;
+    }
+    defs[name] = {
+      oneOf: description.variants.map((tag) => ({ $ref: mapping[tag] })),
+      discriminator: { propertyName: "_tag", mapping },
+    };
+    return name;
+  };
+
+  const convert = (schema) => {
+    if (typeof schema === "function" && !("~standard" in schema)) schema = schema();
+    if (descriptions.has(schema)) return { $ref: "#/$defs/" + define(schema) };
+    if (options.convertFieldSchema) {
+      const result = options.convertFieldSchema(schema);
+      if (result !== undefined) return result;
+    }
+    // Standard JSON Schema (https://standardschema.dev/json-schema)
+    const jsonSchema = schema["~standard"] && schema["~standard"].jsonSchema;
+    if (jsonSchema && typeof jsonSchema.output === "function") {
+      const { $schema: _, ...result } = jsonSchema.output({ target: "draft-2020-12" });
+      return result;
+    }
+    return {};
+  };
+
+  const name = define(adt, options.name);
+  return {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    $ref: "#/$defs/" + name,
+    $defs: defs,
+  };
+};
+
+/**
+ * Create an ADT with the given tag and fields.
+ * @private
+ *
+ * @param {string} tag The tag of the ADT.
+ * @param {ReadonlyArray<*>} fields The fields of the ADT.
+ * @returns {*}
+ */
+const createADT = (tag, fields) => {
+  const result = Object.create(ADTProto);
+  result._tag = tag;
+  for (let i = 0; i < fields.length; i++) result["_" + i] = fields[i];
+  return result;
+};
+
+/**
+ * Extract the fields of an ADT like {@linkcode unwrap}, but read them by index without scanning
+ * the keys of the ADT if the arity of its variant is known and the ADT has exactly that many
+ * fields (which is always the case for ADTs created by constructors).
+ * @private
+ *
+ * @param {*} adt The ADT to extract the fields from.
+ * @param {Object<string, number>} [arities] The arities of variants declared in `make`.
+ * @returns {Array<*>}
+ */
+const unwrapKnown = (adt, arities) => {
+  const arity = arities && arities[adt._tag];
+  if (
+    arity === undefined ||
+    Object.prototype.hasOwnProperty.call(adt, "_" + arity) ||
+    (arity > 0 && !Object.prototype.hasOwnProperty.call(adt, "_" + (arity - 1)))
+  )
+    return unwrap(adt);
+  const fields = new Array(arity);
+  for (let i = 0; i < arity; i++) fields[i] = adt["_" + i];
+  return fields;
+};
+
+/**
+ * Encode ADTs (including nullary constructors) in a value as plain JSON objects recursively,
+ * traversing arrays and plain objects.
+ * @private
+ *
+ * @param {*} value The value to encode.
+ * @param {Array<*>} ancestors The ancestors of the value, used to detect circular references.
+ * @param {Object<string, number>} [arities] The known arities of variants (see
+ * {@linkcode unwrapKnown}).
+ * @returns {*}
+ */
+const encodeValue = (value, ancestors, arities) => {
+  if (value === null || (typeof value !== "object" && typeof value !== "function")) return value;
+
+  const proto = Object.getPrototypeOf(value);
+  const isADT = proto === ADTProto || proto === ADTConstructorProto;
+  if (!isADT && !Array.isArray(value) && proto !== Object.prototype && proto !== null) return value;
+
+  if (ancestors.indexOf(value) !== -1)
+    throw new TypeError(`Cannot encode circular structure \`${show(value)}\``);
+  const nextAncestors = ancestors.concat([value]);
+
+  if (isADT) {
+    /** @type {Object<string, *>} */
+    const result = { _tag: value._tag };
+    const fields = unwrapKnown(value, arities);
+    for (let i = 0; i < fields.length; i++)
+      result["_" + i] = encodeValue(fields[i], nextAncestors, arities);
+    return result;
+  }
+
+  if (Array.isArray(value)) return value.map((v) => encodeValue(v, nextAncestors, arities));
+
+  /** @type {Object<string, *>} */
+  const result = {};
+  for (const key of Object.keys(value))
+    result[key] = encodeValue(value[key], nextAncestors, arities);
+  return result;
+};
+
+/**
+ * Check if a value is an ADT that has lost its prototype (e.g., after `JSON.parse` or
+ * `structuredClone`), i.e., a plain object that only has a string `_tag` and fields (`_0`, `_1`,
+ * ...).
+ * @private
+ *
+ * @param {*} value The value to check.
+ * @returns {boolean}
+ */
+const isADTLike = (value) => {
+  if (value === null || typeof value !== "object" || typeof value._tag !== "string") return false;
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== Object.prototype && proto !== null) return false;
+  for (const key of Object.keys(value))
+    if (key !== "_tag" && !(key.startsWith("_") && !isNaN(Number(key.slice(1))))) return false;
+  return true;
+};
 
-  /* Deconstructor */
-  const createDeconstructor = (tag) =>
-    renameFunction((adt) => {
-      if (adt == null || adt._tag !== tag)
-        throw new TypeError(`Expected \`${tag}(...)\`, but got \`${stringify(adt)}\``);
-      return unwrap(adt);
-    }, `unwrap${tag}`);
+/**
+ * Revive ADTs in a value recursively (in place), traversing arrays, plain objects, ADTs, `Map`s and
+ * `Set`s. Like `JSON.parse`, nested values are revived before the values containing them.
+ * @private
+ *
+ * @param {*} value The value to revive.
+ * @param {(value: *) => *} reviveADT The function to revive a single (possibly ADT-like) object.
+ * @returns {*}
+ */
+const reviveDeep = (value, reviveADT) => {
+  /** @type {Map<object, *>} */
+  const revived = new Map();
 
-  /* Constructor */
-  const createConstructor = (tag) =>
-    Object.setPrototypeOf(
-      Object.assign(
-        renameFunction((...args) => {
-          const result = Object.create(ADTProto);
-          result._tag = tag;
-          for (let i = 0; i < args.length; i++) result["_" + i] = args[i];
-          return result;
-        }, tag),
-        { _tag: tag },
-      ),
-      ADTConstructorProto,
-    );
+  const revive = (value) => {
+    if (value === null || typeof value !== "object") return value;
+    if (revived.has(value)) return revived.get(value);
+    revived.set(value, value);
 
-  const result = {
-    unwrap:
-      variants ?
-        function unwrap(adt) {
-          if (adt == null || variants.indexOf(adt._tag) === -1)
-            throw new TypeError(
-              `Expected ${variants.map((tag) => "`" + tag + "(...)`").join("/")}, but got \`${stringify(adt)}\``,
-            );
-          const result = [];
-          for (const key in adt)
-            if (Object.prototype.hasOwnProperty.call(adt, key))
-              if (key.startsWith("_") && !isNaN(Number(key.slice(1))))
-                // eslint-disable-next-line sonarjs/no-associative-arrays
-                result[key.slice(1)] = adt[key];
-          return result;
-        }
-      : unwrap,
+    if (Array.isArray(value)) {
+      for (let i = 0; i < value.length; i++) value[i] = revive(value[i]);
+      return value;
+    }
 
-    match:
-      variants ?
-        function match(adt, cases) {
-          if (!cases) {
-            const cases = adt;
-            return function match(adt) {
-              if (adt == null || variants.indexOf(adt._tag) === -1)
-                throw new TypeError(
-                  `Expected ${variants.map((tag) => "`" + tag + "(...)`").join("/")}, but got \`${stringify(adt)}\``,
-                );
-              return _match(adt, cases);
-            };
-          }
-          if (adt == null || variants.indexOf(adt._tag) === -1)
-            throw new TypeError(
-              `Expected ${variants.map((tag) => "`" + tag + "(...)`").join("/")}, but got \`${stringify(adt)}\``,
-            );
-          return _match(adt, cases);
-        }
-      : function match(adt, cases) {
-          if (!cases) {
-            const cases = adt;
-            return function match(adt) {
-              return _match(adt, cases);
-            };
-          }
-          return _match(adt, cases);
-        },
-    matchW:
-      variants ?
-        function matchW(adt, cases) {
-          if (!cases) {
-            const cases = adt;
-            return function matchW(adt) {
-              if (adt == null || variants.indexOf(adt._tag) === -1)
-                throw new TypeError(
-                  `Expected ${variants.map((tag) => "`" + tag + "(...)`").join("/")}, but got \`${stringify(adt)}\``,
-                );
-              return _match(adt, cases);
-            };
-          }
-          if (adt == null || variants.indexOf(adt._tag) === -1)
-            throw new TypeError(
-              `Expected ${variants.map((tag) => "`" + tag + "(...)`").join("/")}, but got \`${stringify(adt)}\``,
-            );
-          return _match(adt, cases);
-        }
-      : function matchW(adt, cases) {
-          if (!cases) {
-            const cases = adt;
-            return function matchW(adt) {
-              return _match(adt, cases);
-            };
-          }
-          return _match(adt, cases);
-        },
+    if (value instanceof Map) {
+      const entries = Array.from(value);
+      value.clear();
+      for (const [key, val] of entries) value.set(revive(key), revive(val));
+      return value;
+    }
+
+    if (value instanceof Set) {
+      const values = Array.from(value);
+      value.clear();
+      for (const val of values) value.add(revive(val));
+      return value;
+    }
+
+    const proto = Object.getPrototypeOf(value);
+    if (proto !== Object.prototype && proto !== null && proto !== ADTProto) return value;
+    for (const key of Object.keys(value)) value[key] = revive(value[key]);
+    const result = reviveADT(value);
+    revived.set(value, result);
+    return result;
   };
 
-  if (!variants)
-    return new Proxy(result, {
-      get(target, prop, receiver) {
-        if (typeof prop !== "string" || prop in target) return Reflect.get(target, prop, receiver);
+  return revive(value);
+};
 
-        /* Guard */
-        if (matchesPrefix(prop, "is")) {
-          const tag = prop.slice(2);
-          return createGuard(tag);
-        }
+/**
+ * Parse a value written in the notation ADTs are displayed in (e.g., `Some({ value: [1, 2n] })`),
+ * which is a subset of JavaScript expressions: ADTs (`Tag(field, ...)` or just `Tag` for nullary
+ * ones), numbers (including `NaN`, `Infinity` and negative numbers), bigints (with the `n`
+ * suffix), single- or double-quoted strings, booleans, `null`, `undefined`, arrays and plain
+ * objects. Trailing commas are allowed.
+ * @private
+ *
+ * @param {string} text The text to parse.
+ * @param {(tag: string, fields: Array<*>, fail: (message: string) => never) => *} createADTValue
+ * The function to create an ADT from its tag and fields, which calls `fail` with the error message
+ * if the ADT is invalid.
+ * @returns {*}
+ * @throws {ParseError} If the text is invalid.
+ */
+const parseText = (text, createADTValue) => {
+  const identifierRegex = /[A-Za-z_$][A-Za-z0-9_$]*/y;
+  const numberRegex = /-?(?:Infinity|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?n?)/y;
+  /** @type {Object<string, *>} */
+  const keywords = Object.assign(Object.create(null), {
+    true: true,
+    false: false,
+    null: null,
+    undefined,
+    NaN,
+    Infinity,
+  });
+  const escapes = { b: "\b", f: "\f", n: "\n", r: "\r", t: "\t", v: "\v", 0: "\0" };
 
-        /* Conditional deconstructor */
-        if (matchesPrefix(prop, "if")) {
-          const tag = prop.slice(2);
-          return createConditionalDeconstructor(tag);
-        }
+  let pos = 0;
 
-        /* Deconstructor */
-        if (matchesPrefix(prop, "unwrap")) {
-          const tag = prop.slice(6);
-          return createDeconstructor(tag);
-        }
+  /** @type {(message: string, at?: number) => never} */
+  const fail = (message, at = pos) => {
+    const lines = text.slice(0, at).split("\n");
+    throw new ParseError(message, lines.length, lines[lines.length - 1].length + 1);
+  };
+  // The description of the current character, used in error messages
+  const got = () => (pos < text.length ? JSON.stringify(text[pos]) : "end of input");
 
-        /* Constructor */
-        return createConstructor(prop);
-      },
-    });
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+  const consume = (char, what) => {
+    skipWhitespace();
+    if (text[pos] !== char) fail(`Expected ${what}, but got ${got()}`);
+    pos++;
+  };
+  const match = (regex) => {
+    regex.lastIndex = pos;
+    const result = regex.exec(text);
+    if (result) pos += result[0].length;
+    return result && result[0];
+  };
 
-  for (const tag of variants) {
-    /* Constructor */
-    result[tag] = createConstructor(tag);
+  // Parse a comma-separated list until `close`, allowing a trailing comma
+  const parseList = (close, parseItem) => {
+    skipWhitespace();
+    while (text[pos] !== close) {
+      parseItem();
+      skipWhitespace();
+      if (text[pos] === ",") {
+        pos++;
+        skipWhitespace();
+      } else if (text[pos] !== close)
+        fail(`Expected "," or ${JSON.stringify(close)}, but got ${got()}`);
+    }
+    pos++;
+  };
 
-    /* Guard */
-    result[`is${tag}`] = createGuard(tag);
+  const parseString = () => {
+    const start = pos;
+    const quote = text[pos++];
+    let result = "";
+    while (text[pos] !== quote) {
+      if (pos >= text.length || text[pos] === "\n") fail("Unterminated string literal", start);
+      if (text[pos] !== "\\") {
+        result += text[pos++];
+        continue;
+      }
+      const char = text[++pos];
+      const code =
+        char === "x" ? match(/x([0-9A-Fa-f]{2})/y)
+        : char === "u" ? match(/u(?:[0-9A-Fa-f]{4}|\{[0-9A-Fa-f]+\})/y)
+        : null;
+      if (code) result += String.fromCodePoint(parseInt(code.replace(/[xu{}]/g, ""), 16));
+      else if (char === "x" || char === "u") fail("Invalid escape sequence", pos - 1);
+      else {
+        result += char in escapes ? escapes[char] : char;
+        pos++;
+      }
+    }
+    pos++;
+    return result;
+  };
 
-    /* Conditional deconstructor */
-    result[`if${tag}`] = createConditionalDeconstructor(tag);
+  const parseValue = () => {
+    skipWhitespace();
+    const start = pos;
+    const char = text[pos];
 
-    /* Deconstructor */
-    result[`unwrap${tag}`] = createDeconstructor(tag);
-  }
+    if (char === '"' || char === "'") return parseString();
 
-  return result;
-}
+    if (char === "[") {
+      pos++;
+      /** @type {Array<*>} */
+      const result = [];
+      parseList("]", () => result.push(parseValue()));
+      return result;
+    }
 
-/**
- * Extract the fields of an ADT.
- * @param {*} adt The ADT to unwrap.
- * @returns {Array}
- */
-export function unwrap(adt) {
-  const result = [];
-  for (const key in adt)
-    if (Object.prototype.hasOwnProperty.call(adt, key))
-      if (key.startsWith("_") && !isNaN(Number(key.slice(1))))
-        // eslint-disable-next-line sonarjs/no-associative-arrays
-        result[key.slice(1)] = adt[key];
+    if (char === "{") {
+      pos++;
+      /** @type {Object<string, *>} */
+      const result = {};
+      parseList("}", () => {
+        skipWhitespace();
+        const key =
+          text[pos] === '"' || text[pos] === "'" ?
+            parseString()
+          : match(identifierRegex) || match(numberRegex);
+        if (key === null) fail(`Expected a property key, but got ${got()}`);
+        consume(":", '":"');
+        // Define the property instead of assigning it, so that `__proto__` is an ordinary key
+        Object.defineProperty(result, key, {
+          value: parseValue(),
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
+      });
+      return result;
+    }
+
+    const number = match(numberRegex);
+    if (number !== null) {
+      if (!number.endsWith("n")) return Number(number);
+      if (!/^-?\d+n$/.test(number)) fail("Invalid bigint literal", start);
+      // `BigInt` is not included in the ES2015 lib
+      return /** @type {*} */ (globalThis).BigInt(number.slice(0, -1));
+    }
+
+    const identifier = match(identifierRegex);
+    if (identifier === null) fail(`Expected a value, but got ${got()}`);
+    if (identifier in keywords) return keywords[identifier];
+
+    /** @type {Array<*>} */
+    const fields = [];
+    skipWhitespace();
+    if (text[pos] === "(") {
+      pos++;
+      parseList(")", () => {
+        // Skip the label of the field (e.g., `value: ` in `Ok(value: 42)`) if any
+        skipWhitespace();
+        const labelStart = pos;
+        if (match(identifierRegex) !== null) {
+          skipWhitespace();
+          if (text[pos] === ":") pos++;
+          else pos = labelStart;
+        }
+        fields.push(parseValue());
+      });
+    }
+    return createADTValue(identifier, fields, (message) => fail(message, start));
+  };
+
+  const result = parseValue();
+  skipWhitespace();
+  if (pos < text.length) fail(`Expected end of input, but got ${got()}`);
   return result;
-}
+};
 
 /**
  * Match an ADT with the provided cases.
@@ -180,16 +2222,330 @@ export function unwrap(adt) {
  *
  * @param {*} adt The ADT to match.
  * @param {Object<string, Function>} cases The cases to match.
+ * @param {string} [adtName] The name of the ADT, if known.
+ * @param {Object<string, number>} [arities] The known arities of variants (see
+ * {@linkcode unwrapKnown}).
  * @returns {*}
  */
-const _match = (adt, cases) => {
-  if (adt != null && cases[adt._tag]) return cases[adt._tag](...unwrap(adt));
+const _match = (adt, cases, adtName, arities) => {
+  if (adt != null && cases[adt._tag]) return cases[adt._tag](...unwrapKnown(adt, arities));
   if (cases._) return cases._(adt);
-  throw new Error(
-    `No case found for \`${stringify(adt)}\`. Consider adding a catch-all case (\`_\`) if needed`,
+  throw new MatchError(
+    `No case found for \`${show(adt)}\`. Consider adding a catch-all case (\`_\`) if needed`,
+    { expected: Object.keys(cases), value: adt, adtName },
+  );
+};
+
+/**
+ * Match an ADT with the provided object-style cases, which are called with the ADT itself (so its
+ * fields can be destructured by their labels) instead of its fields.
+ * @private
+ *
+ * @param {*} adt The ADT to match.
+ * @param {Object<string, Function>} cases The cases to match.
+ * @param {string} [adtName] The name of the ADT, if known.
+ * @param {string} [discriminant] The key of the tag (see the `layout` option of {@linkcode make}).
+ * @returns {*}
+ */
+const _matchNamed = (adt, cases, adtName, discriminant = "_tag") => {
+  const handler = (adt != null && cases[adt[discriminant]]) || cases._;
+  if (handler) return handler(adt);
+  throw new MatchError(
+    `No case found for \`${show(adt)}\`. Consider adding a catch-all case (\`_\`) if needed`,
+    { expected: Object.keys(cases), value: adt, adtName },
+  );
+};
+
+/**
+ * Compile the cases of a curried match function into a dispatcher, which calls the handlers with
+ * the fields of ADTs directly instead of unwrapping them into an array like {@linkcode _match}.
+ *
+ * The arity of each variant is known in advance if declared, or learned from the first ADT of the
+ * variant otherwise. The fields of ADTs are read by index as long as they have the same arity
+ * (otherwise {@linkcode _match} is used as a fallback, which also handles the catch-all case and
+ * throws if no case matches).
+ * @private
+ *
+ * @param {Object<string, Function>} cases The cases to match.
+ * @param {string} [adtName] The name of the ADT, if known.
+ * @param {Object<string, number>} [arities] The known arities of variants (see
+ * {@linkcode unwrapKnown}).
+ * @returns {(adt: *) => *}
+ */
+const compileMatch = (cases, adtName, arities) => {
+  /** @type {Object<string, ReturnType<typeof createInvoker>>} */
+  const invokers = Object.create(null);
+  for (const tag in cases) if (tag !== "_") invokers[tag] = createInvoker(cases[tag]);
+  return (adt) => {
+    const invoker = adt != null && invokers[adt._tag];
+    if (invoker) {
+      if (invoker.arity === -1)
+        invoker.learn(arities && adt._tag in arities ? arities[adt._tag] : unwrap(adt).length);
+      if (
+        !Object.prototype.hasOwnProperty.call(adt, invoker.next) &&
+        (invoker.arity === 0 || Object.prototype.hasOwnProperty.call(adt, invoker.last))
+      )
+        return invoker.invoke(adt);
+    }
+    return _match(adt, cases, adtName, arities);
+  };
+};
+
+/**
+ * Create an invoker calling a handler with the fields of ADTs of a specific arity, which is learned
+ * by {@linkcode compileMatch} (`-1` if not learned yet).
+ * @private
+ *
+ * @param {Function} handler The handler to call.
+ * @returns {{ arity: number, last: string, next: string, invoke: (adt: *) => *, learn: (arity: number) => void }}
+ */
+const createInvoker = (handler) => {
+  const invoker = {
+    arity: -1,
+    // The keys of the last field and the field after it, used to check the arity of ADTs
+    last: "",
+    next: "",
+    /** @type {(adt: *) => *} */
+    invoke: (adt) => handler(...unwrap(adt)),
+    /** @param {number} arity The number of fields of ADTs of the variant. */
+    learn(arity) {
+      invoker.arity = arity;
+      invoker.last = "_" + (arity - 1);
+      invoker.next = "_" + arity;
+      // Specialize common arities to avoid creating arrays
+      if (arity === 0) invoker.invoke = () => handler();
+      else if (arity === 1) invoker.invoke = (adt) => handler(adt._0);
+      else if (arity === 2) invoker.invoke = (adt) => handler(adt._0, adt._1);
+      else if (arity === 3) invoker.invoke = (adt) => handler(adt._0, adt._1, adt._2);
+      else if (arity === 4) invoker.invoke = (adt) => handler(adt._0, adt._1, adt._2, adt._3);
+    },
+  };
+  return invoker;
+};
+
+/**
+ * Match several ADTs with the provided cases keyed by tag combinations (see {@linkcode matchN}).
+ * @private
+ *
+ * @param {Array<*>} adts The ADTs to match.
+ * @param {Object<string, Function>} cases The cases to match.
+ * @returns {*}
+ */
+const _matchN = (adts, cases) => {
+  for (const key of Object.keys(cases)) {
+    if (key === "_") continue;
+    const tags = key.split(",");
+    if (tags.length !== adts.length) continue;
+    let matched = true;
+    for (let i = 0; i < tags.length; i++)
+      if (tags[i] !== "_" && (adts[i] == null || adts[i]._tag !== tags[i])) {
+        matched = false;
+        break;
+      }
+    if (matched) return cases[key](...adts);
+  }
+  if (cases._) return cases._(...adts);
+  throw new MatchError(
+    `No case found for \`${show(adts)}\`. Consider adding a catch-all case (\`_\`) if needed`,
+    { expected: Object.keys(cases).filter((key) => key !== "_"), value: adts },
   );
 };
 
+/**
+ * The `$` passed to the generators of `ADT.gen` and `ADT.genAsync` (see {@linkcode make}), which
+ * yields an ADT to the runner and returns the value sent back (i.e., the field of the monadic
+ * variant), so that `yield* $(adt)` unwraps the ADT.
+ * @private
+ *
+ * @param {*} adt The ADT to unwrap.
+ * @yields {*} The ADT.
+ * @returns {Generator<*, *, *>}
+ */
+function* bindADT(adt) {
+  return yield adt;
+}
+
+/**
+ * Run the generator of `ADT.gen` (see {@linkcode make}). Each yielded ADT of the monadic variant
+ * is unwrapped and its field is sent back to the generator, while any other ADT is returned as is
+ * (after closing the generator, which runs its `finally` blocks). The return value of the
+ * generator is wrapped in the monadic variant.
+ * @private
+ *
+ * @param {Iterator<*, *, *>} iterator The generator to run.
+ * @param {string} monadic The tag of the monadic variant.
+ * @param {(value: *) => *} wrap The function to wrap the return value with.
+ * @returns {*}
+ */
+const runGen = (iterator, monadic, wrap) => {
+  let state = iterator.next();
+  while (!state.done) {
+    const adt = state.value;
+    if (adt == null || adt._tag !== monadic) {
+      if (iterator.return) iterator.return(undefined);
+      return adt;
+    }
+    state = iterator.next(adt._0);
+  }
+  return wrap(state.value);
+};
+
+/**
+ * Run the (async) generator of `ADT.genAsync` (see {@linkcode runGen}).
+ * @private
+ *
+ * @param {*} iterator The generator to run (sync or async).
+ * @param {string} monadic The tag of the monadic variant.
+ * @param {(value: *) => *} wrap The function to wrap the return value with.
+ * @returns {Promise<*>}
+ */
+const runGenAsync = (iterator, monadic, wrap) => {
+  /** @type {(state: *) => *} */
+  const step = (state) => {
+    if (state.done) return wrap(state.value);
+    const adt = state.value;
+    if (adt == null || adt._tag !== monadic)
+      return Promise.resolve(iterator.return && iterator.return(undefined)).then(() => adt);
+    return Promise.resolve(iterator.next(adt._0)).then(step);
+  };
+  return Promise.resolve(iterator.next()).then(step);
+};
+
+/**
+ * Check that the keys of the cases passed to `match(W)` are known variants (or the catch-all
+ * case `_`), suggesting the closest variant for a misspelled key (development-only).
+ * @private
+ *
+ * @param {Array<string>} variants The variants of the ADT.
+ * @param {Object<string, Function>} cases The cases to check.
+ * @param {string} fnName The name of the match function, used in the error message.
+ * @returns {void}
+ */
+const checkCases = (variants, cases, fnName) => {
+  for (const key of Object.keys(cases)) {
+    if (key === "_" || variants.indexOf(key) !== -1) continue;
+    let suggestion = "";
+    let minDistance = Math.max(1, Math.floor(key.length / 3)) + 1;
+    for (const tag of variants) {
+      const distance = editDistance(key.toLowerCase(), tag.toLowerCase());
+      if (distance < minDistance) {
+        suggestion = tag;
+        minDistance = distance;
+      }
+    }
+    throw new TypeError(
+      `Unknown case \`${key}\` passed to \`${fnName}\`, expected ${variants.map((tag) => "`" + tag + "`").join("/")} or \`_\`` +
+        (suggestion ? `. Did you mean \`${suggestion}\`?` : ""),
+    );
+  }
+};
+
+/**
+ * Calculate the edit distance (optimal string alignment distance, i.e., Levenshtein distance with
+ * transpositions of adjacent characters) between two strings.
+ * @private
+ *
+ * @param {string} a The first string.
+ * @param {string} b The second string.
+ * @returns {number}
+ */
+const editDistance = (a, b) => {
+  /** @type {Array<Array<number>>} */
+  const d = [];
+  for (let i = 0; i <= a.length; i++) d.push([i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++)
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1])
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  return d[a.length][b.length];
+};
+
+/**
+ * Create the builder returned by `ADT.matchPattern`.
+ * @private
+ *
+ * @param {*} adt The ADT to match.
+ * @param {string} [adtName] The name of the ADT, if known.
+ * @returns {*}
+ */
+const createPatternMatcher = (adt, adtName) => {
+  let matched = false;
+  /** @type {*} */
+  let result;
+  // The tags of the ADT patterns tried, reported by `MatchError`
+  /** @type {Array<string>} */
+  const expected = [];
+
+  const matcher = {
+    case(pattern, when, handler) {
+      if (!handler) {
+        handler = when;
+        when = undefined;
+      }
+      if (matched) return matcher;
+      if (
+        pattern != null &&
+        typeof pattern._tag === "string" &&
+        expected.indexOf(pattern._tag) === -1
+      )
+        expected.push(pattern._tag);
+      /** @type {Array<*>} */
+      const bindings = [];
+      if (matchesPattern(pattern, adt, bindings) && (!when || when(...bindings))) {
+        matched = true;
+        result = handler(...bindings);
+      }
+      return matcher;
+    },
+    exhaustive() {
+      if (!matched)
+        throw new MatchError(
+          `No pattern matched \`${show(adt)}\`. Consider using \`.otherwise(...)\` if needed`,
+          { expected, value: adt, adtName },
+        );
+      return result;
+    },
+    otherwise(handler) {
+      return matched ? result : handler(adt);
+    },
+  };
+  return matcher;
+};
+
+/**
+ * Check if a value matches a pattern (see {@linkcode P}), collecting the values bound by
+ * `P.bind` in order.
+ * @private
+ *
+ * @param {*} pattern The pattern to match against.
+ * @param {*} value The value to match.
+ * @param {Array<*>} bindings The values bound so far.
+ * @returns {boolean}
+ */
+const matchesPattern = (pattern, value, bindings) => {
+  if (pattern === P._) return true;
+  if (pattern === P.bind) {
+    bindings.push(value);
+    return true;
+  }
+  if (
+    pattern != null &&
+    (typeof pattern === "object" || typeof pattern === "function") &&
+    typeof pattern._tag === "string"
+  ) {
+    if (value == null || value._tag !== pattern._tag) return false;
+    const patterns = unwrap(pattern);
+    for (let i = 0; i < patterns.length; i++)
+      if (!matchesPattern(patterns[i], value["_" + i], bindings)) return false;
+    return true;
+  }
+  return equals(pattern, value);
+};
+
 /*********************
  * Utility functions *
  *********************/
@@ -236,81 +2592,47 @@ function renameFunction(fn, name) {
 }
 
 /**
- * Stringify a value to provide better debugging experience, handling common cases that simple
- * `JSON.stringify` does not handle, e.g., `undefined`, `bigint`, `function`, `symbol`, `Date`.
- * Circular references are considered.
+ * The default implementation of the {@linkcode equalsSymbol} protocol for ADTs and ADT
+ * constructors, comparing the `_tag` and the fields of two ADTs, unless either ADT has an equality
+ * override (see the `equals` option of {@linkcode make}).
+ * @private
  *
- * This is a simple port of the [showify](https://github.com/Snowflyt/showify/blob/7759b8778d54f686c85eba4d88b2dac2afdbcdd6/packages/lite/src/index.ts)
- * package, which is a library for stringifying objects in a human-readable way.
- * @param {*} value The object to stringify.
- * @returns {string}
+ * @param {*} that The value to compare with.
+ * @param {(a: *, b: *) => boolean} eq The function to compare fields.
+ * @returns {boolean}
  */
-const stringify = (value) => {
-  const identifierRegex = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
-
-  const serialize = (value, /** @type {Array} */ ancestors) => {
-    // eslint-disable-next-line @typescript-eslint/no-base-to-string
-    if (typeof value === "bigint") return `${value}n`;
-    if (typeof value === "function")
-      return value.name ? `[Function: ${value.name}]` : "[Function (anonymous)]";
-    if (typeof value === "symbol") return value.toString();
-    if (value === undefined) return "undefined";
-    if (value === null) return "null";
-
-    if (typeof value === "object") {
-      if (ancestors.indexOf(value) !== -1) return "[Circular]";
-      const nextAncestors = ancestors.concat([value]);
-
-      // Handle special object types
-      if (value instanceof Date) return value.toISOString();
-
-      if (value instanceof RegExp) return value.toString();
-
-      if (value instanceof Map) {
-        const entries = Array.from(value.entries())
-          .map(([k, v]) => `${serialize(k, nextAncestors)} => ${serialize(v, nextAncestors)}`)
-          .join(", ");
-        return `Map(${value.size}) ` + (entries ? `{ ${entries} }` : "{}");
-      }
-
-      if (value instanceof Set) {
-        const values = Array.from(value)
-          .map((v) => serialize(v, nextAncestors))
-          .join(", ");
-        return `Set(${value.size}) ` + (values ? `{ ${values} }` : "{}");
-      }
-
-      // Handle arrays and objects
-      const isClassInstance =
-        value.constructor && value.constructor.name && value.constructor.name !== "Object";
-      const className = isClassInstance ? value.constructor.name : "";
-
-      if (Array.isArray(value)) {
-        const arrayItems = value.map((item) => serialize(item, nextAncestors)).join(", ");
-        let result = `[${arrayItems}]`;
-        if (className !== "Array") result = `${className}(${value.length}) ${result}`;
-        return result;
-      }
-
-      const objectEntries = Reflect.ownKeys(value)
-        .map((key) => {
-          const keyDisplay =
-            typeof key === "symbol" ? key.toString()
-            : identifierRegex.test(key) ? key
-            : JSON.stringify(key);
-          const val = value[key];
-          return `${keyDisplay}: ${serialize(val, nextAncestors)}`;
-        })
-        .join(", ");
-
-      return (className ? `${className} ` : "") + (objectEntries ? `{ ${objectEntries} }` : "{}");
-    }
-
-    return JSON.stringify(value);
-  };
+function equalsADT(that, eq) {
+  if (that == null || (typeof that !== "object" && typeof that !== "function")) return false;
+  if (this._tag !== that._tag) return false;
+  // Objects with keys other than `_tag` and fields are not ADT-like (see `hash`)
+  if (typeof that[equalsSymbol] !== "function" && !isADTLike(that)) return false;
+  const equality = equalities.get(this);
+  if (equality) return equality(this, that, eq);
+  const thatEquality = equalities.get(that);
+  if (thatEquality) return thatEquality(that, this, eq);
+  const fields = unwrap(this);
+  const thatFields = unwrap(that);
+  if (fields.length !== thatFields.length) return false;
+  for (let i = 0; i < fields.length; i++) if (!eq(fields[i], thatFields[i])) return false;
+  return true;
+}
 
-  return serialize(value, []);
-};
+/**
+ * The default implementation of the {@linkcode hashSymbol} protocol for ADTs and ADT constructors,
+ * combining the hash codes of the `_tag` and the fields of an ADT. ADTs of variants with an
+ * equality override (see the `equals` option of {@linkcode make}) are hashed by their `_tag` only,
+ * since it is impossible to infer a consistent hash code from a custom equality.
+ * @private
+ *
+ * @param {(value: *) => number} h The function to hash fields.
+ * @returns {number}
+ */
+function hashADT(h) {
+  let result = h(this._tag);
+  if (tagsWithEqualities.has(this._tag)) return result;
+  for (const field of unwrap(this)) result = combineHash(result, h(field));
+  return result;
+}
 
 /**
  * Custom inspect function for ADT to interact with the
@@ -318,8 +2640,16 @@ const stringify = (value) => {
  * @returns
  */
 function inspect({ ancestors, c, level, trailingComma }, expand) {
+  const display = displays.get(this);
+  if (display) return { type: "text", value: display(...unwrap(this)) };
+
   const fields = unwrap(this);
   const fieldKeys = fields.map((_, i) => "_" + i);
+  const labels = fieldLabels.get(this) || [];
+  const expandField = (field, i) =>
+    labels[i] ?
+      { type: "sequence", values: [{ type: "text", value: labels[i] + ": " }, expand(field)] }
+    : expand(field);
 
   let body = expand(this, {
     level,
@@ -399,6 +2729,11 @@ function inspect({ ancestors, c, level, trailingComma }, expand) {
             "\n",
           ) !== -1
         ));
+    if (labels[0])
+      firstFieldNode = {
+        type: "sequence",
+        values: [{ type: "text", value: labels[0] + ": " }, firstFieldNode],
+      };
   }
 
   return (
@@ -411,9 +2746,9 @@ function inspect({ ancestors, c, level, trailingComma }, expand) {
             { type: "text", value: c.cyan(this._tag) + "(" },
             ...fields
               .map((field, i, arr) =>
-                i !== arr.length - 1 ? [expand(field), { type: "text", value: ", " }]
-                : trailingComma === "always" ? [expand(field), { type: "text", value: "," }]
-                : [expand(field)],
+                i !== arr.length - 1 ? [expandField(field, i), { type: "text", value: ", " }]
+                : trailingComma === "always" ? [expandField(field, i), { type: "text", value: "," }]
+                : [expandField(field, i)],
               )
               .reduce((acc, val) => acc.concat(val), []),
             ...(body.type === "text" ?
@@ -436,8 +2771,11 @@ function inspect({ ancestors, c, level, trailingComma }, expand) {
                 type: "between",
                 values: fields.map((field, i, arr) =>
                   trailingComma !== "none" || i !== arr.length - 1 ?
-                    { type: "sequence", values: [expand(field), { type: "text", value: "," }] }
-                  : expand(field),
+                    {
+                      type: "sequence",
+                      values: [expandField(field, i), { type: "text", value: "," }],
+                    }
+                  : expandField(field, i),
                 ),
                 open: { type: "text", value: c.cyan(this._tag) + "(" },
                 close: { type: "text", value: ")" },
@@ -458,8 +2796,11 @@ function inspect({ ancestors, c, level, trailingComma }, expand) {
                     type: "between",
                     values: fields.map((field, i, arr) =>
                       trailingComma !== "none" || i !== arr.length - 1 ?
-                        { type: "sequence", values: [expand(field), { type: "text", value: "," }] }
-                      : expand(field),
+                        {
+                          type: "sequence",
+                          values: [expandField(field, i), { type: "text", value: "," }],
+                        }
+                      : expandField(field, i),
                     ),
                     open: { type: "text", value: c.cyan(this._tag) + "(" },
                     close: { type: "text", value: ") " },
@@ -473,6 +2814,23 @@ function inspect({ ancestors, c, level, trailingComma }, expand) {
   );
 }
 
+/**
+ * Custom inspect function for ADT to interact with `util.inspect` (and `console.log`) in Node.js,
+ * displaying ADTs with {@linkcode show} and respecting the `depth`, `colors` and `breakLength`
+ * options of `util.inspect`.
+ * @param {number | null} depth The remaining depth to inspect (`null` for unlimited).
+ * @param {{ colors?: boolean, breakLength?: number }} [options] The options of `util.inspect`.
+ * @returns {string}
+ */
+function inspectNode(depth, options) {
+  return show(this, {
+    colors: !!(options && options.colors),
+    depth: depth == null ? Infinity : depth,
+    indent: 2,
+    maxWidth: options && options.breakLength !== undefined ? options.breakLength : 80,
+  });
+}
+
 export const PipeableProto = {
   pipe(...fs) {
     // Optimization inspired by Effect
@@ -523,16 +2881,10 @@ export const PipeableFunctionProto = /* @__PURE__ */ (() => {
 
 export const ADTProto = /* @__PURE__ */ (() => {
   const ADTProto = Object.create(PipeableProto);
+  ADTProto[equalsSymbol] = equalsADT;
+  ADTProto[hashSymbol] = hashADT;
   ADTProto[Symbol.for("showify.inspect.custom")] = inspect;
-  ADTProto[Symbol.for("nodejs.util.inspect.custom")] = function inspect() {
-    return unwrap(this).reduce(
-      (acc, cur, i) => {
-        acc["_" + i] = cur;
-        return acc;
-      },
-      { _tag: this._tag },
-    );
-  };
+  ADTProto[Symbol.for("nodejs.util.inspect.custom")] = inspectNode;
   return ADTProto;
 })();
 
@@ -546,12 +2898,12 @@ export const ADT = /* @__PURE__ */ (() => {
 
 export const ADTConstructorProto = /* @__PURE__ */ (() => {
   const ADTConstructorProto = Object.create(PipeableFunctionProto);
+  ADTConstructorProto[equalsSymbol] = equalsADT;
+  ADTConstructorProto[hashSymbol] = hashADT;
   ADTConstructorProto.toJSON = function toJSON() {
     return { _tag: this._tag };
   };
-  ADTConstructorProto[Symbol.for("nodejs.util.inspect.custom")] = function inspect() {
-    return { _tag: this._tag };
-  };
+  ADTConstructorProto[Symbol.for("nodejs.util.inspect.custom")] = inspectNode;
   ADTConstructorProto[Symbol.for("showify.inspect.custom")] = inspect;
   return ADTConstructorProto;
 })();
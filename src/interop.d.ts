@@ -0,0 +1,203 @@
+/**
+ * Generate converters between an `Option` ADT (with the variants `Some(value)` and `None()`) and
+ * the `Option`s of [fp-ts](https://gcanti.github.io/fp-ts/) and [Effect](https://effect.website).
+ *
+ * The converters only rely on the shapes of these `Option`s (`{ _tag: "Some", value }` and
+ * `{ _tag: "None" }`), so neither fp-ts nor Effect is required at runtime. `toEffect` returns plain
+ * objects of that shape, which work with the functions of Effect’s `Option` module (e.g.,
+ * `Option.map`) at runtime, but not with `Option.isOption` or `Equal.equals`. They are not typed as
+ * Effect `Option`s either, so they have to be cast (e.g., `as Option.Option<number>`) to be passed
+ * to these functions.
+ * @param Option The result of `make` for the `Option` ADT.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * import { Option as EffectOption } from "effect";
+ *
+ * type Option<T> = Data<{ Some: [value: T]; None: [] }>;
+ * interface OptionHKT extends HKT {
+ *   return: Option<Arg0<this>>;
+ * }
+ * const Option = make<OptionHKT>();
+ *
+ * const OptionInterop = optionInterop<OptionHKT>(Option);
+ * OptionInterop.fromEffect(EffectOption.some(42)); // => Some(42), typed as `Option<number>`
+ * OptionInterop.toFpTs(Option.Some("foo")); // => { _tag: "Some", value: "foo" }
+ * ```
+ */
+export function optionInterop<F extends TypeLambda<[never], OptionShape>>(
+  Option: OptionFunctions,
+): OptionInterop<F>;
+/**
+ * Converters between an `Option` ADT and the `Option`s of fp-ts and Effect (see
+ * {@linkcode optionInterop}).
+ */
+export interface OptionInterop<F extends TypeLambda<[never], OptionShape>> {
+  /**
+   * Convert an fp-ts `Option` to the `Option` ADT.
+   */
+  readonly fromFpTs: <A>(option: FpTsOption<A>) => ApplyHKT<F, [A]>;
+  /**
+   * Convert the `Option` ADT to an fp-ts `Option`.
+   */
+  readonly toFpTs: <O extends ApplyHKT<F, [unknown]>>(option: O) => FpTsOption<FieldOf<O, "Some">>;
+  /**
+   * Convert an Effect `Option` to the `Option` ADT.
+   */
+  readonly fromEffect: <A>(option: EffectOption<A>) => ApplyHKT<F, [A]>;
+  /**
+   * Convert the `Option` ADT to an Effect `Option`.
+   */
+  readonly toEffect: <O extends ApplyHKT<F, [unknown]>>(
+    option: O,
+  ) => EffectOption<FieldOf<O, "Some">>;
+}
+
+/**
+ * Generate converters between a `Result` ADT (with the variants `Ok(value)` and `Err(error)`) and
+ * the `Either`s of [fp-ts](https://gcanti.github.io/fp-ts/) and [Effect](https://effect.website).
+ * `Ok` is converted to `Right`, and `Err` to `Left`.
+ *
+ * The HKT of the `Result` ADT should take the type of the value as its first type parameter and
+ * the type of the error as its second one, i.e., `Result<T, E>`. Like {@linkcode optionInterop},
+ * the converters only rely on the shapes of these `Either`s (`{ _tag: "Right", right }` and
+ * `{ _tag: "Left", left }`), so neither fp-ts nor Effect is required at runtime, and the results of
+ * `toEffect` have to be cast to be passed to functions of Effect.
+ * @param Result The result of `make` for the `Result` ADT.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * import * as E from "fp-ts/Either";
+ *
+ * type Result<T, E> = Data<{ Ok: [value: T]; Err: [error: E] }>;
+ * interface ResultHKT extends HKT2 {
+ *   return: Result<Arg0<this>, Arg1<this>>;
+ * }
+ * const Result = make<ResultHKT>();
+ *
+ * const ResultInterop = resultInterop<ResultHKT>(Result);
+ * ResultInterop.fromFpTs(E.left("error")); // => Err("error"), typed as `Result<never, string>`
+ * ResultInterop.toEffect(Result.Ok(42)); // => { _tag: "Right", right: 42 }
+ * ```
+ */
+export function resultInterop<F extends TypeLambda<[never, never], ResultShape>>(
+  Result: ResultFunctions,
+): ResultInterop<F>;
+/**
+ * Converters between a `Result` ADT and the `Either`s of fp-ts and Effect (see
+ * {@linkcode resultInterop}).
+ */
+export interface ResultInterop<F extends TypeLambda<[never, never], ResultShape>> {
+  /**
+   * Convert an fp-ts `Either` to the `Result` ADT.
+   */
+  readonly fromFpTs: <E, A>(either: FpTsEither<E, A>) => ApplyHKT<F, [A, E]>;
+  /**
+   * Convert the `Result` ADT to an fp-ts `Either`.
+   */
+  readonly toFpTs: <R extends ApplyHKT<F, [unknown, unknown]>>(
+    result: R,
+  ) => FpTsEither<FieldOf<R, "Err">, FieldOf<R, "Ok">>;
+  /**
+   * Convert an Effect `Either` to the `Result` ADT.
+   */
+  readonly fromEffect: <R, L>(either: EffectEither<R, L>) => ApplyHKT<F, [R, L]>;
+  /**
+   * Convert the `Result` ADT to an Effect `Either`.
+   */
+  readonly toEffect: <R extends ApplyHKT<F, [unknown, unknown]>>(
+    result: R,
+  ) => EffectEither<FieldOf<R, "Ok">, FieldOf<R, "Err">>;
+}
+
+/**
+ * The shape of an fp-ts `Option`.
+ */
+export type FpTsOption<A> =
+  | { readonly _tag: "None" }
+  | { readonly _tag: "Some"; readonly value: A };
+/**
+ * The shape of an fp-ts `Either`. Note that the type of the error comes first.
+ */
+export type FpTsEither<E, A> =
+  | { readonly _tag: "Left"; readonly left: E }
+  | { readonly _tag: "Right"; readonly right: A };
+
+/**
+ * The shape of an Effect `Option`.
+ */
+export type EffectOption<A> =
+  | { readonly _tag: "None" }
+  | { readonly _tag: "Some"; readonly value: A };
+/**
+ * The shape of an Effect `Either`. Note that the type of the value comes first.
+ */
+export type EffectEither<R, L> =
+  | { readonly _tag: "Left"; readonly left: L }
+  | { readonly _tag: "Right"; readonly right: R };
+
+/**
+ * The shape of an `Option` ADT.
+ * @private
+ */
+type OptionShape = { readonly _tag: "Some"; readonly _0: unknown } | { readonly _tag: "None" };
+/**
+ * The shape of a `Result` ADT.
+ * @private
+ */
+type ResultShape =
+  | { readonly _tag: "Ok"; readonly _0: unknown }
+  | { readonly _tag: "Err"; readonly _0: unknown };
+
+/**
+ * The functions generated by `make` for an `Option` ADT used by the converters.
+ * @private
+ */
+interface OptionFunctions {
+  readonly Some: (value: never) => unknown;
+  readonly None: () => unknown;
+  readonly isSome: (adt: never) => boolean;
+  readonly isNone: (adt: never) => boolean;
+  readonly unwrap: (adt: never) => readonly unknown[];
+}
+/**
+ * The functions generated by `make` for a `Result` ADT used by the converters.
+ * @private
+ */
+interface ResultFunctions {
+  readonly Ok: (value: never) => unknown;
+  readonly Err: (error: never) => unknown;
+  readonly isOk: (adt: never) => boolean;
+  readonly isErr: (adt: never) => boolean;
+  readonly unwrap: (adt: never) => readonly unknown[];
+}
+
+/**
+ * Get the type of the (only) field of the variant with the given tag of an ADT.
+ * @private
+ */
+type FieldOf<T, Tag extends string> =
+  T extends { readonly _tag: Tag; readonly _0: infer Field } ? Field : never;
+
+/**
+ * An **HKT** compatible with the [hkt-core](https://github.com/Snowflyt/hkt-core) V1 standard.
+ * @private
+ */
+interface TypeLambda<in Params extends unknown[] = any, out RetType = any> {
+  readonly "~hkt": { readonly version: 1 };
+  readonly signature: (...args: Params) => RetType;
+}
+
+/**
+ * Apply an HKT with arguments.
+ * @private
+ */
+type ApplyHKT<F, Args> =
+  F & { readonly Args: (_: Args) => void } extends infer F extends { readonly return: unknown } ?
+    F["return"]
+  : never;
+
+/* Ensure TypeScript treats this file as a module to prevent internal from exportation */
+export {};
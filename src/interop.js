@@ -0,0 +1,64 @@
+import { VariantMismatchError, show } from "./index.js";
+
+/**
+ * Generate converters between an `Option` ADT (with the variants `Some(value)` and `None()`) and
+ * the `Option`s of fp-ts and Effect, which are objects of the shape `{ _tag: "Some", value }` or
+ * `{ _tag: "None" }`.
+ * @param {*} Option The result of `make` for the `Option` ADT.
+ * @returns {*}
+ */
+export function optionInterop(Option) {
+  /** @type {(option: *) => *} */
+  const fromOption = (option) => {
+    if (option != null && option._tag === "Some") return Option.Some(option.value);
+    if (option != null && option._tag === "None") return Option.None();
+    throw createMismatchError(["Some", "None"], option);
+  };
+
+  /** @type {(option: *) => *} */
+  const toOption = (option) => {
+    if (Option.isSome(option)) return { _tag: "Some", value: Option.unwrap(option)[0] };
+    if (Option.isNone(option)) return { _tag: "None" };
+    throw createMismatchError(["Some", "None"], option);
+  };
+
+  return { fromFpTs: fromOption, toFpTs: toOption, fromEffect: fromOption, toEffect: toOption };
+}
+
+/**
+ * Generate converters between a `Result` ADT (with the variants `Ok(value)` and `Err(error)`) and
+ * the `Either`s of fp-ts and Effect, which are objects of the shape `{ _tag: "Right", right }` or
+ * `{ _tag: "Left", left }`.
+ * @param {*} Result The result of `make` for the `Result` ADT.
+ * @returns {*}
+ */
+export function resultInterop(Result) {
+  /** @type {(either: *) => *} */
+  const fromEither = (either) => {
+    if (either != null && either._tag === "Right") return Result.Ok(either.right);
+    if (either != null && either._tag === "Left") return Result.Err(either.left);
+    throw createMismatchError(["Right", "Left"], either);
+  };
+
+  /** @type {(result: *) => *} */
+  const toEither = (result) => {
+    if (Result.isOk(result)) return { _tag: "Right", right: Result.unwrap(result)[0] };
+    if (Result.isErr(result)) return { _tag: "Left", left: Result.unwrap(result)[0] };
+    throw createMismatchError(["Ok", "Err"], result);
+  };
+
+  return { fromFpTs: fromEither, toFpTs: toEither, fromEffect: fromEither, toEffect: toEither };
+}
+
+/**
+ * Create the error thrown when a value is not one of the expected variants.
+ * @param {ReadonlyArray<string>} expected The expected tags.
+ * @param {*} value The actual value.
+ * @returns {VariantMismatchError}
+ */
+function createMismatchError(expected, value) {
+  return new VariantMismatchError(
+    `Expected ${expected.map((tag) => "`" + tag + "(...)`").join("/")}, but got \`${show(value)}\``,
+    { expected, value },
+  );
+}
@@ -0,0 +1,206 @@
+import type { ADTFunctions, Data } from "../index.js";
+
+/**
+ * A value of one of two types, either `Left(left)` or `Right(right)`. By convention, `Right` holds
+ * the value of a successful computation, and `Left` holds the error.
+ */
+export type Either<L, R> = Data<{ Left: [left: L]; Right: [right: R] }>;
+/**
+ * The HKT of {@linkcode Either}.
+ */
+export interface EitherHKT {
+  readonly "~hkt": { readonly version: 1 };
+  readonly signature: (type1: unknown, type2: unknown) => Either<unknown, unknown>;
+  readonly return: Either<Args<this>[0], Args<this>[1]>;
+}
+
+declare const ADT: ADTFunctions<EitherHKT, never, true, "Right">;
+
+export const Left: typeof ADT.Left;
+export const Right: typeof ADT.Right;
+export const isLeft: typeof ADT.isLeft;
+export const isRight: typeof ADT.isRight;
+export const ifLeft: typeof ADT.ifLeft;
+export const ifRight: typeof ADT.ifRight;
+export const ifLeftAsync: typeof ADT.ifLeftAsync;
+export const ifRightAsync: typeof ADT.ifRightAsync;
+export const unwrapLeft: typeof ADT.unwrapLeft;
+export const unwrapRight: typeof ADT.unwrapRight;
+export const unwrap: typeof ADT.unwrap;
+export const match: typeof ADT.match;
+export const matchW: typeof ADT.matchW;
+export const matchAsync: typeof ADT.matchAsync;
+export const matchWAsync: typeof ADT.matchWAsync;
+export const matchPattern: typeof ADT.matchPattern;
+export const equals: typeof ADT.equals;
+export const gen: typeof ADT.gen;
+export const genAsync: typeof ADT.genAsync;
+
+/**
+ * Create an {@linkcode Either} from a nullable value, i.e., `Left` with the result of
+ * `onNullable` if the value is `null` or `undefined`, and `Right(value)` otherwise.
+ * @param value The nullable value.
+ * @param onNullable The function to create the value of the `Left` with.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * Either.fromNullable(42, () => "missing"); // => Right(42)
+ * Either.fromNullable(null, () => "missing"); // => Left("missing")
+ * ```
+ */
+export function fromNullable<R, L>(value: R, onNullable: () => L): Either<L, NonNullable<R>>;
+/**
+ * Create an {@linkcode Either} from a nullable value, i.e., `Left` with the result of
+ * `onNullable` if the value is `null` or `undefined`, and `Right(value)` otherwise.
+ * @param onNullable The function to create the value of the `Left` with.
+ * @returns
+ */
+export function fromNullable<L>(onNullable: () => L): <R>(value: R) => Either<L, NonNullable<R>>;
+
+/**
+ * Call a function and wrap its result in `Right`, or wrap the thrown error in `Left` (mapped with
+ * `onThrow` if provided).
+ * @param f The function to call.
+ * @returns
+ */
+export function tryCatch<R>(f: () => R): Either<unknown, R>;
+/**
+ * Call a function and wrap its result in `Right`, or wrap the thrown error mapped with `onThrow`
+ * in `Left`.
+ * @param f The function to call.
+ * @param onThrow The function to map the thrown error with.
+ * @returns
+ */
+export function tryCatch<L, R>(f: () => R, onThrow: (error: unknown) => L): Either<L, R>;
+
+/**
+ * Map the value of a `Right` with a function, leaving `Left` as is.
+ * @param either The {@linkcode Either} to map.
+ * @param f The function to map the value with.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * Either.map(Right(21), (n) => n * 2); // => Right(42)
+ * Right(21).pipe(Either.map((n) => n * 2)); // => Right(42)
+ * ```
+ */
+export function map<L, R, R2>(either: Either<L, R>, f: (right: R) => R2): Either<L, R2>;
+/**
+ * Map the value of a `Right` with a function, leaving `Left` as is.
+ * @param f The function to map the value with.
+ * @returns
+ */
+export function map<R, R2>(f: (right: R) => R2): <L>(either: Either<L, R>) => Either<L, R2>;
+
+/**
+ * Map the value of a `Right` with a function returning an {@linkcode Either}, leaving `Left` as
+ * is.
+ * @param either The {@linkcode Either} to map.
+ * @param f The function to map the value with.
+ * @returns
+ */
+export function flatMap<L, R, L2, R2>(
+  either: Either<L, R>,
+  f: (right: R) => Either<L2, R2>,
+): Either<L | L2, R2>;
+/**
+ * Map the value of a `Right` with a function returning an {@linkcode Either}, leaving `Left` as
+ * is.
+ * @param f The function to map the value with.
+ * @returns
+ */
+export function flatMap<R, L2, R2>(
+  f: (right: R) => Either<L2, R2>,
+): <L>(either: Either<L, R>) => Either<L | L2, R2>;
+
+/**
+ * Map the value of a `Left` with a function, leaving `Right` as is.
+ * @param either The {@linkcode Either} to map.
+ * @param f The function to map the value with.
+ * @returns
+ */
+export function mapLeft<L, R, L2>(either: Either<L, R>, f: (left: L) => L2): Either<L2, R>;
+/**
+ * Map the value of a `Left` with a function, leaving `Right` as is.
+ * @param f The function to map the value with.
+ * @returns
+ */
+export function mapLeft<L, L2>(f: (left: L) => L2): <R>(either: Either<L, R>) => Either<L2, R>;
+
+/**
+ * Get the value of a `Right`, or the result of `onLeft` with the value of the `Left` if the
+ * {@linkcode Either} is `Left`.
+ * @param either The {@linkcode Either} to get the value from.
+ * @param onLeft The function to call if the {@linkcode Either} is `Left`.
+ * @returns
+ */
+export function getOrElse<L, R, U>(either: Either<L, R>, onLeft: (left: L) => U): R | U;
+/**
+ * Get the value of a `Right`, or the result of `onLeft` with the value of the `Left` if the
+ * {@linkcode Either} is `Left`.
+ * @param onLeft The function to call if the {@linkcode Either} is `Left`.
+ * @returns
+ */
+export function getOrElse<L, U>(onLeft: (left: L) => U): <R>(either: Either<L, R>) => R | U;
+
+/**
+ * Map each value of an iterable with a function returning an {@linkcode Either}, and collect the
+ * values of the results in `Right` if they are all `Right`s. Otherwise, the first `Left` is
+ * returned, and the rest of the values are not mapped.
+ * @param values The values to map.
+ * @param f The function to map each value with.
+ * @returns
+ */
+export function traverse<T, L, R>(
+  values: Iterable<T>,
+  f: (value: T, index: number) => Either<L, R>,
+): Either<L, R[]>;
+/**
+ * Map each value of an iterable with a function returning an {@linkcode Either}, and collect the
+ * values of the results in `Right` if they are all `Right`s. Otherwise, the first `Left` is
+ * returned, and the rest of the values are not mapped.
+ * @param f The function to map each value with.
+ * @returns
+ */
+export function traverse<T, L, R>(
+  f: (value: T, index: number) => Either<L, R>,
+): (values: Iterable<T>) => Either<L, R[]>;
+
+/**
+ * Collect the values of an array (or tuple) of {@linkcode Either}s in `Right` if they are all
+ * `Right`s, or return the first `Left` otherwise.
+ * @param eithers The {@linkcode Either}s to collect.
+ * @returns
+ */
+export function sequence<const Eithers extends readonly { readonly _tag: "Left" | "Right" }[]>(
+  eithers: Eithers,
+): Either<LeftOf<Eithers[number]>, { -readonly [K in keyof Eithers]: RightOf<Eithers[K]> }>;
+/**
+ * Collect the values of an iterable of {@linkcode Either}s in `Right` if they are all `Right`s, or
+ * return the first `Left` otherwise.
+ * @param eithers The {@linkcode Either}s to collect.
+ * @returns
+ */
+export function sequence<L, R>(eithers: Iterable<Either<L, R>>): Either<L, R[]>;
+
+/**
+ * Get the type of the value of a `Left` of an {@linkcode Either}.
+ * @private
+ */
+type LeftOf<E> = E extends { readonly _tag: "Left"; readonly _0: infer L } ? L : never;
+/**
+ * Get the type of the value of a `Right` of an {@linkcode Either}.
+ * @private
+ */
+type RightOf<E> = E extends { readonly _tag: "Right"; readonly _0: infer R } ? R : never;
+
+/**
+ * Get the arguments an HKT is applied with.
+ * @private
+ */
+type Args<F> = F extends { readonly Args: (_: infer A extends unknown[]) => void } ? A : never;
+
+/* Ensure TypeScript treats this file as a module to prevent internal from exportation */
+export {};
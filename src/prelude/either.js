@@ -0,0 +1,181 @@
+import { make } from "../index.js";
+
+const ADT = /** @type {*} */ (
+  /* @__PURE__ */ make(["Left", "Right"], /** @type {*} */ ({ name: "Either", monadic: "Right" }))
+);
+
+export const {
+  Left,
+  Right,
+  equals,
+  gen,
+  genAsync,
+  ifLeft,
+  ifLeftAsync,
+  ifRight,
+  ifRightAsync,
+  isLeft,
+  isRight,
+  match,
+  matchAsync,
+  matchPattern,
+  matchW,
+  matchWAsync,
+  unwrap,
+  unwrapLeft,
+  unwrapRight,
+} = ADT;
+
+/**
+ * Create an `Either` from a nullable value, i.e., `Left` with the result of `onNullable` if the
+ * value is `null` or `undefined`, and `Right(value)` otherwise.
+ *
+ * If only `onNullable` is provided, a function accepting the value is returned.
+ * @param {*} value The nullable value.
+ * @param {() => *} [onNullable] The function to create the value of the `Left` with.
+ * @returns {*}
+ */
+export function fromNullable(value, onNullable) {
+  if (!onNullable) {
+    const onNullable = /** @type {*} */ (value);
+    return function fromNullable(value) {
+      return value == null ? Left(onNullable()) : Right(value);
+    };
+  }
+  return value == null ? Left(onNullable()) : Right(value);
+}
+
+/**
+ * Call a function and wrap its result in `Right`, or wrap the thrown error in `Left` (mapped with
+ * `onThrow` if provided).
+ * @param {() => *} f The function to call.
+ * @param {(error: *) => *} [onThrow] The function to map the thrown error with.
+ * @returns {*}
+ */
+export function tryCatch(f, onThrow) {
+  try {
+    return Right(f());
+  } catch (e) {
+    return Left(onThrow ? onThrow(e) : e);
+  }
+}
+
+/**
+ * Map the value of a `Right` with a function, leaving `Left` as is.
+ *
+ * If only `f` is provided, a function accepting the `Either` is returned.
+ * @param {*} either The `Either` to map.
+ * @param {(value: *) => *} [f] The function to map the value with.
+ * @returns {*}
+ */
+export function map(either, f) {
+  if (!f) {
+    const f = /** @type {*} */ (either);
+    return function map(either) {
+      return either._tag === "Right" ? Right(f(either._0)) : either;
+    };
+  }
+  return either._tag === "Right" ? Right(f(either._0)) : either;
+}
+
+/**
+ * Map the value of a `Right` with a function returning an `Either`, leaving `Left` as is.
+ *
+ * If only `f` is provided, a function accepting the `Either` is returned.
+ * @param {*} either The `Either` to map.
+ * @param {(value: *) => *} [f] The function to map the value with.
+ * @returns {*}
+ */
+export function flatMap(either, f) {
+  if (!f) {
+    const f = /** @type {*} */ (either);
+    return function flatMap(either) {
+      return either._tag === "Right" ? f(either._0) : either;
+    };
+  }
+  return either._tag === "Right" ? f(either._0) : either;
+}
+
+/**
+ * Map the value of a `Left` with a function, leaving `Right` as is.
+ *
+ * If only `f` is provided, a function accepting the `Either` is returned.
+ * @param {*} either The `Either` to map.
+ * @param {(left: *) => *} [f] The function to map the value with.
+ * @returns {*}
+ */
+export function mapLeft(either, f) {
+  if (!f) {
+    const f = /** @type {*} */ (either);
+    return function mapLeft(either) {
+      return either._tag === "Left" ? Left(f(either._0)) : either;
+    };
+  }
+  return either._tag === "Left" ? Left(f(either._0)) : either;
+}
+
+/**
+ * Get the value of a `Right`, or the result of `onLeft` with the value of the `Left` if the
+ * `Either` is `Left`.
+ *
+ * If only `onLeft` is provided, a function accepting the `Either` is returned.
+ * @param {*} either The `Either` to get the value from.
+ * @param {(left: *) => *} [onLeft] The function to call if the `Either` is `Left`.
+ * @returns {*}
+ */
+export function getOrElse(either, onLeft) {
+  if (!onLeft) {
+    const onLeft = /** @type {*} */ (either);
+    return function getOrElse(either) {
+      return either._tag === "Right" ? either._0 : onLeft(either._0);
+    };
+  }
+  return either._tag === "Right" ? either._0 : onLeft(either._0);
+}
+
+/**
+ * Map each value of an iterable with a function returning an `Either`, and collect the values of
+ * the results in `Right` if they are all `Right`s. Otherwise, the first `Left` is returned, and the
+ * rest of the values are not mapped.
+ *
+ * If only `f` is provided, a function accepting the iterable is returned.
+ * @param {Iterable<*>} values The values to map.
+ * @param {(value: *, index: number) => *} [f] The function to map each value with.
+ * @returns {*}
+ */
+export function traverse(values, f) {
+  if (!f) {
+    const f = /** @type {*} */ (values);
+    return function traverse(values) {
+      return _traverse(values, f);
+    };
+  }
+  return _traverse(values, f);
+}
+
+/**
+ * Collect the values of an iterable of `Either`s in `Right` if they are all `Right`s, or return the
+ * first `Left` otherwise.
+ * @param {Iterable<*>} eithers The `Either`s to collect.
+ * @returns {*}
+ */
+export function sequence(eithers) {
+  return _traverse(eithers, (either) => either);
+}
+
+/**
+ * The implementation of {@linkcode traverse}.
+ * @param {Iterable<*>} values The values to map.
+ * @param {(value: *, index: number) => *} f The function to map each value with.
+ * @returns {*}
+ */
+function _traverse(values, f) {
+  const result = [];
+  let i = 0;
+  for (const value of values) {
+    const either = f(value, i++);
+    if (either._tag !== "Right") return either;
+    result.push(either._0);
+  }
+  return Right(result);
+}
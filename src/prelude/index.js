@@ -0,0 +1,7 @@
+import * as Either from "./either.js";
+import * as List from "./list.js";
+import * as Option from "./option.js";
+import * as Result from "./result.js";
+import * as These from "./these.js";
+
+export { Either, List, Option, Result, These };
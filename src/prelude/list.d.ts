@@ -0,0 +1,184 @@
+import type { ADTFunctions, Data } from "../index.js";
+
+/**
+ * An immutable singly linked list, either `Nil` (the empty list) or `Cons(head, tail)`.
+ */
+export type List<T> = Data<{
+  Nil: [];
+  Cons: { __labels: [head: void, tail: void]; 0: T; 1: List<T> };
+}>;
+/**
+ * The HKT of {@linkcode List}.
+ */
+export interface ListHKT {
+  readonly "~hkt": { readonly version: 1 };
+  readonly signature: (type: unknown) => List<unknown>;
+  readonly return: List<Args<this>[0]>;
+}
+
+declare const ADT: ADTFunctions<ListHKT, never, true>;
+
+export const Nil: typeof ADT.Nil;
+export const Cons: typeof ADT.Cons;
+export const isNil: typeof ADT.isNil;
+export const isCons: typeof ADT.isCons;
+export const ifNil: typeof ADT.ifNil;
+export const ifCons: typeof ADT.ifCons;
+export const ifNilAsync: typeof ADT.ifNilAsync;
+export const ifConsAsync: typeof ADT.ifConsAsync;
+export const unwrapNil: typeof ADT.unwrapNil;
+export const unwrapCons: typeof ADT.unwrapCons;
+export const unwrap: typeof ADT.unwrap;
+export const match: typeof ADT.match;
+export const matchW: typeof ADT.matchW;
+export const matchAsync: typeof ADT.matchAsync;
+export const matchWAsync: typeof ADT.matchWAsync;
+export const matchPattern: typeof ADT.matchPattern;
+export const equals: typeof ADT.equals;
+
+/**
+ * Create a {@linkcode List} from the values of an iterable.
+ * @param values The values of the {@linkcode List}.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * List.fromIterable([1, 2, 3]); // => Cons(1, Cons(2, Cons(3, Nil)))
+ * ```
+ */
+export function fromIterable<T>(values: Iterable<T>): List<T>;
+
+/**
+ * Convert a {@linkcode List} to an array.
+ * @param list The {@linkcode List} to convert.
+ * @returns
+ */
+export function toArray<T>(list: List<T>): T[];
+
+/**
+ * Create a {@linkcode List} from a nullable value, i.e., `Nil` if the value is `null` or
+ * `undefined`, and a {@linkcode List} of the value otherwise.
+ * @param value The nullable value.
+ * @returns
+ */
+export function fromNullable<T>(value: T): List<NonNullable<T>>;
+
+/**
+ * Call a function and wrap its result in a {@linkcode List} of one value, or return `Nil` if it
+ * throws.
+ * @param f The function to call.
+ * @returns
+ */
+export function tryCatch<T>(f: () => T): List<T>;
+
+/**
+ * Map each value of a {@linkcode List} with a function.
+ * @param list The {@linkcode List} to map.
+ * @param f The function to map each value with.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * List.map(List.fromIterable([1, 2]), (n) => n * 2); // => Cons(2, Cons(4, Nil))
+ * ```
+ */
+export function map<T, R>(list: List<T>, f: (value: T) => R): List<R>;
+/**
+ * Map each value of a {@linkcode List} with a function.
+ * @param f The function to map each value with.
+ * @returns
+ */
+export function map<T, R>(f: (value: T) => R): (list: List<T>) => List<R>;
+
+/**
+ * Map each value of a {@linkcode List} with a function returning a {@linkcode List}, and
+ * concatenate the results.
+ * @param list The {@linkcode List} to map.
+ * @param f The function to map each value with.
+ * @returns
+ */
+export function flatMap<T, R>(list: List<T>, f: (value: T) => List<R>): List<R>;
+/**
+ * Map each value of a {@linkcode List} with a function returning a {@linkcode List}, and
+ * concatenate the results.
+ * @param f The function to map each value with.
+ * @returns
+ */
+export function flatMap<T, R>(f: (value: T) => List<R>): (list: List<T>) => List<R>;
+
+/**
+ * Get the first value (i.e., the head) of a `Cons`, or the result of `onNil` if the
+ * {@linkcode List} is `Nil`.
+ * @param list The {@linkcode List} to get the first value from.
+ * @param onNil The function to call if the {@linkcode List} is `Nil`.
+ * @returns
+ */
+export function getOrElse<T, U>(list: List<T>, onNil: () => U): T | U;
+/**
+ * Get the first value (i.e., the head) of a `Cons`, or the result of `onNil` if the
+ * {@linkcode List} is `Nil`.
+ * @param onNil The function to call if the {@linkcode List} is `Nil`.
+ * @returns
+ */
+export function getOrElse<U>(onNil: () => U): <T>(list: List<T>) => T | U;
+
+/**
+ * Map each value of an iterable with a function returning a {@linkcode List}, and collect every
+ * combination of the values of the results (i.e., their Cartesian product) in a {@linkcode List}
+ * of arrays. If any of the results is `Nil`, `Nil` is returned.
+ * @param values The values to map.
+ * @param f The function to map each value with.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * List.traverse([1, 2], (n) => List.fromIterable([n, -n]));
+ * // => [[1, 2], [1, -2], [-1, 2], [-1, -2]] as a `List`
+ * ```
+ */
+export function traverse<T, R>(
+  values: Iterable<T>,
+  f: (value: T, index: number) => List<R>,
+): List<R[]>;
+/**
+ * Map each value of an iterable with a function returning a {@linkcode List}, and collect every
+ * combination of the values of the results (i.e., their Cartesian product) in a {@linkcode List}
+ * of arrays. If any of the results is `Nil`, `Nil` is returned.
+ * @param f The function to map each value with.
+ * @returns
+ */
+export function traverse<T, R>(
+  f: (value: T, index: number) => List<R>,
+): (values: Iterable<T>) => List<R[]>;
+
+/**
+ * Collect every combination of the values of an array (or tuple) of {@linkcode List}s in a
+ * {@linkcode List} of arrays (see {@linkcode traverse}).
+ * @param lists The {@linkcode List}s to collect.
+ * @returns
+ */
+export function sequence<const Lists extends readonly { readonly _tag: "Nil" | "Cons" }[]>(
+  lists: Lists,
+): List<{ -readonly [K in keyof Lists]: ElementOf<Lists[K]> }>;
+/**
+ * Collect every combination of the values of an iterable of {@linkcode List}s in a
+ * {@linkcode List} of arrays (see {@linkcode traverse}).
+ * @param lists The {@linkcode List}s to collect.
+ * @returns
+ */
+export function sequence<T>(lists: Iterable<List<T>>): List<T[]>;
+
+/**
+ * Get the type of the elements of a {@linkcode List}.
+ * @private
+ */
+type ElementOf<L> = L extends { readonly _tag: "Cons"; readonly _0: infer T } ? T : never;
+
+/**
+ * Get the arguments an HKT is applied with.
+ * @private
+ */
+type Args<F> = F extends { readonly Args: (_: infer A extends unknown[]) => void } ? A : never;
+
+/* Ensure TypeScript treats this file as a module to prevent internal from exportation */
+export {};
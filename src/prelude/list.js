@@ -0,0 +1,187 @@
+import { make } from "../index.js";
+
+const ADT = /** @type {*} */ (/* @__PURE__ */ make(["Nil", "Cons"], { name: "List" }));
+
+export const {
+  Cons,
+  Nil,
+  equals,
+  ifCons,
+  ifConsAsync,
+  ifNil,
+  ifNilAsync,
+  isCons,
+  isNil,
+  match,
+  matchAsync,
+  matchPattern,
+  matchW,
+  matchWAsync,
+  unwrap,
+  unwrapCons,
+  unwrapNil,
+} = ADT;
+
+/**
+ * Create a `List` from the values of an iterable.
+ * @param {Iterable<*>} values The values of the `List`.
+ * @returns {*}
+ */
+export function fromIterable(values) {
+  const array = Array.isArray(values) ? values : Array.from(values);
+  let list = Nil();
+  for (let i = array.length - 1; i >= 0; i--) list = Cons(array[i], list);
+  return list;
+}
+
+/**
+ * Convert a `List` to an array.
+ * @param {*} list The `List` to convert.
+ * @returns {Array<*>}
+ */
+export function toArray(list) {
+  const result = [];
+  for (let node = list; node._tag === "Cons"; node = node._1) result.push(node._0);
+  return result;
+}
+
+/**
+ * Create a `List` from a nullable value, i.e., `Nil` if the value is `null` or `undefined`, and a
+ * `List` of the value otherwise.
+ * @param {*} value The nullable value.
+ * @returns {*}
+ */
+export function fromNullable(value) {
+  return value == null ? Nil() : Cons(value, Nil());
+}
+
+/**
+ * Call a function and wrap its result in a `List` of one value, or return `Nil` if it throws.
+ * @param {() => *} f The function to call.
+ * @returns {*}
+ */
+export function tryCatch(f) {
+  try {
+    return Cons(f(), Nil());
+  } catch (e) {
+    return Nil();
+  }
+}
+
+/**
+ * Map each value of a `List` with a function.
+ *
+ * If only `f` is provided, a function accepting the `List` is returned.
+ * @param {*} list The `List` to map.
+ * @param {(value: *) => *} [f] The function to map each value with.
+ * @returns {*}
+ */
+export function map(list, f) {
+  if (!f) {
+    const f = /** @type {*} */ (list);
+    return function map(list) {
+      return fromIterable(toArray(list).map((value) => f(value)));
+    };
+  }
+  return fromIterable(toArray(list).map((value) => f(value)));
+}
+
+/**
+ * Map each value of a `List` with a function returning a `List`, and concatenate the results.
+ *
+ * If only `f` is provided, a function accepting the `List` is returned.
+ * @param {*} list The `List` to map.
+ * @param {(value: *) => *} [f] The function to map each value with.
+ * @returns {*}
+ */
+export function flatMap(list, f) {
+  if (!f) {
+    const f = /** @type {*} */ (list);
+    return function flatMap(list) {
+      return _flatMap(list, f);
+    };
+  }
+  return _flatMap(list, f);
+}
+
+/**
+ * Get the first value (i.e., the head) of a `Cons`, or the result of `onNil` if the `List` is
+ * `Nil`.
+ *
+ * If only `onNil` is provided, a function accepting the `List` is returned.
+ * @param {*} list The `List` to get the first value from.
+ * @param {() => *} [onNil] The function to call if the `List` is `Nil`.
+ * @returns {*}
+ */
+export function getOrElse(list, onNil) {
+  if (!onNil) {
+    const onNil = /** @type {*} */ (list);
+    return function getOrElse(list) {
+      return list._tag === "Cons" ? list._0 : onNil();
+    };
+  }
+  return list._tag === "Cons" ? list._0 : onNil();
+}
+
+/**
+ * Map each value of an iterable with a function returning a `List`, and collect every combination
+ * of the values of the results (i.e., their Cartesian product) in a `List` of arrays. If any of
+ * the results is `Nil`, `Nil` is returned.
+ *
+ * If only `f` is provided, a function accepting the iterable is returned.
+ * @param {Iterable<*>} values The values to map.
+ * @param {(value: *, index: number) => *} [f] The function to map each value with.
+ * @returns {*}
+ */
+export function traverse(values, f) {
+  if (!f) {
+    const f = /** @type {*} */ (values);
+    return function traverse(values) {
+      return _traverse(values, f);
+    };
+  }
+  return _traverse(values, f);
+}
+
+/**
+ * Collect every combination of the values of an iterable of `List`s in a `List` of arrays (see
+ * {@linkcode traverse}).
+ * @param {Iterable<*>} lists The `List`s to collect.
+ * @returns {*}
+ */
+export function sequence(lists) {
+  return _traverse(lists, (list) => list);
+}
+
+/**
+ * The implementation of {@linkcode flatMap}.
+ * @param {*} list The `List` to map.
+ * @param {(value: *) => *} f The function to map each value with.
+ * @returns {*}
+ */
+function _flatMap(list, f) {
+  const result = [];
+  for (let node = list; node._tag === "Cons"; node = node._1)
+    for (let inner = f(node._0); inner._tag === "Cons"; inner = inner._1) result.push(inner._0);
+  return fromIterable(result);
+}
+
+/**
+ * The implementation of {@linkcode traverse}.
+ * @param {Iterable<*>} values The values to map.
+ * @param {(value: *, index: number) => *} f The function to map each value with.
+ * @returns {*}
+ */
+function _traverse(values, f) {
+  /** @type {Array<Array<*>>} */
+  let combinations = [[]];
+  let i = 0;
+  for (const value of values) {
+    const choices = toArray(f(value, i++));
+    const next = [];
+    for (const combination of combinations)
+      for (const choice of choices) next.push(combination.concat([choice]));
+    combinations = next;
+  }
+  return fromIterable(combinations);
+}
@@ -0,0 +1,173 @@
+import type { ADTFunctions, Data } from "../index.js";
+
+/**
+ * An optional value, either `Some(value)` or `None`.
+ */
+export type Option<T> = Data<{ Some: [value: T]; None: [] }>;
+/**
+ * The HKT of {@linkcode Option}.
+ */
+export interface OptionHKT {
+  readonly "~hkt": { readonly version: 1 };
+  readonly signature: (type: unknown) => Option<unknown>;
+  readonly return: Option<Args<this>[0]>;
+}
+
+declare const ADT: ADTFunctions<OptionHKT, never, true, "Some">;
+
+export const Some: typeof ADT.Some;
+export const None: typeof ADT.None;
+export const isSome: typeof ADT.isSome;
+export const isNone: typeof ADT.isNone;
+export const ifSome: typeof ADT.ifSome;
+export const ifNone: typeof ADT.ifNone;
+export const ifSomeAsync: typeof ADT.ifSomeAsync;
+export const ifNoneAsync: typeof ADT.ifNoneAsync;
+export const unwrapSome: typeof ADT.unwrapSome;
+export const unwrapNone: typeof ADT.unwrapNone;
+export const unwrap: typeof ADT.unwrap;
+export const match: typeof ADT.match;
+export const matchW: typeof ADT.matchW;
+export const matchAsync: typeof ADT.matchAsync;
+export const matchWAsync: typeof ADT.matchWAsync;
+export const matchPattern: typeof ADT.matchPattern;
+export const equals: typeof ADT.equals;
+export const gen: typeof ADT.gen;
+export const genAsync: typeof ADT.genAsync;
+
+/**
+ * Create an {@linkcode Option} from a nullable value, i.e., `None` if the value is `null` or
+ * `undefined`, and `Some(value)` otherwise.
+ * @param value The nullable value.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * Option.fromNullable(42); // => Some(42)
+ * Option.fromNullable(null); // => None
+ * ```
+ */
+export function fromNullable<T>(value: T): Option<NonNullable<T>>;
+
+/**
+ * Call a function and wrap its result in `Some`, or return `None` if it throws.
+ * @param f The function to call.
+ * @returns
+ */
+export function tryCatch<T>(f: () => T): Option<T>;
+
+/**
+ * Map the value of a `Some` with a function, leaving `None` as is.
+ * @param option The {@linkcode Option} to map.
+ * @param f The function to map the value with.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * Option.map(Some(21), (n) => n * 2); // => Some(42)
+ * Some(21).pipe(Option.map((n) => n * 2)); // => Some(42)
+ * ```
+ */
+export function map<T, R>(option: Option<T>, f: (value: T) => R): Option<R>;
+/**
+ * Map the value of a `Some` with a function, leaving `None` as is.
+ * @param f The function to map the value with.
+ * @returns
+ */
+export function map<T, R>(f: (value: T) => R): (option: Option<T>) => Option<R>;
+
+/**
+ * Map the value of a `Some` with a function returning an {@linkcode Option}, leaving `None` as is.
+ * @param option The {@linkcode Option} to map.
+ * @param f The function to map the value with.
+ * @returns
+ */
+export function flatMap<T, R>(option: Option<T>, f: (value: T) => Option<R>): Option<R>;
+/**
+ * Map the value of a `Some` with a function returning an {@linkcode Option}, leaving `None` as is.
+ * @param f The function to map the value with.
+ * @returns
+ */
+export function flatMap<T, R>(f: (value: T) => Option<R>): (option: Option<T>) => Option<R>;
+
+/**
+ * Get the value of a `Some`, or the result of `onNone` if the {@linkcode Option} is `None`.
+ * @param option The {@linkcode Option} to get the value from.
+ * @param onNone The function to call if the {@linkcode Option} is `None`.
+ * @returns
+ */
+export function getOrElse<T, U>(option: Option<T>, onNone: () => U): T | U;
+/**
+ * Get the value of a `Some`, or the result of `onNone` if the {@linkcode Option} is `None`.
+ * @param onNone The function to call if the {@linkcode Option} is `None`.
+ * @returns
+ */
+export function getOrElse<U>(onNone: () => U): <T>(option: Option<T>) => T | U;
+
+/**
+ * Map each value of an iterable with a function returning an {@linkcode Option}, and collect the
+ * values of the results in `Some` if they are all `Some`s. Otherwise, `None` is returned, and the
+ * rest of the values are not mapped.
+ * @param values The values to map.
+ * @param f The function to map each value with.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * const parse = (s: string) => (isNaN(Number(s)) ? None() : Some(Number(s)));
+ * Option.traverse(["1", "2"], parse); // => Some([1, 2])
+ * Option.traverse(["1", "foo"], parse); // => None
+ * ```
+ */
+export function traverse<T, R>(
+  values: Iterable<T>,
+  f: (value: T, index: number) => Option<R>,
+): Option<R[]>;
+/**
+ * Map each value of an iterable with a function returning an {@linkcode Option}, and collect the
+ * values of the results in `Some` if they are all `Some`s. Otherwise, `None` is returned, and the
+ * rest of the values are not mapped.
+ * @param f The function to map each value with.
+ * @returns
+ */
+export function traverse<T, R>(
+  f: (value: T, index: number) => Option<R>,
+): (values: Iterable<T>) => Option<R[]>;
+
+/**
+ * Collect the values of an array (or tuple) of {@linkcode Option}s in `Some` if they are all
+ * `Some`s, or return `None` otherwise.
+ * @param options The {@linkcode Option}s to collect.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * Option.sequence([Some(1), Some("foo")]); // => Some([1, "foo"]): Option<[number, string]>
+ * Option.sequence([Some(1), None()]); // => None
+ * ```
+ */
+export function sequence<const Options extends readonly { readonly _tag: "Some" | "None" }[]>(
+  options: Options,
+): Option<{ -readonly [K in keyof Options]: ValueOf<Options[K]> }>;
+/**
+ * Collect the values of an iterable of {@linkcode Option}s in `Some` if they are all `Some`s, or
+ * return `None` otherwise.
+ * @param options The {@linkcode Option}s to collect.
+ * @returns
+ */
+export function sequence<T>(options: Iterable<Option<T>>): Option<T[]>;
+
+/**
+ * Get the type of the value of an {@linkcode Option}.
+ * @private
+ */
+type ValueOf<O> = O extends { readonly _tag: "Some"; readonly _0: infer T } ? T : never;
+
+/**
+ * Get the arguments an HKT is applied with.
+ * @private
+ */
+type Args<F> = F extends { readonly Args: (_: infer A extends unknown[]) => void } ? A : never;
+
+/* Ensure TypeScript treats this file as a module to prevent internal from exportation */
+export {};
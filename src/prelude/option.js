@@ -0,0 +1,151 @@
+import { make } from "../index.js";
+
+const ADT = /** @type {*} */ (
+  /* @__PURE__ */ make(["Some", "None"], /** @type {*} */ ({ name: "Option", monadic: "Some" }))
+);
+
+export const {
+  None,
+  Some,
+  equals,
+  gen,
+  genAsync,
+  ifNone,
+  ifNoneAsync,
+  ifSome,
+  ifSomeAsync,
+  isNone,
+  isSome,
+  match,
+  matchAsync,
+  matchPattern,
+  matchW,
+  matchWAsync,
+  unwrap,
+  unwrapNone,
+  unwrapSome,
+} = ADT;
+
+/**
+ * Create an `Option` from a nullable value, i.e., `None` if the value is `null` or `undefined`,
+ * and `Some(value)` otherwise.
+ * @param {*} value The nullable value.
+ * @returns {*}
+ */
+export function fromNullable(value) {
+  return value == null ? None() : Some(value);
+}
+
+/**
+ * Call a function and wrap its result in `Some`, or return `None` if it throws.
+ * @param {() => *} f The function to call.
+ * @returns {*}
+ */
+export function tryCatch(f) {
+  try {
+    return Some(f());
+  } catch (e) {
+    return None();
+  }
+}
+
+/**
+ * Map the value of a `Some` with a function, leaving `None` as is.
+ *
+ * If only `f` is provided, a function accepting the `Option` is returned.
+ * @param {*} option The `Option` to map.
+ * @param {(value: *) => *} [f] The function to map the value with.
+ * @returns {*}
+ */
+export function map(option, f) {
+  if (!f) {
+    const f = /** @type {*} */ (option);
+    return function map(option) {
+      return option._tag === "Some" ? Some(f(option._0)) : option;
+    };
+  }
+  return option._tag === "Some" ? Some(f(option._0)) : option;
+}
+
+/**
+ * Map the value of a `Some` with a function returning an `Option`, leaving `None` as is.
+ *
+ * If only `f` is provided, a function accepting the `Option` is returned.
+ * @param {*} option The `Option` to map.
+ * @param {(value: *) => *} [f] The function to map the value with.
+ * @returns {*}
+ */
+export function flatMap(option, f) {
+  if (!f) {
+    const f = /** @type {*} */ (option);
+    return function flatMap(option) {
+      return option._tag === "Some" ? f(option._0) : option;
+    };
+  }
+  return option._tag === "Some" ? f(option._0) : option;
+}
+
+/**
+ * Get the value of a `Some`, or the result of `onNone` if the `Option` is `None`.
+ *
+ * If only `onNone` is provided, a function accepting the `Option` is returned.
+ * @param {*} option The `Option` to get the value from.
+ * @param {() => *} [onNone] The function to call if the `Option` is `None`.
+ * @returns {*}
+ */
+export function getOrElse(option, onNone) {
+  if (!onNone) {
+    const onNone = /** @type {*} */ (option);
+    return function getOrElse(option) {
+      return option._tag === "Some" ? option._0 : onNone();
+    };
+  }
+  return option._tag === "Some" ? option._0 : onNone();
+}
+
+/**
+ * Map each value of an iterable with a function returning an `Option`, and collect the values of
+ * the results in `Some` if they are all `Some`s. Otherwise, `None` is returned, and the rest of the
+ * values are not mapped.
+ *
+ * If only `f` is provided, a function accepting the iterable is returned.
+ * @param {Iterable<*>} values The values to map.
+ * @param {(value: *, index: number) => *} [f] The function to map each value with.
+ * @returns {*}
+ */
+export function traverse(values, f) {
+  if (!f) {
+    const f = /** @type {*} */ (values);
+    return function traverse(values) {
+      return _traverse(values, f);
+    };
+  }
+  return _traverse(values, f);
+}
+
+/**
+ * Collect the values of an iterable of `Option`s in `Some` if they are all `Some`s, or return
+ * `None` otherwise.
+ * @param {Iterable<*>} options The `Option`s to collect.
+ * @returns {*}
+ */
+export function sequence(options) {
+  return _traverse(options, (option) => option);
+}
+
+/**
+ * The implementation of {@linkcode traverse}.
+ * @param {Iterable<*>} values The values to map.
+ * @param {(value: *, index: number) => *} f The function to map each value with.
+ * @returns {*}
+ */
+function _traverse(values, f) {
+  const result = [];
+  let i = 0;
+  for (const value of values) {
+    const option = f(value, i++);
+    if (option._tag !== "Some") return option;
+    result.push(option._0);
+  }
+  return Some(result);
+}
@@ -0,0 +1,209 @@
+import type { ADTFunctions, Data } from "../index.js";
+
+/**
+ * The result of a computation that may fail, either `Ok(value)` or `Err(error)`.
+ */
+export type Result<T, E> = Data<{ Ok: [value: T]; Err: [error: E] }>;
+/**
+ * The HKT of {@linkcode Result}.
+ */
+export interface ResultHKT {
+  readonly "~hkt": { readonly version: 1 };
+  readonly signature: (type1: unknown, type2: unknown) => Result<unknown, unknown>;
+  readonly return: Result<Args<this>[0], Args<this>[1]>;
+}
+
+declare const ADT: ADTFunctions<ResultHKT, never, true, "Ok">;
+
+export const Ok: typeof ADT.Ok;
+export const Err: typeof ADT.Err;
+export const isOk: typeof ADT.isOk;
+export const isErr: typeof ADT.isErr;
+export const ifOk: typeof ADT.ifOk;
+export const ifErr: typeof ADT.ifErr;
+export const ifOkAsync: typeof ADT.ifOkAsync;
+export const ifErrAsync: typeof ADT.ifErrAsync;
+export const unwrapOk: typeof ADT.unwrapOk;
+export const unwrapErr: typeof ADT.unwrapErr;
+export const unwrap: typeof ADT.unwrap;
+export const match: typeof ADT.match;
+export const matchW: typeof ADT.matchW;
+export const matchAsync: typeof ADT.matchAsync;
+export const matchWAsync: typeof ADT.matchWAsync;
+export const matchPattern: typeof ADT.matchPattern;
+export const equals: typeof ADT.equals;
+export const gen: typeof ADT.gen;
+export const genAsync: typeof ADT.genAsync;
+
+/**
+ * Create a {@linkcode Result} from a nullable value, i.e., `Err` with the result of `onNullable`
+ * if the value is `null` or `undefined`, and `Ok(value)` otherwise.
+ * @param value The nullable value.
+ * @param onNullable The function to create the error with.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * Result.fromNullable(42, () => "missing"); // => Ok(42)
+ * Result.fromNullable(null, () => "missing"); // => Err("missing")
+ * ```
+ */
+export function fromNullable<T, E>(value: T, onNullable: () => E): Result<NonNullable<T>, E>;
+/**
+ * Create a {@linkcode Result} from a nullable value, i.e., `Err` with the result of `onNullable`
+ * if the value is `null` or `undefined`, and `Ok(value)` otherwise.
+ * @param onNullable The function to create the error with.
+ * @returns
+ */
+export function fromNullable<E>(onNullable: () => E): <T>(value: T) => Result<NonNullable<T>, E>;
+
+/**
+ * Call a function and wrap its result in `Ok`, or wrap the thrown error in `Err` (mapped with
+ * `onThrow` if provided).
+ * @param f The function to call.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * Result.tryCatch(() => JSON.parse("{}")); // => Ok({})
+ * Result.tryCatch(() => JSON.parse("{"), (e) => (e as Error).message); // => Err("...")
+ * ```
+ */
+export function tryCatch<T>(f: () => T): Result<T, unknown>;
+/**
+ * Call a function and wrap its result in `Ok`, or wrap the thrown error mapped with `onThrow` in
+ * `Err`.
+ * @param f The function to call.
+ * @param onThrow The function to map the thrown error with.
+ * @returns
+ */
+export function tryCatch<T, E>(f: () => T, onThrow: (error: unknown) => E): Result<T, E>;
+
+/**
+ * Map the value of an `Ok` with a function, leaving `Err` as is.
+ * @param result The {@linkcode Result} to map.
+ * @param f The function to map the value with.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * Result.map(Ok(21), (n) => n * 2); // => Ok(42)
+ * Ok(21).pipe(Result.map((n) => n * 2)); // => Ok(42)
+ * ```
+ */
+export function map<T, E, R>(result: Result<T, E>, f: (value: T) => R): Result<R, E>;
+/**
+ * Map the value of an `Ok` with a function, leaving `Err` as is.
+ * @param f The function to map the value with.
+ * @returns
+ */
+export function map<T, R>(f: (value: T) => R): <E>(result: Result<T, E>) => Result<R, E>;
+
+/**
+ * Map the value of an `Ok` with a function returning a {@linkcode Result}, leaving `Err` as is.
+ * @param result The {@linkcode Result} to map.
+ * @param f The function to map the value with.
+ * @returns
+ */
+export function flatMap<T, E, R, E2>(
+  result: Result<T, E>,
+  f: (value: T) => Result<R, E2>,
+): Result<R, E | E2>;
+/**
+ * Map the value of an `Ok` with a function returning a {@linkcode Result}, leaving `Err` as is.
+ * @param f The function to map the value with.
+ * @returns
+ */
+export function flatMap<T, R, E2>(
+  f: (value: T) => Result<R, E2>,
+): <E>(result: Result<T, E>) => Result<R, E | E2>;
+
+/**
+ * Map the error of an `Err` with a function, leaving `Ok` as is.
+ * @param result The {@linkcode Result} to map.
+ * @param f The function to map the error with.
+ * @returns
+ */
+export function mapErr<T, E, E2>(result: Result<T, E>, f: (error: E) => E2): Result<T, E2>;
+/**
+ * Map the error of an `Err` with a function, leaving `Ok` as is.
+ * @param f The function to map the error with.
+ * @returns
+ */
+export function mapErr<E, E2>(f: (error: E) => E2): <T>(result: Result<T, E>) => Result<T, E2>;
+
+/**
+ * Get the value of an `Ok`, or the result of `onErr` with the error if the {@linkcode Result} is
+ * `Err`.
+ * @param result The {@linkcode Result} to get the value from.
+ * @param onErr The function to call if the {@linkcode Result} is `Err`.
+ * @returns
+ */
+export function getOrElse<T, E, U>(result: Result<T, E>, onErr: (error: E) => U): T | U;
+/**
+ * Get the value of an `Ok`, or the result of `onErr` with the error if the {@linkcode Result} is
+ * `Err`.
+ * @param onErr The function to call if the {@linkcode Result} is `Err`.
+ * @returns
+ */
+export function getOrElse<E, U>(onErr: (error: E) => U): <T>(result: Result<T, E>) => T | U;
+
+/**
+ * Map each value of an iterable with a function returning a {@linkcode Result}, and collect the
+ * values of the results in `Ok` if they are all `Ok`s. Otherwise, the first `Err` is returned, and
+ * the rest of the values are not mapped.
+ * @param values The values to map.
+ * @param f The function to map each value with.
+ * @returns
+ */
+export function traverse<T, R, E>(
+  values: Iterable<T>,
+  f: (value: T, index: number) => Result<R, E>,
+): Result<R[], E>;
+/**
+ * Map each value of an iterable with a function returning a {@linkcode Result}, and collect the
+ * values of the results in `Ok` if they are all `Ok`s. Otherwise, the first `Err` is returned, and
+ * the rest of the values are not mapped.
+ * @param f The function to map each value with.
+ * @returns
+ */
+export function traverse<T, R, E>(
+  f: (value: T, index: number) => Result<R, E>,
+): (values: Iterable<T>) => Result<R[], E>;
+
+/**
+ * Collect the values of an array (or tuple) of {@linkcode Result}s in `Ok` if they are all `Ok`s,
+ * or return the first `Err` otherwise.
+ * @param results The {@linkcode Result}s to collect.
+ * @returns
+ */
+export function sequence<const Results extends readonly { readonly _tag: "Ok" | "Err" }[]>(
+  results: Results,
+): Result<{ -readonly [K in keyof Results]: ValueOf<Results[K]> }, ErrorOf<Results[number]>>;
+/**
+ * Collect the values of an iterable of {@linkcode Result}s in `Ok` if they are all `Ok`s, or
+ * return the first `Err` otherwise.
+ * @param results The {@linkcode Result}s to collect.
+ * @returns
+ */
+export function sequence<T, E>(results: Iterable<Result<T, E>>): Result<T[], E>;
+
+/**
+ * Get the type of the value of a {@linkcode Result}.
+ * @private
+ */
+type ValueOf<R> = R extends { readonly _tag: "Ok"; readonly _0: infer T } ? T : never;
+/**
+ * Get the type of the error of a {@linkcode Result}.
+ * @private
+ */
+type ErrorOf<R> = R extends { readonly _tag: "Err"; readonly _0: infer E } ? E : never;
+
+/**
+ * Get the arguments an HKT is applied with.
+ * @private
+ */
+type Args<F> = F extends { readonly Args: (_: infer A extends unknown[]) => void } ? A : never;
+
+/* Ensure TypeScript treats this file as a module to prevent internal from exportation */
+export {};
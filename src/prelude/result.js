@@ -0,0 +1,180 @@
+import { make } from "../index.js";
+
+const ADT = /** @type {*} */ (
+  /* @__PURE__ */ make(["Ok", "Err"], /** @type {*} */ ({ name: "Result", monadic: "Ok" }))
+);
+
+export const {
+  Err,
+  Ok,
+  equals,
+  gen,
+  genAsync,
+  ifErr,
+  ifErrAsync,
+  ifOk,
+  ifOkAsync,
+  isErr,
+  isOk,
+  match,
+  matchAsync,
+  matchPattern,
+  matchW,
+  matchWAsync,
+  unwrap,
+  unwrapErr,
+  unwrapOk,
+} = ADT;
+
+/**
+ * Create a `Result` from a nullable value, i.e., `Err` with the result of `onNullable` if the
+ * value is `null` or `undefined`, and `Ok(value)` otherwise.
+ *
+ * If only `onNullable` is provided, a function accepting the value is returned.
+ * @param {*} value The nullable value.
+ * @param {() => *} [onNullable] The function to create the error with.
+ * @returns {*}
+ */
+export function fromNullable(value, onNullable) {
+  if (!onNullable) {
+    const onNullable = /** @type {*} */ (value);
+    return function fromNullable(value) {
+      return value == null ? Err(onNullable()) : Ok(value);
+    };
+  }
+  return value == null ? Err(onNullable()) : Ok(value);
+}
+
+/**
+ * Call a function and wrap its result in `Ok`, or wrap the thrown error in `Err` (mapped with
+ * `onThrow` if provided).
+ * @param {() => *} f The function to call.
+ * @param {(error: *) => *} [onThrow] The function to map the thrown error with.
+ * @returns {*}
+ */
+export function tryCatch(f, onThrow) {
+  try {
+    return Ok(f());
+  } catch (e) {
+    return Err(onThrow ? onThrow(e) : e);
+  }
+}
+
+/**
+ * Map the value of an `Ok` with a function, leaving `Err` as is.
+ *
+ * If only `f` is provided, a function accepting the `Result` is returned.
+ * @param {*} result The `Result` to map.
+ * @param {(value: *) => *} [f] The function to map the value with.
+ * @returns {*}
+ */
+export function map(result, f) {
+  if (!f) {
+    const f = /** @type {*} */ (result);
+    return function map(result) {
+      return result._tag === "Ok" ? Ok(f(result._0)) : result;
+    };
+  }
+  return result._tag === "Ok" ? Ok(f(result._0)) : result;
+}
+
+/**
+ * Map the value of an `Ok` with a function returning a `Result`, leaving `Err` as is.
+ *
+ * If only `f` is provided, a function accepting the `Result` is returned.
+ * @param {*} result The `Result` to map.
+ * @param {(value: *) => *} [f] The function to map the value with.
+ * @returns {*}
+ */
+export function flatMap(result, f) {
+  if (!f) {
+    const f = /** @type {*} */ (result);
+    return function flatMap(result) {
+      return result._tag === "Ok" ? f(result._0) : result;
+    };
+  }
+  return result._tag === "Ok" ? f(result._0) : result;
+}
+
+/**
+ * Map the error of an `Err` with a function, leaving `Ok` as is.
+ *
+ * If only `f` is provided, a function accepting the `Result` is returned.
+ * @param {*} result The `Result` to map.
+ * @param {(error: *) => *} [f] The function to map the error with.
+ * @returns {*}
+ */
+export function mapErr(result, f) {
+  if (!f) {
+    const f = /** @type {*} */ (result);
+    return function mapErr(result) {
+      return result._tag === "Err" ? Err(f(result._0)) : result;
+    };
+  }
+  return result._tag === "Err" ? Err(f(result._0)) : result;
+}
+
+/**
+ * Get the value of an `Ok`, or the result of `onErr` with the error if the `Result` is `Err`.
+ *
+ * If only `onErr` is provided, a function accepting the `Result` is returned.
+ * @param {*} result The `Result` to get the value from.
+ * @param {(error: *) => *} [onErr] The function to call if the `Result` is `Err`.
+ * @returns {*}
+ */
+export function getOrElse(result, onErr) {
+  if (!onErr) {
+    const onErr = /** @type {*} */ (result);
+    return function getOrElse(result) {
+      return result._tag === "Ok" ? result._0 : onErr(result._0);
+    };
+  }
+  return result._tag === "Ok" ? result._0 : onErr(result._0);
+}
+
+/**
+ * Map each value of an iterable with a function returning a `Result`, and collect the values of
+ * the results in `Ok` if they are all `Ok`s. Otherwise, the first `Err` is returned, and the rest
+ * of the values are not mapped.
+ *
+ * If only `f` is provided, a function accepting the iterable is returned.
+ * @param {Iterable<*>} values The values to map.
+ * @param {(value: *, index: number) => *} [f] The function to map each value with.
+ * @returns {*}
+ */
+export function traverse(values, f) {
+  if (!f) {
+    const f = /** @type {*} */ (values);
+    return function traverse(values) {
+      return _traverse(values, f);
+    };
+  }
+  return _traverse(values, f);
+}
+
+/**
+ * Collect the values of an iterable of `Result`s in `Ok` if they are all `Ok`s, or return the
+ * first `Err` otherwise.
+ * @param {Iterable<*>} results The `Result`s to collect.
+ * @returns {*}
+ */
+export function sequence(results) {
+  return _traverse(results, (result) => result);
+}
+
+/**
+ * The implementation of {@linkcode traverse}.
+ * @param {Iterable<*>} values The values to map.
+ * @param {(value: *, index: number) => *} f The function to map each value with.
+ * @returns {*}
+ */
+function _traverse(values, f) {
+  const result = [];
+  let i = 0;
+  for (const value of values) {
+    const res = f(value, i++);
+    if (res._tag !== "Ok") return res;
+    result.push(res._0);
+  }
+  return Ok(result);
+}
@@ -0,0 +1,239 @@
+import type { ADTFunctions, Data } from "../index.js";
+
+/**
+ * A value of one of two types or both, either `Left(left)`, `Right(right)` or `Both(left, right)`.
+ * Useful for computations that may produce warnings along with (or instead of) a result.
+ */
+export type These<L, R> = Data<{ Left: [left: L]; Right: [right: R]; Both: [left: L, right: R] }>;
+/**
+ * The HKT of {@linkcode These}.
+ */
+export interface TheseHKT {
+  readonly "~hkt": { readonly version: 1 };
+  readonly signature: (type1: unknown, type2: unknown) => These<unknown, unknown>;
+  readonly return: These<Args<this>[0], Args<this>[1]>;
+}
+
+declare const ADT: ADTFunctions<TheseHKT, never, true>;
+
+export const Left: typeof ADT.Left;
+export const Right: typeof ADT.Right;
+export const Both: typeof ADT.Both;
+export const isLeft: typeof ADT.isLeft;
+export const isRight: typeof ADT.isRight;
+export const isBoth: typeof ADT.isBoth;
+export const ifLeft: typeof ADT.ifLeft;
+export const ifRight: typeof ADT.ifRight;
+export const ifBoth: typeof ADT.ifBoth;
+export const ifLeftAsync: typeof ADT.ifLeftAsync;
+export const ifRightAsync: typeof ADT.ifRightAsync;
+export const ifBothAsync: typeof ADT.ifBothAsync;
+export const unwrapLeft: typeof ADT.unwrapLeft;
+export const unwrapRight: typeof ADT.unwrapRight;
+export const unwrapBoth: typeof ADT.unwrapBoth;
+export const unwrap: typeof ADT.unwrap;
+export const match: typeof ADT.match;
+export const matchW: typeof ADT.matchW;
+export const matchAsync: typeof ADT.matchAsync;
+export const matchWAsync: typeof ADT.matchWAsync;
+export const matchPattern: typeof ADT.matchPattern;
+export const equals: typeof ADT.equals;
+
+/**
+ * Create a {@linkcode These} from a nullable value, i.e., `Left` with the result of `onNullable`
+ * if the value is `null` or `undefined`, and `Right(value)` otherwise.
+ * @param value The nullable value.
+ * @param onNullable The function to create the value of the `Left` with.
+ * @returns
+ */
+export function fromNullable<R, L>(value: R, onNullable: () => L): These<L, NonNullable<R>>;
+/**
+ * Create a {@linkcode These} from a nullable value, i.e., `Left` with the result of `onNullable`
+ * if the value is `null` or `undefined`, and `Right(value)` otherwise.
+ * @param onNullable The function to create the value of the `Left` with.
+ * @returns
+ */
+export function fromNullable<L>(onNullable: () => L): <R>(value: R) => These<L, NonNullable<R>>;
+
+/**
+ * Call a function and wrap its result in `Right`, or wrap the thrown error in `Left` (mapped with
+ * `onThrow` if provided).
+ * @param f The function to call.
+ * @returns
+ */
+export function tryCatch<R>(f: () => R): These<unknown, R>;
+/**
+ * Call a function and wrap its result in `Right`, or wrap the thrown error mapped with `onThrow`
+ * in `Left`.
+ * @param f The function to call.
+ * @param onThrow The function to map the thrown error with.
+ * @returns
+ */
+export function tryCatch<L, R>(f: () => R, onThrow: (error: unknown) => L): These<L, R>;
+
+/**
+ * Map the right value of a `Right` or `Both` with a function, leaving `Left` as is.
+ * @param these The {@linkcode These} to map.
+ * @param f The function to map the right value with.
+ * @returns
+ *
+ * @example
+ * ```typescript
+ * These.map(Both("warning", 21), (n) => n * 2); // => Both("warning", 42)
+ * Right(21).pipe(These.map((n) => n * 2)); // => Right(42)
+ * ```
+ */
+export function map<L, R, R2>(these: These<L, R>, f: (right: R) => R2): These<L, R2>;
+/**
+ * Map the right value of a `Right` or `Both` with a function, leaving `Left` as is.
+ * @param f The function to map the right value with.
+ * @returns
+ */
+export function map<R, R2>(f: (right: R) => R2): <L>(these: These<L, R>) => These<L, R2>;
+
+/**
+ * Map the right value of a `Right` or `Both` with a function returning a {@linkcode These},
+ * leaving `Left` as is. If a `Both` is mapped, its left value is combined with the left value of
+ * the result using `combine` (i.e., `Both(a, x)` mapped to `Left(b)` gives `Left(combine(a, b))`,
+ * and to `Right(y)` gives `Both(a, y)`), so no left value is lost.
+ * @param these The {@linkcode These} to map.
+ * @param f The function to map the right value with.
+ * @param combine The function to combine two left values with.
+ * @returns
+ */
+export function flatMap<L, R, R2>(
+  these: These<L, R>,
+  f: (right: R) => These<L, R2>,
+  combine: (left1: L, left2: L) => L,
+): These<L, R2>;
+/**
+ * Map the right value of a `Right` or `Both` with a function returning a {@linkcode These},
+ * leaving `Left` as is. If a `Both` is mapped, its left value is combined with the left value of
+ * the result using `combine` (i.e., `Both(a, x)` mapped to `Left(b)` gives `Left(combine(a, b))`,
+ * and to `Right(y)` gives `Both(a, y)`), so no left value is lost.
+ * @param f The function to map the right value with.
+ * @param combine The function to combine two left values with.
+ * @returns
+ */
+export function flatMap<L, R, R2>(
+  f: (right: R) => These<L, R2>,
+  combine: (left1: L, left2: L) => L,
+): (these: These<L, R>) => These<L, R2>;
+
+/**
+ * Map the left value of a `Left` or `Both` with a function, leaving `Right` as is.
+ * @param these The {@linkcode These} to map.
+ * @param f The function to map the left value with.
+ * @returns
+ */
+export function mapLeft<L, R, L2>(these: These<L, R>, f: (left: L) => L2): These<L2, R>;
+/**
+ * Map the left value of a `Left` or `Both` with a function, leaving `Right` as is.
+ * @param f The function to map the left value with.
+ * @returns
+ */
+export function mapLeft<L, L2>(f: (left: L) => L2): <R>(these: These<L, R>) => These<L2, R>;
+
+/**
+ * Get the right value of a `Right` or `Both`, or the result of `onLeft` with the left value if the
+ * {@linkcode These} is `Left`.
+ * @param these The {@linkcode These} to get the right value from.
+ * @param onLeft The function to call if the {@linkcode These} is `Left`.
+ * @returns
+ */
+export function getOrElse<L, R, U>(these: These<L, R>, onLeft: (left: L) => U): R | U;
+/**
+ * Get the right value of a `Right` or `Both`, or the result of `onLeft` with the left value if the
+ * {@linkcode These} is `Left`.
+ * @param onLeft The function to call if the {@linkcode These} is `Left`.
+ * @returns
+ */
+export function getOrElse<L, U>(onLeft: (left: L) => U): <R>(these: These<L, R>) => R | U;
+
+/**
+ * Map each value of an iterable with a function returning a {@linkcode These}, and collect the
+ * right values of the results. The left values are combined using `combine` in order. If a `Left`
+ * is encountered, the combined left values (including its own) are returned in a `Left`, and the
+ * rest of the values are not mapped. Otherwise, the right values are collected in a `Both` with
+ * the combined left values if there is any `Both`, or in a `Right` if there is no `Both`.
+ * @param values The values to map.
+ * @param f The function to map each value with.
+ * @param combine The function to combine two left values with.
+ * @returns
+ */
+export function traverse<T, L, R>(
+  values: Iterable<T>,
+  f: (value: T, index: number) => These<L, R>,
+  combine: (left1: L, left2: L) => L,
+): These<L, R[]>;
+/**
+ * Map each value of an iterable with a function returning a {@linkcode These}, and collect the
+ * right values of the results. The left values are combined using `combine` in order. If a `Left`
+ * is encountered, the combined left values (including its own) are returned in a `Left`, and the
+ * rest of the values are not mapped. Otherwise, the right values are collected in a `Both` with
+ * the combined left values if there is any `Both`, or in a `Right` if there is no `Both`.
+ * @param f The function to map each value with.
+ * @param combine The function to combine two left values with.
+ * @returns
+ */
+export function traverse<T, L, R>(
+  f: (value: T, index: number) => These<L, R>,
+  combine: (left1: L, left2: L) => L,
+): (values: Iterable<T>) => These<L, R[]>;
+
+/**
+ * Collect the right values of an array (or tuple) of {@linkcode These}s, combining the left values
+ * using `combine` (see {@linkcode traverse}).
+ * @param theses The {@linkcode These}s to collect.
+ * @param combine The function to combine two left values with.
+ * @returns
+ */
+export function sequence<
+  const Theses extends readonly { readonly _tag: "Left" | "Right" | "Both" }[],
+>(
+  theses: Theses,
+  combine: (left1: LeftOf<Theses[number]>, left2: LeftOf<Theses[number]>) => LeftOf<Theses[number]>,
+): These<LeftOf<Theses[number]>, { -readonly [K in keyof Theses]: RightOf<Theses[K]> }>;
+/**
+ * Collect the right values of an iterable of {@linkcode These}s, combining the left values using
+ * `combine` (see {@linkcode traverse}).
+ * @param theses The {@linkcode These}s to collect.
+ * @param combine The function to combine two left values with.
+ * @returns
+ */
+export function sequence<L, R>(
+  theses: Iterable<These<L, R>>,
+  combine: (left1: L, left2: L) => L,
+): These<L, R[]>;
+/**
+ * Collect the right values of an iterable of {@linkcode These}s, combining the left values using
+ * `combine` (see {@linkcode traverse}).
+ * @param combine The function to combine two left values with.
+ * @returns
+ */
+export function sequence<L>(
+  combine: (left1: L, left2: L) => L,
+): <R>(theses: Iterable<These<L, R>>) => These<L, R[]>;
+
+/**
+ * Get the type of the left value of a {@linkcode These}.
+ * @private
+ */
+type LeftOf<T> = T extends { readonly _tag: "Left" | "Both"; readonly _0: infer L } ? L : never;
+/**
+ * Get the type of the right value of a {@linkcode These}.
+ * @private
+ */
+type RightOf<T> =
+  T extends { readonly _tag: "Right"; readonly _0: infer R } ? R
+  : T extends { readonly _tag: "Both"; readonly _1: infer R } ? R
+  : never;
+
+/**
+ * Get the arguments an HKT is applied with.
+ * @private
+ */
+type Args<F> = F extends { readonly Args: (_: infer A extends unknown[]) => void } ? A : never;
+
+/* Ensure TypeScript treats this file as a module to prevent internal from exportation */
+export {};
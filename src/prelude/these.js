@@ -0,0 +1,261 @@
+import { make } from "../index.js";
+
+const ADT = /** @type {*} */ (/* @__PURE__ */ make(["Left", "Right", "Both"], { name: "These" }));
+
+export const {
+  Both,
+  Left,
+  Right,
+  equals,
+  ifBoth,
+  ifBothAsync,
+  ifLeft,
+  ifLeftAsync,
+  ifRight,
+  ifRightAsync,
+  isBoth,
+  isLeft,
+  isRight,
+  match,
+  matchAsync,
+  matchPattern,
+  matchW,
+  matchWAsync,
+  unwrap,
+  unwrapBoth,
+  unwrapLeft,
+  unwrapRight,
+} = ADT;
+
+/**
+ * Create a `These` from a nullable value, i.e., `Left` with the result of `onNullable` if the
+ * value is `null` or `undefined`, and `Right(value)` otherwise.
+ *
+ * If only `onNullable` is provided, a function accepting the value is returned.
+ * @param {*} value The nullable value.
+ * @param {() => *} [onNullable] The function to create the value of the `Left` with.
+ * @returns {*}
+ */
+export function fromNullable(value, onNullable) {
+  if (!onNullable) {
+    const onNullable = /** @type {*} */ (value);
+    return function fromNullable(value) {
+      return value == null ? Left(onNullable()) : Right(value);
+    };
+  }
+  return value == null ? Left(onNullable()) : Right(value);
+}
+
+/**
+ * Call a function and wrap its result in `Right`, or wrap the thrown error in `Left` (mapped with
+ * `onThrow` if provided).
+ * @param {() => *} f The function to call.
+ * @param {(error: *) => *} [onThrow] The function to map the thrown error with.
+ * @returns {*}
+ */
+export function tryCatch(f, onThrow) {
+  try {
+    return Right(f());
+  } catch (e) {
+    return Left(onThrow ? onThrow(e) : e);
+  }
+}
+
+/**
+ * Map the right value of a `Right` or `Both` with a function, leaving `Left` as is.
+ *
+ * If only `f` is provided, a function accepting the `These` is returned.
+ * @param {*} these The `These` to map.
+ * @param {(right: *) => *} [f] The function to map the right value with.
+ * @returns {*}
+ */
+export function map(these, f) {
+  if (!f) {
+    const f = /** @type {*} */ (these);
+    return function map(these) {
+      return _map(these, f);
+    };
+  }
+  return _map(these, f);
+}
+
+/**
+ * Map the right value of a `Right` or `Both` with a function returning a `These`, leaving `Left`
+ * as is. If a `Both` is mapped, its left value is combined with the left value of the result using
+ * `combine` (i.e., `Both(a, x)` mapped to `Left(b)` gives `Left(combine(a, b))`, and to `Right(y)`
+ * gives `Both(a, y)`), so no left value is lost.
+ *
+ * If only `f` and `combine` are provided, a function accepting the `These` is returned.
+ * @param {*} these The `These` to map.
+ * @param {(right: *) => *} f The function to map the right value with.
+ * @param {(left1: *, left2: *) => *} [combine] The function to combine two left values with.
+ * @returns {*}
+ */
+export function flatMap(these, f, combine) {
+  if (!combine) {
+    const [g, combine] = /** @type {*} */ ([these, f]);
+    return function flatMap(these) {
+      return _flatMap(these, g, combine);
+    };
+  }
+  return _flatMap(these, f, combine);
+}
+
+/**
+ * Map the left value of a `Left` or `Both` with a function, leaving `Right` as is.
+ *
+ * If only `f` is provided, a function accepting the `These` is returned.
+ * @param {*} these The `These` to map.
+ * @param {(left: *) => *} [f] The function to map the left value with.
+ * @returns {*}
+ */
+export function mapLeft(these, f) {
+  if (!f) {
+    const f = /** @type {*} */ (these);
+    return function mapLeft(these) {
+      return _mapLeft(these, f);
+    };
+  }
+  return _mapLeft(these, f);
+}
+
+/**
+ * Get the right value of a `Right` or `Both`, or the result of `onLeft` with the left value if the
+ * `These` is `Left`.
+ *
+ * If only `onLeft` is provided, a function accepting the `These` is returned.
+ * @param {*} these The `These` to get the right value from.
+ * @param {(left: *) => *} [onLeft] The function to call if the `These` is `Left`.
+ * @returns {*}
+ */
+export function getOrElse(these, onLeft) {
+  if (!onLeft) {
+    const onLeft = /** @type {*} */ (these);
+    return function getOrElse(these) {
+      return _getOrElse(these, onLeft);
+    };
+  }
+  return _getOrElse(these, onLeft);
+}
+
+/**
+ * Map each value of an iterable with a function returning a `These`, and collect the right values
+ * of the results. The left values are combined using `combine` in order. If a `Left` is
+ * encountered, the combined left values (including its own) are returned in a `Left`, and the rest
+ * of the values are not mapped. Otherwise, the right values are collected in a `Both` with the
+ * combined left values if there is any `Both`, or in a `Right` if there is no `Both`.
+ *
+ * If only `f` and `combine` are provided, a function accepting the iterable is returned.
+ * @param {Iterable<*>} values The values to map.
+ * @param {(value: *, index: number) => *} f The function to map each value with.
+ * @param {(left1: *, left2: *) => *} [combine] The function to combine two left values with.
+ * @returns {*}
+ */
+export function traverse(values, f, combine) {
+  if (!combine) {
+    const [g, combine] = /** @type {*} */ ([values, f]);
+    return function traverse(values) {
+      return _traverse(values, g, combine);
+    };
+  }
+  return _traverse(values, f, combine);
+}
+
+/**
+ * Collect the right values of an iterable of `These`s, combining the left values using `combine`
+ * (see {@linkcode traverse}).
+ *
+ * If only `combine` is provided, a function accepting the iterable is returned.
+ * @param {Iterable<*>} theses The `These`s to collect.
+ * @param {(left1: *, left2: *) => *} [combine] The function to combine two left values with.
+ * @returns {*}
+ */
+export function sequence(theses, combine) {
+  if (!combine) {
+    const combine = /** @type {*} */ (theses);
+    return function sequence(theses) {
+      return _traverse(theses, (these) => these, combine);
+    };
+  }
+  return _traverse(theses, (these) => these, combine);
+}
+
+/**
+ * The implementation of {@linkcode map}.
+ * @param {*} these The `These` to map.
+ * @param {(right: *) => *} f The function to map the right value with.
+ * @returns {*}
+ */
+function _map(these, f) {
+  if (these._tag === "Right") return Right(f(these._0));
+  if (these._tag === "Both") return Both(these._0, f(these._1));
+  return these;
+}
+
+/**
+ * The implementation of {@linkcode flatMap}.
+ * @param {*} these The `These` to map.
+ * @param {(right: *) => *} f The function to map the right value with.
+ * @param {(left1: *, left2: *) => *} combine The function to combine two left values with.
+ * @returns {*}
+ */
+function _flatMap(these, f, combine) {
+  if (these._tag === "Right") return f(these._0);
+  if (these._tag === "Both") {
+    const result = f(these._1);
+    if (result._tag === "Right") return Both(these._0, result._0);
+    if (result._tag === "Left") return Left(combine(these._0, result._0));
+    return Both(combine(these._0, result._0), result._1);
+  }
+  return these;
+}
+
+/**
+ * The implementation of {@linkcode mapLeft}.
+ * @param {*} these The `These` to map.
+ * @param {(left: *) => *} f The function to map the left value with.
+ * @returns {*}
+ */
+function _mapLeft(these, f) {
+  if (these._tag === "Left") return Left(f(these._0));
+  if (these._tag === "Both") return Both(f(these._0), these._1);
+  return these;
+}
+
+/**
+ * The implementation of {@linkcode getOrElse}.
+ * @param {*} these The `These` to get the right value from.
+ * @param {(left: *) => *} onLeft The function to call if the `These` is `Left`.
+ * @returns {*}
+ */
+function _getOrElse(these, onLeft) {
+  if (these._tag === "Right") return these._0;
+  if (these._tag === "Both") return these._1;
+  return onLeft(these._0);
+}
+
+/**
+ * The implementation of {@linkcode traverse}.
+ * @param {Iterable<*>} values The values to map.
+ * @param {(value: *, index: number) => *} f The function to map each value with.
+ * @param {(left1: *, left2: *) => *} combine The function to combine two left values with.
+ * @returns {*}
+ */
+function _traverse(values, f, combine) {
+  const result = [];
+  let hasLeft = false;
+  let left;
+  let i = 0;
+  for (const value of values) {
+    const these = f(value, i++);
+    if (these._tag === "Right") {
+      result.push(these._0);
+      continue;
+    }
+    left = hasLeft ? combine(left, these._0) : these._0;
+    hasLeft = true;
+    if (these._tag === "Left") return Left(left);
+    result.push(these._1);
+  }
+  return hasLeft ? Both(left, result) : Right(result);
+}
@@ -1,9 +1,17 @@
 import { pipe } from "effect";
-import type { Arg0, Arg1, HKT, HKT2 } from "hkt-core";
-import { describe, equal, expect, it } from "typroof";
-
-import type { Data, Pipeable, Tagged } from "../src";
-import { make, unwrap } from "../src";
+import type { Arg0, Arg1, Arg2, Arg3, HKT, HKT2, HKT3, HKT4 } from "hkt-core";
+import { describe, equal, error, expect, extend, it } from "typroof";
+
+import type {
+  Data,
+  EncodedADT,
+  JSONSchema,
+  Pipeable,
+  StandardSchemaV1,
+  Tagged,
+  ValidationError,
+} from "../src";
+import { P, make, matchN, matchNW, unwrap } from "../src";
 
 describe("Data", () => {
   it("should create non-generic ADTs", () => {
@@ -217,13 +225,17 @@ describe("ADT.<Tag>", () => {
 
     expect(IpAddr.V4).to(
       equal<
-        { readonly _tag: "V4" } & Pipeable &
+        { readonly _tag: "V4"; readonly arity: undefined } & Pipeable &
           ((args_0: number, args_1: number, args_2: number, args_3: number) => IpAddr)
       >,
     );
     expect(IpAddr.V4(127, 0, 0, 1)).to(equal<IpAddr>);
 
-    expect(IpAddr.V6).to(equal<{ readonly _tag: "V6" } & Pipeable & ((args_0: string) => IpAddr)>);
+    expect(IpAddr.V6).to(
+      equal<
+        { readonly _tag: "V6"; readonly arity: undefined } & Pipeable & ((args_0: string) => IpAddr)
+      >,
+    );
     expect(IpAddr.V6("::1")).to(equal<IpAddr>);
   });
 
@@ -239,16 +251,121 @@ describe("ADT.<Tag>", () => {
     }
 
     expect(Option.Some).to(
-      equal<{ readonly _tag: "Some" } & Pipeable & (<T = never>(value: T) => Option<T>)>,
+      equal<
+        { readonly _tag: "Some"; readonly arity: undefined } & Pipeable &
+          (<T = never>(value: T) => Option<T>)
+      >,
     );
     expect(Option.Some(42)).to(equal<Option<number>>);
 
     expect(Option.None).to(
-      equal<{ readonly _tag: "None" } & Pipeable & (<T = never>() => Option<T>)>,
+      equal<
+        { readonly _tag: "None"; readonly arity: undefined } & Pipeable &
+          (<T = never>() => Option<T>)
+      >,
     );
     expect(Option.None()).to(equal<Option<never>>);
     expect(Option.None<number>()).to(equal<Option<number>>);
   });
+
+  it("should generate constructors with declared arities", () => {
+    type IpAddr = Data<{
+      V4: [number, number, number, number];
+      V6: [string];
+    }>;
+
+    const IpAddr = make<IpAddr>({ V4: 4, V6: 1 });
+    expect(IpAddr.V6).to(
+      equal<{ readonly _tag: "V6"; readonly arity: 1 } & Pipeable & ((args_0: string) => IpAddr)>,
+    );
+    expect(IpAddr.V6("::1")).to(equal<IpAddr>);
+    expect(IpAddr.V4.arity).to(equal<4>);
+    expect(IpAddr.arity("V4")).to(equal<4>);
+    expect(IpAddr.arity("V6")).to(equal<1>);
+
+    // @ts-expect-error - `V6` has 1 field
+    expect(make<IpAddr>({ V4: 4, V6: 2 })).to(error);
+    // @ts-expect-error - The arity of `V6` is missing
+    expect(make<IpAddr>({ V4: 4 })).to(error);
+  });
+
+  it("should expose reflection members with runtime variants", () => {
+    type IpAddr = Data<{
+      V4: [number, number, number, number];
+      V6: [string];
+    }>;
+
+    const IpAddr = make<IpAddr>(["V4", "V6"]);
+    expect(IpAddr.tags).to(equal<readonly ("V4" | "V6")[]>);
+    expect(IpAddr.variants.V6).to(equal(IpAddr.V6));
+    expect(IpAddr.arity).to(equal<(tag: "V4" | "V6") => undefined>);
+    // @ts-expect-error - `V5` is not a variant
+    expect(IpAddr.arity("V5")).to(error);
+    expect<typeof IpAddr.labels>().to(
+      equal<{ readonly [tag: string]: readonly string[] } | undefined>,
+    );
+
+    const ProxiedIpAddr = make<IpAddr>();
+    // @ts-expect-error - Not available without runtime variants
+    expect(ProxiedIpAddr.tags).to(error);
+  });
+
+  it("should generate constructors from schemas", () => {
+    type IpAddr = Data<{
+      V4: [number, number, number, number];
+      V6: [string];
+    }>;
+
+    const num = {} as StandardSchemaV1<unknown, number>;
+    const str = {} as StandardSchemaV1<string>;
+
+    const IpAddr = make<IpAddr>({ V4: [num, num, num, num], V6: [str] });
+    expect(IpAddr.V6).to(
+      equal<{ readonly _tag: "V6"; readonly arity: 1 } & Pipeable & ((args_0: string) => IpAddr)>,
+    );
+    expect(IpAddr.V6("::1")).to(equal<IpAddr>);
+
+    const SafeIpAddr = make<IpAddr>({ V4: [num, num, num, num], V6: [str] }, { safe: true });
+    expect(SafeIpAddr.V6("::1")).to(equal<IpAddr | ValidationError>);
+
+    // @ts-expect-error - The schema of `V6` does not match its field
+    expect(make<IpAddr>({ V4: [num, num, num, num], V6: [num] })).to(error);
+    // @ts-expect-error - The schemas of `V6` are missing
+    expect(make<IpAddr>({ V4: [num, num, num, num] })).to(error);
+
+    type Option<T> = Data<{
+      Some: [value: T];
+      None: [];
+    }>;
+    interface OptionHKT extends HKT {
+      return: Option<Arg0<this>>;
+    }
+
+    const SafeOption = make<OptionHKT>({ Some: [num], None: [] }, { safe: true });
+    expect(SafeOption.Some(42)).to(equal<Option<number> | ValidationError>);
+    expect(SafeOption.None()).to(equal<Option<never> | ValidationError>);
+  });
+});
+
+describe("ADT.decode", () => {
+  it("should be available only with runtime variants", () => {
+    type IpAddr = Data<{
+      V4: [number, number, number, number];
+      V6: [string];
+    }>;
+
+    const IpAddr = make<IpAddr>(["V4", "V6"]);
+    expect(IpAddr.decode({ _tag: "V6", _0: "::1" })).to(equal<IpAddr | ValidationError>);
+    expect(IpAddr["~standard"]).to(equal<StandardSchemaV1.Props<unknown, IpAddr>>);
+    expect(IpAddr.encode(IpAddr.V6("::1"))).to(equal<EncodedADT<"V4" | "V6">>);
+    expect(IpAddr.toJSONSchema({ name: "IpAddr" })).to(equal<JSONSchema>);
+
+    const ProxiedIpAddr = make<IpAddr>();
+    // @ts-expect-error - `decode` is not available without runtime variants
+    expect(ProxiedIpAddr.decode).to(error);
+    // @ts-expect-error - `toJSONSchema` is not available without runtime variants
+    expect(ProxiedIpAddr.toJSONSchema).to(error);
+  });
 });
 
 describe("ADT.match(W)", () => {
@@ -284,8 +401,8 @@ describe("ADT.match(W)", () => {
         return `${a}.${b}.${c}.${d}`;
       },
       _: (addr) => {
-        expect(addr).to(equal<IpAddr>);
-        return addr._0 as string;
+        expect(addr).to(equal<Extract<IpAddr, Tagged<"V6">>>);
+        return addr._0;
       },
     });
     expect(addr2).to(equal<string>);
@@ -314,11 +431,11 @@ describe("ADT.match(W)", () => {
         return [a, b, c, d];
       },
       _: (addr) => {
-        expect(addr).to(equal<IpAddr>);
+        expect(addr).to(equal<Extract<IpAddr, Tagged<"V6">>>);
         return addr;
       },
     });
-    expect(addrW2).to(equal<number[] | IpAddr>);
+    expect(addrW2).to(equal<number[] | Extract<IpAddr, Tagged<"V6">>>);
   });
 
   it("should generate curried match functions for non-generic ADTs", () => {
@@ -358,8 +475,8 @@ describe("ADT.match(W)", () => {
           return `${a}.${b}.${c}.${d}`;
         },
         _: (addr) => {
-          expect(addr).to(equal<IpAddr>);
-          return addr._0 as string;
+          expect(addr).to(equal<Extract<IpAddr, Tagged<"V6">>>);
+          return addr._0;
         },
       }),
     );
@@ -394,12 +511,12 @@ describe("ADT.match(W)", () => {
           return [a, b, c, d];
         },
         _: (addr) => {
-          expect(addr).to(equal<IpAddr>);
+          expect(addr).to(equal<Extract<IpAddr, Tagged<"V6">>>);
           return addr;
         },
       }),
     );
-    expect(addrW2).to(equal<number[] | IpAddr>);
+    expect(addrW2).to(equal<number[] | Extract<IpAddr, Tagged<"V6">>>);
   });
 
   it("should generate match functions for generic ADTs", () => {
@@ -435,7 +552,7 @@ describe("ADT.match(W)", () => {
         return `Result: ${value}`;
       },
       _: (res) => {
-        expect(res).to(equal<Result<number, string>>);
+        expect(res).to(equal<Extract<Result<number, string>, Tagged<"Err">>>);
         return "Oops!";
       },
     });
@@ -459,11 +576,11 @@ describe("ADT.match(W)", () => {
         return value;
       },
       _: (res) => {
-        expect(res).to(equal<Result<number, string>>);
+        expect(res).to(equal<Extract<Result<number, string>, Tagged<"Err">>>);
         return res;
       },
     });
-    expect(resultW2).to(equal<number | Result<number, string>>);
+    expect(resultW2).to(equal<number | Extract<Result<number, string>, Tagged<"Err">>>);
   });
 
   it("should generate curried match functions for generic ADTs", () => {
@@ -504,7 +621,7 @@ describe("ADT.match(W)", () => {
           return `Result: ${value}`;
         },
         _: (res) => {
-          expect(res).to(equal<Result<number, string>>);
+          expect(res).to(equal<Extract<Result<number, string>, Tagged<"Err">>>);
           return "Oops!";
         },
       }),
@@ -534,12 +651,593 @@ describe("ADT.match(W)", () => {
           return value;
         },
         _: (res) => {
-          expect(res).to(equal<Result<number, string>>);
+          expect(res).to(equal<Extract<Result<number, string>, Tagged<"Err">>>);
           return res;
         },
       }),
     );
-    expect(resultW2).to(equal<number | Result<number, string>>);
+    expect(resultW2).to(equal<number | Extract<Result<number, string>, Tagged<"Err">>>);
+  });
+
+  it("should preserve generics in match functions for ADTs with more type parameters", () => {
+    type Exchange<Req, Res, Err> = Data<{
+      Pending: [request: Req];
+      Done: [request: Req, response: Res];
+      Failed: [request: Req, error: Err];
+    }>;
+
+    const Exchange = make<ExchangeHKT>();
+    interface ExchangeHKT extends HKT3 {
+      return: Exchange<Arg0<this>, Arg1<this>, Arg2<this>>;
+    }
+
+    const exchange = Exchange.Pending<string, number, Error>("ping");
+
+    const result = Exchange.match(exchange, {
+      Pending: (request) => {
+        expect(request).to(equal<string>);
+        return 0;
+      },
+      Done: (request, response) => {
+        expect(request).to(equal<string>);
+        expect(response).to(equal<number>);
+        return response;
+      },
+      _: (ex) => {
+        expect(ex).to(equal<Extract<Exchange<string, number, Error>, Tagged<"Failed">>>);
+        return -1;
+      },
+    });
+    expect(result).to(equal<number>);
+
+    function responseOr<Req, Res, Err>(ex: Exchange<Req, Res, Err>, fallback: Res) {
+      return Exchange.match<Req, Res, Err, Res>(ex, {
+        Done: (request, response) => {
+          expect(request).to(equal<Req>);
+          expect(response).to(equal<Res>);
+          return response;
+        },
+        _: () => fallback,
+      });
+    }
+    expect(responseOr).to(
+      equal<<Req, Res, Err>(ex: Exchange<Req, Res, Err>, fallback: Res) => Res>,
+    );
+
+    const resultW = pipe(
+      exchange,
+      Exchange.matchW({
+        Done: (_request, response) => {
+          expect(response).to(equal<number>);
+          return response;
+        },
+        Failed: (_request, error) => {
+          expect(error).to(equal<Error>);
+          return error;
+        },
+        _: (ex) => {
+          expect(ex).to(equal<Extract<Exchange<string, number, Error>, Tagged<"Pending">>>);
+          return null;
+        },
+      }),
+    );
+    expect(resultW).to(equal<number | Error | null>);
+
+    type Handler<Req, Res, Err, Ctx> = Data<{
+      Handle: [handle: (request: Req, context: Ctx) => Res];
+      Reject: [error: Err];
+    }>;
+
+    const Handler = make<HandlerHKT>();
+    interface HandlerHKT extends HKT4 {
+      return: Handler<Arg0<this>, Arg1<this>, Arg2<this>, Arg3<this>>;
+    }
+
+    const handler = Handler.Reject<string, number, Error, { user: string }>(new Error("Nope"));
+
+    const resultW2 = Handler.matchW(handler, {
+      Handle: (handle) => {
+        expect(handle).to(equal<(request: string, context: { user: string }) => number>);
+        return handle;
+      },
+      Reject: (error) => {
+        expect(error).to(equal<Error>);
+        return error;
+      },
+    });
+    expect(resultW2).to(equal<((request: string, context: { user: string }) => number) | Error>);
+  });
+
+  it("should narrow the catch-all case to the unhandled variants", () => {
+    type Shape = Data<{
+      Circle: [radius: number];
+      Square: [side: number];
+      Triangle: [a: number, b: number, c: number];
+    }>;
+    const Shape = make<Shape>();
+    type Option<T> = Data<{
+      Some: [value: T];
+      None: [];
+    }>;
+    interface OptionHKT extends HKT {
+      return: Option<Arg0<this>>;
+    }
+    const Option = make<OptionHKT>();
+
+    const shape = null as unknown as Shape;
+    Shape.match(shape, {
+      Circle: () => 0,
+      _: (rest) => {
+        expect(rest).to(equal<Extract<Shape, Tagged<"Square" | "Triangle">>>);
+        return 1;
+      },
+    });
+    pipe(
+      shape,
+      Shape.matchW({
+        Circle: () => 0,
+        Square: () => "square",
+        _: (rest) => {
+          expect(rest).to(equal<Extract<Shape, Tagged<"Triangle">>>);
+          return null;
+        },
+      }),
+    );
+
+    function getOrElse<T>(opt: Option<T>, fallback: T) {
+      return Option.match(opt, {
+        Some: (value) => value,
+        _: (none) => {
+          expect(none).to(equal<Tagged<"None", []>>);
+          return fallback;
+        },
+      });
+    }
+    expect(getOrElse).to(equal<<T>(opt: Option<T>, fallback: T) => T>);
+
+    expect(
+      // @ts-expect-error - All variants are handled, so the catch-all case is stale
+      Shape.match(shape, { Circle: () => 0, Square: () => 1, Triangle: () => 2, _: () => 3 }),
+    ).to(error);
+    expect(
+      // @ts-expect-error - All variants are handled, so the catch-all case is stale
+      Option.matchW(Option.Some(42), { Some: (n) => n, None: () => null, _: () => undefined }),
+    ).to(error);
+  });
+});
+
+describe("ADT.matchNamed", () => {
+  it("should call the cases with the narrowed ADTs", () => {
+    type Result = Data<{
+      Ok: [value: number];
+      Err: [error: string];
+    }>;
+    type Ok = Extract<Result, Tagged<"Ok">> & { readonly value: number };
+
+    const labels = { Ok: ["value"], Err: ["error"] } as const;
+    const Result = make<Result, never, typeof labels>(["Ok", "Err"], { labels });
+    const result = Result.Ok(42);
+
+    const value1 = Result.matchNamed(result, {
+      Ok: (ok) => {
+        expect(ok._0).to(equal<number>);
+        expect(ok.value).to(equal<number>);
+        return ok.value;
+      },
+      Err: ({ error }) => error,
+    });
+    expect(value1).to(equal<string | number>);
+
+    const value2 = Result.matchNamed(result, {
+      Err: () => null,
+      _: (adt) => {
+        expect(adt).to(equal<Ok>);
+        return adt;
+      },
+    });
+    expect(value2).to(equal<Ok | null>);
+
+    const describe = Result.matchNamed({ Ok: () => "ok", Err: () => "err" });
+    expect(describe).to(equal<(adt: Result) => string>);
+
+    // @ts-expect-error - `Err` is not handled
+    expect(Result.matchNamed(result, { Ok: () => 0 })).to(error);
+    expect(
+      // @ts-expect-error - All variants are handled, so the catch-all case is stale
+      Result.matchNamed(result, { Ok: () => 0, Err: () => 1, _: () => 2 }),
+    ).to(error);
+  });
+
+  it("should type the getters named after the labels", () => {
+    type Shape = Data<{
+      Circle: [radius: number];
+      Rectangle: [width: number, height: string];
+      Empty: [];
+    }>;
+
+    const labels = { Circle: ["radius"], Rectangle: ["width", "height"] } as const;
+    const Shape = make<Shape, never, typeof labels>(["Circle", "Rectangle", "Empty"], { labels });
+    expect(Shape.labels).to(equal<typeof labels>);
+
+    const rectangle = Shape.Rectangle(2, "3");
+    if (Shape.isRectangle(rectangle)) {
+      expect(rectangle.width).to(equal<number>);
+      expect(rectangle.height).to(equal<string>);
+      // @ts-expect-error - The getters are read-only
+      expect((rectangle.width = 4)).to(error);
+    }
+    Shape.matchNamed(rectangle, {
+      Circle: ({ radius }) => expect(radius).to(equal<number>),
+      // @ts-expect-error - `Empty` has no labeled fields
+      Empty: ({ radius }) => radius,
+      _: () => {},
+    });
+
+    // @ts-expect-error - The `labels` option has to match the `Labels` type argument
+    expect(make<Shape, never, typeof labels>(["Circle"], {})).to(error);
+    expect(
+      // @ts-expect-error - `Unknown` is not a variant
+      make<Shape, never, { Unknown: ["foo"] }>(["Circle"], { labels: { Unknown: ["foo"] } }),
+    ).to(error);
+
+    const Unlabeled = make<Shape>(["Circle", "Rectangle", "Empty"], { labels });
+    Unlabeled.matchNamed(Unlabeled.Circle(1), {
+      // @ts-expect-error - The getters are not typed without the `Labels` type argument
+      Circle: ({ radius }) => radius,
+      _: () => {},
+    });
+  });
+});
+
+describe("Layout", () => {
+  it("should create ADTs with custom discriminants and field keys", () => {
+    type Action = Data<
+      { Add: [amount: number]; Move: [x: number, y: number]; Reset: [] },
+      { discriminant: "type"; fields: { Add: ["amount"] } }
+    >;
+    type Add = Extract<Action, { type: "Add" }>;
+    type Move = Extract<Action, { type: "Move" }>;
+
+    expect<Add>().to(
+      equal<Tagged<"Add", [amount: number], { discriminant: "type"; fields: { Add: ["amount"] } }>>,
+    );
+    expect<Add["amount"]>().to(equal<number>);
+    expect<Move["_1"]>().to(equal<number>);
+    // Plain objects of the same shape (e.g., from other libraries) are accepted
+    expect<{ type: "Add"; amount: number }>().to(extend<Action>);
+
+    const Action = make<Action>(["Add", "Move", "Reset"], {
+      layout: { discriminant: "type", fields: { Add: ["amount"] } },
+    });
+    expect(Action.Add).to(
+      equal<{ readonly arity: number | undefined } & ((amount: number) => Action)>,
+    );
+    expect(Action.Reset).to(equal<{ readonly arity: number | undefined } & (() => Action)>);
+    expect(Action.unwrapMove(Action.Move(1, 2) as Move)).to(equal<[x: number, y: number]>);
+
+    const action = Action.Move(1, 2);
+    const value1 = Action.match(action, {
+      Add: (amount) => amount,
+      Move: (x, y) => x + y,
+      Reset: () => 0,
+    });
+    expect(value1).to(equal<number>);
+    const value2 = Action.matchW(action, { Add: (amount) => amount, _: (adt) => adt });
+    expect(value2).to(equal<number | Move | Extract<Action, { type: "Reset" }>>);
+    if (Action.isAdd(action)) expect(action).to(equal<Add>);
+
+    // @ts-expect-error - `Reset` is not handled
+    expect(Action.match(action, { Add: () => 0, Move: () => 1 })).to(error);
+    // @ts-expect-error - `_tag` is not the discriminant
+    expect(Action.Add(1)._tag).to(error);
+  });
+
+  it("should create generic ADTs with custom layouts", () => {
+    type Option<T> = Data<{ Some: [value: T]; None: [] }, { fields: { Some: ["value"] } }>;
+    interface OptionHKT extends HKT {
+      return: Option<Arg0<this>>;
+    }
+
+    const Option = make<OptionHKT>(
+      { Some: 1, None: 0 },
+      { layout: { fields: { Some: ["value"] } } },
+    );
+    const some = Option.Some(42);
+    expect(some).to(equal<Option<number>>);
+    expect<{ _tag: "Some"; value: number }>().to(extend<Option<number>>);
+    expect(Option.None()).to(equal<Option<never>>);
+    expect(Option.match(some, { Some: (value) => value, None: () => 0 })).to(equal<number>);
+    const value = Option.ifSome(some, (value) => value);
+    expect(value).to(equal<number | void>);
+    expect(Option.layout).to(equal<{ fields: { Some: ["value"] } }>);
+  });
+});
+
+describe("ADT.matchPattern", () => {
+  it("should infer bound values and results from patterns", () => {
+    type Option<T> = Data<{
+      Some: [value: T];
+      None: [];
+    }>;
+    type Result<T, E> = Data<{
+      Ok: [value: T];
+      Err: [error: E];
+    }>;
+
+    const Option = make<OptionHKT>();
+    interface OptionHKT extends HKT {
+      return: Option<Arg0<this>>;
+    }
+
+    function describe<T, E>(value: Option<Result<T, E>>) {
+      return Option.matchPattern(value)
+        .case(P.tag("Some", P.tag("Ok", P.bind)), (value) => {
+          expect(value).to(equal<T>);
+          return value;
+        })
+        .case(P.tag("Some", P.tag("Err", P.bind)), (error) => {
+          expect(error).to(equal<E>);
+          return null;
+        })
+        .case(Option.None, () => "nothing" as const)
+        .exhaustive();
+    }
+    expect(describe<number, string>).to(
+      equal<(value: Option<Result<number, string>>) => number | "nothing" | null>,
+    );
+
+    type Shape = Data<{
+      Circle: [radius: number];
+      Rectangle: [width: number, height: number];
+    }>;
+    const Shape = make<Shape>();
+
+    Shape.matchPattern(Shape.Circle(1))
+      .case(P.tag("Rectangle", P.bind, 2), (width) => {
+        expect(width).to(equal<number>);
+      })
+      .case(P.tag("Rectangle", P._, P.bind), (height) => {
+        expect(height).to(equal<number>);
+      })
+      .case(
+        P.tag("Circle", P.bind),
+        (radius) => {
+          expect(radius).to(equal<number>);
+          return radius > 0;
+        },
+        () => {},
+      )
+      .otherwise((shape) => {
+        expect(shape).to(equal<Tagged<"Circle", [radius: number]>>);
+      });
+  });
+
+  it("should check exhaustiveness", () => {
+    type Option<T> = Data<{
+      Some: [value: T];
+      None: [];
+    }>;
+    type Result<T, E> = Data<{
+      Ok: [value: T];
+      Err: [error: E];
+    }>;
+    type Err<E> = Extract<Result<never, E>, Tagged<"Err">>;
+    type Some<T> = Extract<Option<T>, Tagged<"Some">>;
+    type None = Extract<Option<never>, Tagged<"None">>;
+
+    const Option = make<OptionHKT>();
+    interface OptionHKT extends HKT {
+      return: Option<Arg0<this>>;
+    }
+
+    const Result = make<ResultHKT>();
+    interface ResultHKT extends HKT2 {
+      return: Result<Arg0<this>, Arg1<this>>;
+    }
+
+    const value = Option.Some(Result.Ok<number, string>(42));
+
+    const matcher = Option.matchPattern(value).case(P.tag("Some", P.tag("Ok", 0)), () => 0);
+    matcher.otherwise((rest) => {
+      expect(rest).to(equal<Option<Result<number, string>>>);
+    });
+    // @ts-expect-error - Only `Some(Ok(0))` is handled
+    expect(matcher.exhaustive()).to(error);
+
+    const matcher2 = matcher.case(P.tag("Some", P.tag("Ok", P._)), () => 1);
+    matcher2.otherwise((rest) => {
+      expect(rest).to(equal<(Some<Result<number, string>> & { readonly _0: Err<string> }) | None>);
+    });
+
+    const matcher3 = matcher2
+      // Cases with guards do not handle anything
+      .case(
+        P.tag("Some", P.bind),
+        () => true,
+        () => 2,
+      )
+      .case(P.tag("Some", P.tag("Err", P._)), () => 3);
+    matcher3.otherwise((rest) => {
+      expect(rest).to(equal<None>);
+    });
+    // @ts-expect-error - `None` is not handled
+    expect(matcher3.exhaustive()).to(error);
+
+    expect(matcher3.case(P.tag("None"), () => 4).exhaustive()).to(equal<number>);
+    expect(matcher3.case(P._, () => "other").exhaustive()).to(equal<number | string>);
+  });
+});
+
+describe("matchN(W)", () => {
+  type State = Data<{
+    Idle: [];
+    Running: [since: number];
+  }>;
+  type Event = Data<{
+    Start: [at: number];
+    Stop: [];
+  }>;
+
+  it("should narrow the ADTs by the key and check exhaustiveness", () => {
+    const State = make<State>();
+
+    const transition = (state: State, event: Event) =>
+      matchN([state, event], {
+        "Idle,Start": (state, event) => {
+          expect(state).to(equal<Tagged<"Idle", []>>);
+          expect(event).to(equal<Tagged<"Start", [at: number]>>);
+          return State.Running(event._0);
+        },
+        "_,Stop": (state, event) => {
+          expect(state).to(equal<State>);
+          expect(event).to(equal<Tagged<"Stop", []>>);
+          return State.Idle();
+        },
+        "Running,_": (state) => state,
+      });
+    expect(transition).to(equal<(state: State, event: Event) => State>);
+
+    const describe = (state: State, event: Event) =>
+      matchNW([state, event], {
+        "Idle,Start": (_, event) => event._0,
+        _: (state, event) => {
+          expect(state).to(equal<State>);
+          expect(event).to(equal<Event>);
+          return null;
+        },
+      });
+    expect(describe).to(equal<(state: State, event: Event) => number | null>);
+
+    const state = null as unknown as State;
+    const event = null as unknown as Event;
+    // @ts-expect-error - `Running,Start` and `Running,Stop` are not handled
+    expect(matchN([state, event], { "Idle,_": () => 0 })).to(error);
+    // @ts-expect-error - `Idle,Foo` is not a valid key
+    expect(matchNW([state, event], { "Idle,Foo": () => 0, _: () => 1 })).to(error);
+  });
+
+  it("should generate curried match functions", () => {
+    const state = null as unknown as State;
+    const event = null as unknown as Event;
+
+    const result = pipe(
+      [state, event] as const,
+      matchN({
+        "Running,Start": (state, event) => {
+          expect(state).to(equal<Tagged<"Running", [since: number]>>);
+          expect(event).to(equal<Tagged<"Start", [at: number]>>);
+          return event._0 - state._0;
+        },
+        _: () => 0,
+      }),
+    );
+    expect(result).to(equal<number>);
+
+    const resultW = pipe(
+      [state, event] as const,
+      matchNW({
+        "Running,_": (state) => state._0,
+        "Idle,_": (_, event) => event,
+      }),
+    );
+    expect(resultW).to(equal<number | Event>);
+  });
+});
+
+describe("ADT.match(W)Async", () => {
+  type Option<T> = Data<{
+    Some: [value: T];
+    None: [];
+  }>;
+  interface OptionHKT extends HKT {
+    return: Option<Arg0<this>>;
+  }
+
+  it("should accept promises of ADTs and flatten the results", () => {
+    const Option = make<OptionHKT>();
+    const opt = null as unknown as Promise<Option<number>>;
+
+    const result = Option.matchAsync(opt, {
+      Some: (n) => {
+        expect(n).to(equal<number>);
+        return Promise.resolve(String(n));
+      },
+      None: () => "none",
+    });
+    expect(result).to(equal<Promise<string>>);
+
+    const resultW = Option.matchWAsync(opt, {
+      Some: (n) => Promise.resolve(n),
+      _: (opt) => {
+        expect(opt).to(equal<Extract<Option<number>, Tagged<"None">>>);
+        return "none" as const;
+      },
+    });
+    expect(resultW).to(equal<Promise<number | "none">>);
+
+    // @ts-expect-error - `None` is not handled
+    expect(Option.matchAsync(opt, { Some: (n) => Promise.resolve(n) })).to(error);
+  });
+
+  it("should generate curried async match functions", () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+    const opt = null as unknown as Option<number>;
+
+    const result = pipe(
+      Promise.resolve(opt),
+      Option.matchAsync({
+        Some: (n) => {
+          expect(n).to(equal<number>);
+          return Promise.resolve(n);
+        },
+        _: () => 0,
+      }),
+    );
+    expect(result).to(equal<Promise<number>>);
+
+    const resultW = opt.pipe(
+      Option.matchWAsync({ Some: (n) => n > 0, None: () => Promise.resolve(null) }),
+    );
+    expect(resultW).to(equal<Promise<boolean | null>>);
+  });
+});
+
+describe("ADT.if*Async", () => {
+  type Option<T> = Data<{
+    Some: [value: T];
+    None: [];
+  }>;
+  interface OptionHKT extends HKT {
+    return: Option<Arg0<this>>;
+  }
+
+  it("should generate async conditional deconstructors", () => {
+    const Option = make<OptionHKT>();
+    const opt = null as unknown as Promise<Option<number>>;
+
+    const result1 = Option.ifSomeAsync(opt, (n) => {
+      expect(n).to(equal<number>);
+      return Promise.resolve(String(n));
+    });
+    expect(result1).to(equal<Promise<string | void>>);
+    const result2 = Option.ifSomeAsync(
+      opt,
+      (n) => n,
+      (none) => {
+        expect(none).to(equal<Tagged<"None", []>>);
+        return Promise.resolve(null);
+      },
+    );
+    expect(result2).to(equal<Promise<number | null>>);
+
+    const result3 = pipe(
+      opt,
+      Option.ifSomeAsync(
+        (n) => String(n),
+        () => 0,
+      ),
+    );
+    expect(result3).to(equal<Promise<string | number>>);
   });
 });
 
@@ -750,4 +1448,44 @@ describe("ADT.if*", () => {
     );
     expect(result4).to(equal<string | Error | Ok<number>>);
   });
+
+  it("should preserve generics in optional deconstructors for ADTs with more type parameters", () => {
+    type Exchange<Req, Res, Err> = Data<{
+      Pending: [request: Req];
+      Done: [request: Req, response: Res];
+      Failed: [request: Req, error: Err];
+    }>;
+
+    type Pending<Req> = Extract<Exchange<Req, unknown, unknown>, Tagged<"Pending">>;
+    type Failed<Req, Err> = Extract<Exchange<Req, unknown, Err>, Tagged<"Failed">>;
+
+    const Exchange = make<ExchangeHKT>();
+    interface ExchangeHKT extends HKT3 {
+      return: Exchange<Arg0<this>, Arg1<this>, Arg2<this>>;
+    }
+
+    const exchange = Exchange.Done<string, number, Error>("ping", 42);
+
+    const result1 = Exchange.ifDone(exchange, (request, response) => {
+      expect(request).to(equal<string>);
+      expect(response).to(equal<number>);
+      return response;
+    });
+    expect(result1).to(equal<number | void>);
+    const result2 = Exchange.ifDone(
+      exchange,
+      (_request, response) => response,
+      (ex) => {
+        expect(ex).to(equal<Pending<string> | Failed<string, Error>>);
+        return ex;
+      },
+    );
+    expect(result2).to(equal<number | Pending<string> | Failed<string, Error>>);
+
+    const result3 = Exchange.ifFailed<string, number, Error, Error>(exchange, (_request, error) => {
+      expect(error).to(equal<Error>);
+      return error;
+    });
+    expect(result3).to(equal<Error | void>);
+  });
 });
@@ -1,6 +1,6 @@
 import { pipe } from "effect";
 import type { Arg0, Arg1, HKT, HKT2 } from "hkt-core";
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 
 import type { Data, Tagged } from "../src";
 import { make, unwrap } from "../src";
@@ -18,6 +18,36 @@ describe("ADT.<Tag>", () => {
     expect(IpAddr.V6("::1")).toEqual({ _tag: "V6", _0: "::1" });
   });
 
+  it("should return memoized functions without runtime variants", () => {
+    type Option<T> = Data<{
+      Some: [value: T];
+      None: [];
+    }>;
+
+    const Option = make<OptionHKT>();
+    interface OptionHKT extends HKT {
+      return: Option<Arg0<this>>;
+    }
+
+    expect(Option.None).toBe(Option.None);
+    expect(Option.Some).toBe(Option.Some);
+    expect(Option.isSome).toBe(Option.isSome);
+    expect(Option.ifSome).toBe(Option.ifSome);
+    expect(Option.unwrapSome).toBe(Option.unwrapSome);
+
+    const set = new Set<Option<number>>([Option.None]);
+    expect(set.has(Option.None)).toBe(true);
+
+    // Destructured functions are the same as those accessed from the ADT
+    const { None, Some } = Option;
+    expect(None).toBe(Option.None);
+    expect(Some).toBe(Option.Some);
+
+    // Different ADTs do not share their generated functions
+    const Option2 = make<OptionHKT>();
+    expect(Option2.None).not.toBe(Option.None);
+  });
+
   it("should generate constructors with runtime variants", () => {
     type Option<T> = Data<{
       Some: [value: T];
@@ -34,6 +64,61 @@ describe("ADT.<Tag>", () => {
     expect(Option.None()).toEqual({ _tag: "None" });
   });
 
+  it("should expose and enforce the arities of constructors", () => {
+    type IpAddr = Data<{
+      V4: [number, number, number, number];
+      V6: [string];
+    }>;
+
+    // Declared arities
+    const IpAddr = make<IpAddr>({ V4: 4, V6: 1 });
+    expect(IpAddr.V4.arity).toBe(4);
+    expect(IpAddr.V6.arity).toBe(1);
+    expect(IpAddr.V6("::1")).toEqual({ _tag: "V6", _0: "::1" });
+    expect(() =>
+      (IpAddr.V6 as (...args: unknown[]) => IpAddr)(),
+    ).toThrowErrorMatchingInlineSnapshot(
+      `[TypeError: Expected 1 argument for \`V6(...)\`, but got 0]`,
+    );
+    expect(IpAddr.unwrap(IpAddr.V4(127, 0, 0, 1))).toEqual([127, 0, 0, 1]);
+    expect(IpAddr.encode(IpAddr.V6("::1"))).toEqual({ _tag: "V6", _0: "::1" });
+
+    // Arities are neither learned nor enforced unless declared, both with and without runtime
+    // variants
+    for (const IpAddr of [make<IpAddr>(["V4", "V6"]), make<IpAddr>()]) {
+      const V6 = IpAddr.V6 as (...args: unknown[]) => IpAddr;
+      expect(V6("::1")).toEqual({ _tag: "V6", _0: "::1" });
+      expect(IpAddr.V6.arity).toBe(undefined);
+      expect(V6("::1", "foo")).toEqual({ _tag: "V6", _0: "::1", _1: "foo" });
+      expect(V6()).toEqual({ _tag: "V6" });
+      expect(IpAddr.unwrap(IpAddr.V6("::1"))).toEqual(["::1"]);
+    }
+
+    // ADTs with unexpected arities (e.g., created manually) are still unwrapped correctly
+    expect(IpAddr.unwrap({ _tag: "V6", _0: "::1", _1: "foo" } as never)).toEqual(["::1", "foo"]);
+    expect(IpAddr.unwrap({ _tag: "V6" } as never)).toEqual([]);
+  });
+
+  it("should not enforce declared arities in production mode", () => {
+    type Option = Data<{
+      Some: [value: number];
+      None: [];
+    }>;
+    const Option = make<Option>({ Some: 1, None: 0 });
+    const Some = Option.Some as (...args: unknown[]) => Option;
+
+    vi.stubEnv("NODE_ENV", "production");
+    try {
+      expect(Some()).toEqual({ _tag: "Some" });
+      expect(Some(1, 2)).toEqual({ _tag: "Some", _0: 1, _1: 2 });
+    } finally {
+      vi.unstubAllEnvs();
+    }
+    expect(() => Some()).toThrowErrorMatchingInlineSnapshot(
+      `[TypeError: Expected 1 argument for \`Some(...)\`, but got 0]`,
+    );
+  });
+
   it("should generate constructors that creates pipeable ADTs", () => {
     type Result<T, E> = Data<{
       Ok: [value: T];
@@ -302,6 +387,92 @@ describe("ADT.match(W)", () => {
     );
     expect(resultW2).toEqual(42);
   });
+
+  it("should pass the fields of ADTs of any arity to curried match functions", () => {
+    type Value = Data<{
+      Nothing: [];
+      One: [unknown];
+      Five: [number, number, number, number, number];
+    }>;
+    const Value = make<Value>();
+
+    const fields = Value.matchW({
+      Nothing: (...args) => args,
+      One: (...args) => args,
+      Five: (...args) => args,
+    });
+    expect(fields(Value.Nothing)).toEqual([]);
+    expect(fields(Value.Nothing())).toEqual([]);
+    expect(fields(Value.One(undefined))).toEqual([undefined]);
+    expect(fields(Value.One(42))).toEqual([42]);
+    expect(fields(Value.Five(1, 2, 3, 4, 5))).toEqual([1, 2, 3, 4, 5]);
+    expect(fields(Value.Five(5, 4, 3, 2, 1))).toEqual([5, 4, 3, 2, 1]);
+
+    // ADTs with unexpected arities (e.g., created manually) are still matched correctly
+    expect(fields({ _tag: "One" } as never)).toEqual([]);
+    expect(fields({ _tag: "One", _0: 1, _1: 2 } as never)).toEqual([1, 2]);
+    expect(fields(Value.One(42))).toEqual([42]);
+  });
+
+  it("should reject unknown cases with runtime variants in development mode", async () => {
+    type Option = Data<{
+      Some: [value: number];
+      None: [];
+    }>;
+    const Option = make<Option>(["Some", "None"]);
+
+    expect(() =>
+      Option.match(Option.Some(42), { Smoe: (n: number) => n, None: () => 0 } as never),
+    ).toThrowErrorMatchingInlineSnapshot(
+      `[TypeError: Unknown case \`Smoe\` passed to \`match\`, expected \`Some\`/\`None\` or \`_\`. Did you mean \`Some\`?]`,
+    );
+    expect(() =>
+      Option.matchW({ Some: (n: number) => n, Nothing: () => 0 } as never),
+    ).toThrowErrorMatchingInlineSnapshot(
+      `[TypeError: Unknown case \`Nothing\` passed to \`matchW\`, expected \`Some\`/\`None\` or \`_\`]`,
+    );
+    expect(() =>
+      Option.matchAsync({ Some: (n: number) => n, none: () => 0 } as never),
+    ).toThrowErrorMatchingInlineSnapshot(
+      `[TypeError: Unknown case \`none\` passed to \`matchAsync\`, expected \`Some\`/\`None\` or \`_\`. Did you mean \`None\`?]`,
+    );
+    await expect(
+      Option.matchWAsync(Option.None(), { Some: (n: number) => n, Non: () => 0 } as never),
+    ).rejects.toThrowErrorMatchingInlineSnapshot(
+      `[TypeError: Unknown case \`Non\` passed to \`matchWAsync\`, expected \`Some\`/\`None\` or \`_\`. Did you mean \`None\`?]`,
+    );
+
+    // Cases of curried match functions are checked only once
+    const keys = vi.spyOn(Object, "keys");
+    const getOrZero = Option.match({ Some: (n) => n, _: () => 0 });
+    expect(keys).toHaveBeenCalledTimes(1);
+    expect(getOrZero(Option.Some(42))).toBe(42);
+    expect(getOrZero(Option.None())).toBe(0);
+    expect(keys).toHaveBeenCalledTimes(1);
+    keys.mockRestore();
+  });
+
+  it("should not check cases in production mode", () => {
+    type Option = Data<{
+      Some: [value: number];
+      None: [];
+    }>;
+    const Option = make<Option>(["Some", "None"]);
+
+    // The environment is checked on every call, so that bundlers can replace it with a constant
+    vi.stubEnv("NODE_ENV", "production");
+    try {
+      const cases = { Smoe: () => 42, _: () => 0 } as never;
+      expect(Option.match(Option.None(), cases)).toBe(0);
+      expect(Option.matchW(cases)(Option.None())).toBe(0);
+      expect(Option.matchNamed(Option.None(), cases)).toBe(0);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+    expect(() => Option.match(Option.None(), { Smoe: () => 42, _: () => 0 } as never)).toThrow(
+      TypeError,
+    );
+  });
 });
 
 describe("ADT.if*", () => {
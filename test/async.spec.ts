@@ -0,0 +1,146 @@
+import { pipe } from "effect";
+import type { Arg0, HKT } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data } from "../src";
+import { make } from "../src";
+
+type Option<T> = Data<{
+  Some: [value: T];
+  None: [];
+}>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+describe("ADT.match(W)Async", () => {
+  it("should match ADTs and promises of ADTs without runtime variants", async () => {
+    const { None, Some, matchAsync, matchWAsync } = make<OptionHKT>();
+
+    const double = (opt: Option<number> | Promise<Option<number>>) =>
+      matchAsync(opt, {
+        Some: async (n) => (await sleep(1), n * 2),
+        None: () => 0,
+      });
+    const result = double(Some(21));
+    expect(result).toBeInstanceOf(Promise);
+    expect(await result).toBe(42);
+    expect(await double(Promise.resolve(Some(1)))).toBe(2);
+    expect(await double(None)).toBe(0);
+
+    expect(
+      await matchWAsync(Promise.resolve(None), {
+        Some: (n) => Promise.resolve(n),
+        _: () => "none",
+      }),
+    ).toBe("none");
+  });
+
+  it("should generate curried match functions", async () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+
+    expect(
+      await Option.Some(21).pipe(
+        Option.matchAsync({ Some: (n) => Promise.resolve(n * 2), None: () => 0 }),
+      ),
+    ).toBe(42);
+    expect(
+      await pipe(
+        Promise.resolve(Option.Some(1)),
+        Option.matchWAsync({ Some: (n) => Promise.resolve(n), _: () => null }),
+      ),
+    ).toBe(1);
+    expect(
+      await pipe(
+        Option.None<number>(),
+        Option.matchWAsync({ Some: (n) => Promise.resolve(n), _: () => null }),
+      ),
+    ).toBe(null);
+  });
+
+  it("should reject instead of throwing", async () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+
+    const result = Option.matchAsync({ _tag: "Ok", _0: 1 } as never, {
+      Some: () => 0,
+      None: () => 0,
+    });
+    expect(result).toBeInstanceOf(Promise);
+    await expect(result).rejects.toThrowErrorMatchingInlineSnapshot(
+      `[VariantMismatchError: Expected \`Some(...)\`/\`None(...)\`, but got \`{ _tag: "Ok", _0: 1 }\`]`,
+    );
+    await expect(
+      Option.matchAsync(Promise.resolve(Option.Some(1)), {} as never),
+    ).rejects.toThrowErrorMatchingInlineSnapshot(
+      `[MatchError: No case found for \`Some(1)\`. Consider adding a catch-all case (\`_\`) if needed]`,
+    );
+    await expect(
+      Option.matchAsync(Option.None, {
+        Some: () => 0,
+        None: () => Promise.reject(new Error("foo")),
+      }),
+    ).rejects.toThrow("foo");
+    await expect(
+      Option.matchAsync(Promise.reject<Option<number>>(new Error("bar")), { _: () => 0 }),
+    ).rejects.toThrow("bar");
+  });
+});
+
+describe("ADT.if*Async", () => {
+  it("should generate async conditional deconstructors without runtime variants", async () => {
+    const { None, Some, ifNoneAsync, ifSomeAsync } = make<OptionHKT>();
+
+    expect(await ifSomeAsync(Promise.resolve(Some(42)), (n) => Promise.resolve(n + 1))).toBe(43);
+    expect(await ifSomeAsync(None, (n) => n)).toBe(undefined);
+    expect(
+      await ifSomeAsync(
+        Promise.resolve(None),
+        (n) => n,
+        () => Promise.resolve("none"),
+      ),
+    ).toBe("none");
+    expect(await ifNoneAsync(Some(1), () => "none")).toBe(undefined);
+  });
+
+  it("should generate async conditional deconstructors with runtime variants", async () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+
+    expect(Option.ifSomeAsync.name).toBe("ifSomeAsync");
+    expect(await Option.ifSomeAsync(Option.Some(42), (n) => Promise.resolve(n + 1))).toBe(43);
+    expect(await Option.ifNoneAsync(Promise.resolve(Option.None()), () => "none")).toBe("none");
+  });
+
+  it("should generate curried async conditional deconstructors", async () => {
+    const { None, Some, ifSomeAsync } = make<OptionHKT>();
+
+    expect(
+      await Some(42).pipe(
+        ifSomeAsync(
+          (n) => n,
+          () => 0,
+        ),
+      ),
+    ).toBe(42);
+    expect(
+      await pipe(
+        Promise.resolve(None<number>()),
+        ifSomeAsync(
+          (n) => n,
+          () => Promise.resolve(0),
+        ),
+      ),
+    ).toBe(0);
+  });
+
+  it("should reject variants whose async conditional deconstructors collide", () => {
+    type Event = Data<{ Load: []; LoadAsync: [] }>;
+
+    expect(() => make<Event>(["Load", "LoadAsync"])).toThrowErrorMatchingInlineSnapshot(
+      `[TypeError: The variants \`Load\` and \`LoadAsync\` cannot be used together, since both would generate \`ifLoadAsync\`]`,
+    );
+    expect(() => make<Event>({ LoadAsync: 0, Load: 0 })).toThrow(TypeError);
+    expect(make<Event>(["LoadAsync"]).ifLoadAsync.name).toBe("ifLoadAsync");
+  });
+});
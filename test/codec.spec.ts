@@ -0,0 +1,168 @@
+import type { Arg0, HKT } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data, StandardSchemaV1 } from "../src";
+import { ADTProto, ValidationError, make } from "../src";
+
+const number: StandardSchemaV1<unknown, number> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) =>
+      typeof value === "number" ? { value } : { issues: [{ message: "expected number" }] },
+  },
+};
+
+type Option<T> = Data<{
+  Some: [value: T];
+  None: [];
+}>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+type Tree = Data<{
+  Node: { 0: Tree; 1: Tree; 2: number };
+  Empty: [];
+}>;
+const Tree = make<Tree>({ Node: [() => Tree, () => Tree, number], Empty: [] });
+
+describe("ADT.encode", () => {
+  it("should encode ADTs as plain JSON objects recursively", () => {
+    const { None, Some, encode } = make<OptionHKT>(["Some", "None"]);
+
+    const encoded = encode(Some([Some(1), None, { value: None() }]));
+    expect(encoded).toStrictEqual({
+      _tag: "Some",
+      _0: [{ _tag: "Some", _0: 1 }, { _tag: "None" }, { value: { _tag: "None" } }],
+    });
+    expect(Object.getPrototypeOf(encoded)).toBe(Object.prototype);
+    expect(encode(None)).toStrictEqual({ _tag: "None" });
+  });
+
+  it("should be available without runtime variants", () => {
+    const { Some, encode } = make<OptionHKT>();
+
+    expect(encode(Some(Some(42)))).toStrictEqual({ _tag: "Some", _0: { _tag: "Some", _0: 42 } });
+  });
+
+  it("should reject circular references", () => {
+    const { Some, encode } = make<OptionHKT>(["Some", "None"]);
+
+    const value: unknown[] = [];
+    value.push(Some(value));
+    expect(() => encode(Some(value))).toThrowErrorMatchingInlineSnapshot(
+      `[TypeError: Cannot encode circular structure \`[Some([Circular])]\`]`,
+    );
+  });
+});
+
+describe("ADT.decode", () => {
+  it("should decode valid input", () => {
+    const { None, Some, decode } = make<OptionHKT>(["Some", "None"]);
+
+    const decoded = decode({ _tag: "Some", _0: 42 });
+    expect(decoded).toEqual(Some(42));
+    expect(Object.getPrototypeOf(decoded)).toBe(ADTProto);
+    expect(decode({ _tag: "None" })).toBe(None);
+    expect(decode(JSON.parse(JSON.stringify(Some({ _tag: "None" }))))).toEqual(
+      Some({ _tag: "None" }),
+    );
+  });
+
+  it("should check the tag against the variants", () => {
+    const { decode } = make<OptionHKT>(["Some", "None"]);
+
+    for (const input of [null, 42, "Some", {}, { _tag: "Ok", _0: 42 }]) {
+      const error = decode(input);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).message).toBe("$: expected Some(...)|None(...)");
+    }
+  });
+
+  it("should check the arity and fields with schemas", () => {
+    expect(Tree.decode({ _tag: "Node", _0: { _tag: "Empty" } })).toMatchInlineSnapshot(
+      `[ValidationError: $: expected 3 fields for \`Node(...)\`, but got 1]`,
+    );
+    expect(
+      Tree.decode({ _tag: "Node", _0: { _tag: "Empty" }, _1: { _tag: "Empty" }, _2: "42" }),
+    ).toMatchInlineSnapshot(`[ValidationError: $._2: expected number]`);
+  });
+
+  it("should check the arity if declared", () => {
+    const { None, Some, decode } = make<OptionHKT>({ Some: 1, None: 0 });
+
+    expect(decode({ _tag: "None" })).toBe(None);
+    expect(decode({ _tag: "Some", _0: 1 })).toEqual(Some(1));
+    expect(decode({ _tag: "Some" })).toMatchInlineSnapshot(
+      `[ValidationError: $: expected 1 field for \`Some(...)\`, but got 0]`,
+    );
+    expect(decode({ _tag: "Some", _0: 1, _1: 2 })).toMatchInlineSnapshot(
+      `[ValidationError: $: expected 1 field for \`Some(...)\`, but got 2]`,
+    );
+    expect(decode({ _tag: "None", _0: 1 })).toMatchInlineSnapshot(
+      `[ValidationError: $: expected 0 fields for \`None(...)\`, but got 1]`,
+    );
+    expect(decode(42)).toMatchInlineSnapshot(`[ValidationError: $: expected Some(...)|None]`);
+  });
+
+  it("should decode nested ADTs recursively with path-aware errors", () => {
+    const tree = Tree.Node(Tree.Empty, Tree.Node(Tree.Empty, Tree.Empty, 2), 1);
+
+    const decoded = Tree.decode(JSON.parse(JSON.stringify(Tree.encode(tree))));
+    expect(decoded).toEqual(tree);
+    expect(Object.getPrototypeOf((decoded as Tree & { _tag: "Node" })._1)).toBe(ADTProto);
+
+    const error = Tree.decode({
+      _tag: "Node",
+      _0: { _tag: "Empty" },
+      _1: { _tag: "Node", _0: { _tag: "Leaf" }, _1: { _tag: "Empty" }, _2: 2 },
+      _2: 1,
+    });
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).path).toBe("$._1._0");
+    expect((error as ValidationError).message).toBe("$._1._0: expected Node(...)|Empty");
+  });
+
+  it("should validate nested ADTs in constructors", () => {
+    expect(() =>
+      Tree.Node(Tree.Empty, { _tag: "Leaf" } as never, 1),
+    ).toThrowErrorMatchingInlineSnapshot(`[ValidationError: $._1: expected Node(...)|Empty]`);
+    expect(Tree.Node(Tree.Empty, Tree.Node(Tree.Empty, Tree.Empty, 2), 1)).toEqual({
+      _tag: "Node",
+      _0: Tree.Empty,
+      _1: { _tag: "Node", _0: Tree.Empty, _1: Tree.Empty, _2: 2 },
+      _2: 1,
+    });
+  });
+
+  it("should not be available without runtime variants", () => {
+    const Option = make<OptionHKT>();
+
+    expect(
+      () => (Option as unknown as { decode: unknown }).decode,
+    ).toThrowErrorMatchingInlineSnapshot(
+      `[TypeError: \`decode\` is not available for ADTs created without variants. Pass the variants (or field schemas) to \`make\` to use it]`,
+    );
+  });
+});
+
+describe("ADT[~standard]", () => {
+  it("should implement Standard Schema", () => {
+    const { Some, ...Option } = make<OptionHKT>(["Some", "None"]);
+
+    expect(Option["~standard"].vendor).toBe("kind-adt");
+    expect(Option["~standard"].validate({ _tag: "Some", _0: 42 })).toEqual({ value: Some(42) });
+    expect(Tree["~standard"].validate({ _tag: "Node", _0: 42 })).toEqual({
+      issues: [{ message: "expected 3 fields for `Node(...)`, but got 1" }],
+    });
+    expect(
+      Tree["~standard"].validate({
+        _tag: "Node",
+        _0: { _tag: "Empty" },
+        _1: { _tag: "Node", _0: 42, _1: { _tag: "Empty" }, _2: 2 },
+        _2: 1,
+      }),
+    ).toEqual({ issues: [{ message: "expected Node(...)|Empty", path: ["_1", "_0"] }] });
+  });
+});
@@ -0,0 +1,199 @@
+import type { Arg0, Arg1, HKT, HKT2 } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data } from "../src";
+import { equals, equalsSymbol, make } from "../src";
+
+type Option<T> = Data<{
+  Some: [value: T];
+  None: [];
+}>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+type Result<T, E> = Data<{
+  Ok: [value: T];
+  Err: [error: E];
+}>;
+interface ResultHKT extends HKT2 {
+  return: Result<Arg0<this>, Arg1<this>>;
+}
+
+describe("equals", () => {
+  it("should compare primitive values", () => {
+    expect(equals(42, 42)).toBe(true);
+    expect(equals(42, 43)).toBe(false);
+    expect(equals("foo", "foo")).toBe(true);
+    expect(equals(42, "42")).toBe(false);
+    expect(equals(NaN, NaN)).toBe(true);
+    expect(equals(0, -0)).toBe(true);
+    expect(equals(42n, 42n)).toBe(true);
+    expect(equals(null, null)).toBe(true);
+    expect(equals(null, undefined)).toBe(false);
+    expect(equals(undefined, undefined)).toBe(true);
+  });
+
+  it("should compare ADTs by their tags and fields", () => {
+    const { None, Some } = make<OptionHKT>();
+
+    expect(equals(Some(42), Some(42))).toBe(true);
+    expect(equals(Some(42), Some(43))).toBe(false);
+    expect(equals(Some(42), None)).toBe(false);
+    expect(equals(None(), Some(42))).toBe(false);
+  });
+
+  it("should treat a nullary constructor as equal to the ADT it creates", () => {
+    const { None, Some } = make<OptionHKT>(["Some", "None"]);
+
+    expect(equals(None, None)).toBe(true);
+    expect(equals(None, None())).toBe(true);
+    expect(equals(None(), None)).toBe(true);
+    expect(equals(None(), None())).toBe(true);
+    expect(equals(Some(None), Some(None()))).toBe(true);
+  });
+
+  it("should compare ADTs created from different `make` calls structurally", () => {
+    const Option1 = make<OptionHKT>();
+    const Option2 = make<OptionHKT>(["Some", "None"]);
+
+    expect(equals(Option1.Some(42), Option2.Some(42))).toBe(true);
+    expect(equals(Option1.None, Option2.None)).toBe(true);
+  });
+
+  it("should compare nested ADTs", () => {
+    const { None, Some } = make<OptionHKT>();
+    const { Err, Ok } = make<ResultHKT>();
+
+    expect(equals(Some(Ok(Some(42))), Some(Ok(Some(42))))).toBe(true);
+    expect(equals(Some(Ok(Some(42))), Some(Ok(None)))).toBe(false);
+    expect(equals(Some(Ok(42)), Some(Err(42)))).toBe(false);
+  });
+
+  it("should compare arrays and objects structurally", () => {
+    const { Some } = make<OptionHKT>();
+
+    expect(equals([1, 2, 3], [1, 2, 3])).toBe(true);
+    expect(equals([1, 2, 3], [1, 2])).toBe(false);
+    expect(equals({ a: 1, b: [2] }, { b: [2], a: 1 })).toBe(true);
+    expect(equals({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(equals(Some({ a: [1, Some(2)] }), Some({ a: [1, Some(2)] }))).toBe(true);
+    expect(equals(Some({ a: [1, Some(2)] }), Some({ a: [1, Some(3)] }))).toBe(false);
+    expect(equals([1], { 0: 1, length: 1 })).toBe(false);
+
+    class Point {
+      constructor(
+        public x: number,
+        public y: number,
+      ) {}
+    }
+    expect(equals(new Point(1, 2), new Point(1, 2))).toBe(true);
+    expect(equals(new Point(1, 2), { x: 1, y: 2 })).toBe(false);
+  });
+
+  it("should compare `Map`s, `Set`s, `Date`s and `RegExp`s", () => {
+    const { Some } = make<OptionHKT>();
+
+    expect(equals(new Map([["a", Some(1)]]), new Map([["a", Some(1)]]))).toBe(true);
+    expect(equals(new Map([["a", Some(1)]]), new Map([["a", Some(2)]]))).toBe(false);
+    expect(equals(new Map([[Some(1), "a"]]), new Map([[Some(1), "a"]]))).toBe(true);
+    expect(equals(new Map([[Some(1), "a"]]), new Map([[Some(2), "a"]]))).toBe(false);
+
+    expect(equals(new Set([1, Some(2)]), new Set([Some(2), 1]))).toBe(true);
+    expect(equals(new Set([1, Some(2)]), new Set([1, Some(3)]))).toBe(false);
+    expect(equals(new Set([1]), new Set([1, 2]))).toBe(false);
+
+    // Each value (or entry) is paired with at most one structurally equal value (or entry)
+    expect(equals(new Set([Some(1), Some(1)]), new Set([Some(1), Some(2)]))).toBe(false);
+    expect(equals(new Set([Some(1), Some(2)]), new Set([Some(1), Some(1)]))).toBe(false);
+    expect(equals(new Set([Some(1), Some(1)]), new Set([Some(1), Some(1)]))).toBe(true);
+    expect(
+      equals(
+        new Map([
+          [Some(1), "a"],
+          [Some(1), "a"],
+        ]),
+        new Map([
+          [Some(1), "a"],
+          [Some(2), "a"],
+        ]),
+      ),
+    ).toBe(false);
+
+    expect(equals(new Date(0), new Date(0))).toBe(true);
+    expect(equals(new Date(0), new Date(1))).toBe(false);
+    expect(equals(new Date(NaN), new Date(NaN))).toBe(true);
+    expect(equals(Some(new Date(0)), Some(new Date(0)))).toBe(true);
+
+    expect(equals(/foo/g, /foo/g)).toBe(true);
+    expect(equals(/foo/g, /foo/i)).toBe(false);
+  });
+
+  it("should handle circular references", () => {
+    const { Some } = make<OptionHKT>();
+
+    const a: Record<string, unknown> = { value: 1 };
+    a.self = Some(a);
+    const b: Record<string, unknown> = { value: 1 };
+    b.self = Some(b);
+    expect(equals(a, b)).toBe(true);
+
+    const c: Record<string, unknown> = { value: 2 };
+    c.self = Some(c);
+    expect(equals(a, c)).toBe(false);
+  });
+
+  it("should respect the equality protocol", () => {
+    const { Some } = make<OptionHKT>();
+
+    const caseInsensitive = (s: string) => ({
+      value: s,
+      [equalsSymbol](that: unknown) {
+        return (
+          typeof that === "object" &&
+          that !== null &&
+          "value" in that &&
+          typeof that.value === "string" &&
+          that.value.toLowerCase() === s.toLowerCase()
+        );
+      },
+    });
+
+    expect(equals(caseInsensitive("Foo"), caseInsensitive("FOO"))).toBe(true);
+    expect(equals(Some(caseInsensitive("Foo")), Some(caseInsensitive("fOo")))).toBe(true);
+    expect(equals(Some(caseInsensitive("Foo")), Some(caseInsensitive("Bar")))).toBe(false);
+  });
+
+  it("should support equality overrides of variants", () => {
+    type Money = Data<{ Money: [amount: number, currency: string]; Free: [] }>;
+    const { Free, Money } = make<Money>(["Money", "Free"], {
+      equals: { Money: (a, b, eq) => Math.abs(a._0 - b._0) < 0.005 && eq(a._1, b._1) },
+    });
+
+    expect(equals(Money(0.1 + 0.2, "USD"), Money(0.3, "USD"))).toBe(true);
+    expect(equals(Money(0.3, "USD"), Money(0.3, "EUR"))).toBe(false);
+    expect(equals(Money(0.3, "USD"), Free())).toBe(false);
+    expect(equals([Money(0.1 + 0.2, "USD")], [Money(0.3, "USD")])).toBe(true);
+    // The override is used whichever side the ADT is on
+    expect(equals({ _tag: "Money", _0: 0.1 + 0.2, _1: "USD" }, Money(0.3, "USD"))).toBe(true);
+
+    // ADTs of other `make` calls are not affected
+    const Other = make<Money>(["Money", "Free"]);
+    expect(equals(Other.Money(0.1 + 0.2, "USD"), Other.Money(0.3, "USD"))).toBe(false);
+  });
+});
+
+describe("ADT.equals", () => {
+  it("should compare ADTs structurally", () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+
+    expect(Option.equals(Option.Some([1, 2]), Option.Some([1, 2]))).toBe(true);
+    expect(Option.equals(Option.Some(1), Option.None)).toBe(false);
+    expect(Option.equals(Option.None, Option.None())).toBe(true);
+
+    const Result = make<ResultHKT>();
+
+    expect(Result.equals(Result.Ok(42), Result.Ok(42))).toBe(true);
+    expect(Result.equals(Result.Ok(42), Result.Err(42))).toBe(false);
+  });
+});
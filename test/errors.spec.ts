@@ -0,0 +1,113 @@
+import type { Arg0, HKT } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data } from "../src";
+import { MatchError, P, UnwrapError, VariantMismatchError, make, matchN } from "../src";
+
+type Option<T> = Data<{
+  Some: [value: T];
+  None: [];
+}>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+const catchError = (fn: () => unknown): unknown => {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected an error to be thrown");
+};
+
+describe("VariantMismatchError", () => {
+  it("should be thrown by match functions for values of other variants", () => {
+    const Option = make<OptionHKT>(["Some", "None"], { name: "Option" });
+    const value = { _tag: "Ok", _0: 1 };
+
+    const error = catchError(() => Option.match(value as never, { _: () => 0 }));
+    expect(error).toBeInstanceOf(VariantMismatchError);
+    expect(error).toBeInstanceOf(TypeError);
+    expect(error).not.toBeInstanceOf(UnwrapError);
+    expect(error).toMatchObject({
+      name: "VariantMismatchError",
+      expected: ["Some", "None"],
+      value,
+      adtName: "Option",
+    });
+
+    expect(catchError(() => Option.matchPattern(value as never))).toBeInstanceOf(
+      VariantMismatchError,
+    );
+    expect(catchError(() => Option.revive(value))).toMatchObject({
+      expected: ["Some", "None"],
+      value,
+    });
+  });
+
+  it("should support `cause`", () => {
+    const cause = new Error("foo");
+    const error = new VariantMismatchError("bar", { expected: ["Some"], value: 42, cause });
+    expect(error.message).toBe("bar");
+    expect(error.cause).toBe(cause);
+    expect(error.adtName).toBe(undefined);
+    expect("cause" in new VariantMismatchError("bar", { expected: [], value: 42 })).toBe(false);
+  });
+});
+
+describe("UnwrapError", () => {
+  it("should be thrown by deconstructors", () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+
+    const none = Option.None();
+    const error = catchError(() => Option.unwrapSome(none as never));
+    expect(error).toBeInstanceOf(UnwrapError);
+    expect(error).toBeInstanceOf(VariantMismatchError);
+    expect(error).toMatchObject({
+      name: "UnwrapError",
+      expected: ["Some"],
+      value: none,
+      adtName: undefined,
+    });
+
+    expect(catchError(() => Option.unwrap({ _tag: "Ok" } as never))).toMatchObject({
+      name: "UnwrapError",
+      expected: ["Some", "None"],
+    });
+    expect(catchError(() => make<OptionHKT>().unwrapNone(Option.Some(42) as never))).toBeInstanceOf(
+      UnwrapError,
+    );
+  });
+});
+
+describe("MatchError", () => {
+  it("should be thrown by match functions if no case matches", () => {
+    const Option = make<OptionHKT>(["Some", "None"], { name: "Option" });
+
+    const error = catchError(() => Option.match(Option.None, { Some: () => 0 } as never));
+    expect(error).toBeInstanceOf(MatchError);
+    expect(error).not.toBeInstanceOf(TypeError);
+    expect(error).toMatchObject({
+      name: "MatchError",
+      expected: ["Some"],
+      value: Option.None,
+      adtName: "Option",
+    });
+
+    expect(
+      catchError(() =>
+        Option.matchPattern(Option.Some(1))
+          .case(P.tag("Some", 2), () => 0)
+          .case(P.tag("Some", 3), () => 0)
+          // @ts-expect-error - `Some(...)` is not fully handled
+          .exhaustive(),
+      ),
+    ).toMatchObject({ expected: ["Some"], value: Option.Some(1), adtName: "Option" });
+    expect(
+      catchError(() =>
+        matchN([Option.None, Option.Some(1)], { "Some,_": () => 0, "_,None": () => 0 } as never),
+      ),
+    ).toMatchObject({ expected: ["Some,_", "_,None"], value: [Option.None, Option.Some(1)] });
+  });
+});
@@ -0,0 +1,81 @@
+import type { Arg0, Arg1, HKT, HKT2 } from "hkt-core";
+import { describe, equal, error, expect, it } from "typroof";
+
+import type { Data } from "../src";
+import { make } from "../src";
+
+type Option<T> = Data<{ Some: [value: T]; None: [] }>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+type Result<T, E> = Data<{ Ok: [value: T]; Err: [error: E] }>;
+interface ResultHKT extends HKT2 {
+  return: Result<Arg0<this>, Arg1<this>>;
+}
+
+type Either<L, R> = Data<{ Left: [left: L]; Right: [right: R] }>;
+interface EitherHKT extends HKT2 {
+  return: Either<Arg0<this>, Arg1<this>>;
+}
+
+describe("ADT.gen", () => {
+  const Result = make<ResultHKT, "Ok">(["Ok", "Err"], { monadic: "Ok" });
+
+  const parse = (s: string): Result<number, SyntaxError> =>
+    isNaN(Number(s)) ? Result.Err(new SyntaxError(s)) : Result.Ok(Number(s));
+  const positive = (n: number): Result<number, "negative"> =>
+    n > 0 ? Result.Ok(n) : Result.Err("negative");
+
+  it("should unwrap the monadic variant and collect the union of the other side", () => {
+    const result = Result.gen(function* ($) {
+      const a = yield* $(parse("1"));
+      expect(a).to(equal<number>);
+      const b = yield* $(positive(a));
+      return `${a + b}`;
+    });
+    expect(result).to(equal<Result<string, SyntaxError | "negative">>);
+
+    const infallible = Result.gen(function* ($) {
+      return yield* $(Result.Ok(42));
+    });
+    expect(infallible).to(equal<Result<number, never>>);
+  });
+
+  it("should support async generators", () => {
+    const result = Result.genAsync(async function* ($) {
+      const a = yield* $(await Promise.resolve(parse("1")));
+      return yield* $(positive(a));
+    });
+    expect(result).to(equal<Promise<Result<number, SyntaxError | "negative">>>);
+  });
+
+  it("should support ADTs with a single type parameter", () => {
+    const Option = make<OptionHKT, "Some">(["Some", "None"], { monadic: "Some" });
+
+    const result = Option.gen(function* ($) {
+      const a = yield* $(Option.Some(1));
+      const b = yield* $(Option.Some("foo"));
+      return [a, b] as const;
+    });
+    expect(result).to(equal<Option<readonly [number, string]>>);
+  });
+
+  it("should support monadic variants holding the second type parameter", () => {
+    const Either = make<EitherHKT, "Right">(["Left", "Right"], { monadic: "Right" });
+
+    const result = Either.gen(function* ($) {
+      const a = yield* $(Either.Right<never, number>(1));
+      const b = yield* $(Either.Left<string, number>("error"));
+      return a + b;
+    });
+    expect(result).to(equal<Either<string, number>>);
+  });
+
+  it("should only be available for monadic ADTs", () => {
+    // @ts-expect-error - `gen` is only generated for monadic ADTs
+    expect(make<ResultHKT>(["Ok", "Err"]).gen).to(error);
+    // @ts-expect-error - The `monadic` option has to match the type argument
+    expect(make<ResultHKT, "Ok">(["Ok", "Err"], { monadic: "Err" })).to(error);
+  });
+});
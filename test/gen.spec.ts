@@ -0,0 +1,153 @@
+import type { Arg0, Arg1, HKT, HKT2 } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data } from "../src";
+import { make } from "../src";
+
+type Option<T> = Data<{ Some: [value: T]; None: [] }>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+type Result<T, E> = Data<{ Ok: [value: T]; Err: [error: E] }>;
+interface ResultHKT extends HKT2 {
+  return: Result<Arg0<this>, Arg1<this>>;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+describe("ADT.gen", () => {
+  const Result = make<ResultHKT, "Ok">(["Ok", "Err"], { monadic: "Ok" });
+  const { Err, Ok } = Result;
+
+  const parse = (s: string): Result<number, string> =>
+    isNaN(Number(s)) ? Err(`Invalid number: ${s}`) : Ok(Number(s));
+  const positive = (n: number): Result<number, "negative"> => (n > 0 ? Ok(n) : Err("negative"));
+
+  it("should unwrap ADTs of the monadic variant and wrap the return value", () => {
+    expect(
+      Result.gen(function* ($) {
+        const a = yield* $(parse("1"));
+        const b = yield* $(positive(a + 1));
+        return a + b;
+      }),
+    ).toEqual(Ok(3));
+    expect(
+      Result.gen(function* ($) {
+        return `${yield* $(Ok(42))}`;
+      }),
+    ).toEqual(Ok("42"));
+  });
+
+  it("should short-circuit on other variants", () => {
+    const visited: string[] = [];
+    const result = Result.gen(function* ($) {
+      try {
+        const a = yield* $(parse("foo"));
+        visited.push("after parse");
+        return a;
+      } finally {
+        visited.push("finally");
+      }
+    });
+    expect(result).toEqual(Err("Invalid number: foo"));
+    expect(visited).toEqual(["finally"]);
+
+    expect(
+      Result.gen(function* ($) {
+        const a = yield* $(parse("-1"));
+        return yield* $(positive(a));
+      }),
+    ).toEqual(Err("negative"));
+  });
+
+  it("should propagate thrown errors", () => {
+    expect(() =>
+      Result.gen(function* ($) {
+        yield* $(Ok(1));
+        throw new Error("boom");
+      }),
+    ).toThrow("boom");
+  });
+
+  it("should support ADTs with a single type parameter", () => {
+    const Option = make<OptionHKT, "Some">({ Some: 1, None: 0 }, { monadic: "Some" });
+
+    expect(
+      Option.gen(function* ($) {
+        const a = yield* $(Option.Some(1));
+        const b = yield* $(Option.Some("foo"));
+        return [a, b];
+      }),
+    ).toEqual(Option.Some([1, "foo"]));
+    expect(
+      Option.gen(function* ($) {
+        const a = yield* $(Option.None<number>());
+        return a * 2;
+      }),
+    ).toEqual(Option.None());
+  });
+});
+
+describe("ADT.genAsync", () => {
+  const Result = make<ResultHKT, "Ok">(["Ok", "Err"], { monadic: "Ok" });
+  const { Err, Ok } = Result;
+
+  const fetchNumber = async (s: string): Promise<Result<number, string>> => {
+    await sleep(1);
+    return isNaN(Number(s)) ? Err(`Invalid number: ${s}`) : Ok(Number(s));
+  };
+
+  it("should run async generators", async () => {
+    const result = Result.genAsync(async function* ($) {
+      const a = yield* $(await fetchNumber("20"));
+      const b = yield* $(await fetchNumber("22"));
+      return a + b;
+    });
+    expect(result).toBeInstanceOf(Promise);
+    expect(await result).toEqual(Ok(42));
+  });
+
+  it("should short-circuit on other variants", async () => {
+    const visited: string[] = [];
+    expect(
+      await Result.genAsync(async function* ($) {
+        try {
+          const a = yield* $(await fetchNumber("foo"));
+          visited.push("after fetch");
+          return a;
+        } finally {
+          await sleep(1);
+          visited.push("finally");
+        }
+      }),
+    ).toEqual(Err("Invalid number: foo"));
+    expect(visited).toEqual(["finally"]);
+  });
+
+  it("should reject with thrown errors", async () => {
+    await expect(
+      Result.genAsync(async function* ($) {
+        yield* $(await fetchNumber("1"));
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+  });
+});
+
+describe("make", () => {
+  it("should only generate `gen` for monadic ADTs", () => {
+    expect("gen" in make<ResultHKT>(["Ok", "Err"])).toBe(false);
+    expect("genAsync" in make<ResultHKT>(["Ok", "Err"])).toBe(false);
+  });
+
+  it("should check the monadic variant", () => {
+    expect(() => make<ResultHKT>(["Ok", "Err"], { monadic: "Foo" } as never)).toThrow(
+      new TypeError("Invalid monadic variant `Foo`, expected `Ok`/`Err`"),
+    );
+    type Pair = Data<{ Pair: [number, number]; Empty: [] }>;
+    expect(() => make<Pair, "Pair">({ Pair: 2, Empty: 0 }, { monadic: "Pair" })).toThrow(
+      new TypeError("The monadic variant `Pair(...)` must have exactly 1 field, but has 2"),
+    );
+  });
+});
@@ -0,0 +1,336 @@
+import type { Arg0, HKT } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data } from "../src";
+import { ADTProto, HashMap, HashSet, equals, equalsSymbol, hash, hashSymbol, make } from "../src";
+
+type Option<T> = Data<{
+  Some: [value: T];
+  None: [];
+}>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+describe("hash", () => {
+  it("should return 32-bit integers", () => {
+    const { None, Some } = make<OptionHKT>();
+
+    for (const value of [42, -0, NaN, 1.5, 42n, "foo", "", true, null, undefined, Symbol("foo")])
+      expect(hash(value) | 0).toBe(hash(value));
+    for (const value of [Some(42), None, [1, 2], { a: 1 }, new Map(), new Set(), () => {}])
+      expect(hash(value) | 0).toBe(hash(value));
+  });
+
+  it("should be consistent with `equals` for primitive values", () => {
+    expect(hash(42)).toBe(hash(42));
+    expect(hash(0)).toBe(hash(-0));
+    expect(hash(NaN)).toBe(hash(NaN));
+    expect(hash("foo")).toBe(hash("foo"));
+    expect(hash(42n)).toBe(hash(42n));
+    expect(hash(42)).not.toBe(hash(43));
+    expect(hash("foo")).not.toBe(hash("bar"));
+    expect(hash(null)).not.toBe(hash(undefined));
+  });
+
+  it("should be consistent with `equals` for ADTs", () => {
+    const Option1 = make<OptionHKT>();
+    const Option2 = make<OptionHKT>(["Some", "None"]);
+
+    expect(hash(Option1.Some(42))).toBe(hash(Option1.Some(42)));
+    expect(hash(Option1.Some(42))).toBe(hash(Option2.Some(42)));
+    expect(hash(Option1.None)).toBe(hash(Option1.None()));
+    expect(hash(Option1.Some(Option1.None))).toBe(hash(Option2.Some(Option2.None())));
+    expect(hash(Option1.Some({ a: [1, 2] }))).toBe(hash(Option1.Some({ a: [1, 2] })));
+
+    expect(hash(Option1.Some(42))).not.toBe(hash(Option1.Some(43)));
+    expect(hash(Option1.Some(42))).not.toBe(hash(Option1.None));
+    expect(hash(Option1.Some(Option1.Some(42)))).not.toBe(hash(Option1.Some(42)));
+  });
+
+  it("should be consistent with `equals` for ADT-like plain objects", () => {
+    const { None, Some } = make<OptionHKT>();
+
+    const plain = JSON.parse(JSON.stringify(Some(None()))) as unknown;
+    expect(equals(plain, Some(None()))).toBe(true);
+    expect(hash(plain)).toBe(hash(Some(None())));
+    expect(hash({ _tag: "None" })).toBe(hash(None));
+    expect(hash({ _tag: "Some", _0: 42 })).not.toBe(hash(Some(43)));
+
+    // Plain objects with other keys are not ADT-like
+    expect(equals(Some(1), { _tag: "Some", _0: 1, x: 2 })).toBe(false);
+    expect(equals({ _tag: "Some", _0: 1, x: 2 }, Some(1))).toBe(false);
+  });
+
+  it("should hash arrays, objects, `Map`s and `Set`s structurally", () => {
+    const { Some } = make<OptionHKT>();
+
+    expect(hash([1, 2, 3])).toBe(hash([1, 2, 3]));
+    expect(hash([1, 2, 3])).not.toBe(hash([3, 2, 1]));
+    expect(hash({ a: 1, b: Some(2) })).toBe(hash({ b: Some(2), a: 1 }));
+    expect(hash({ a: 1, b: 2 })).not.toBe(hash({ a: 2, b: 1 }));
+    expect(hash(new Map([[Some(1), "a"]]))).toBe(hash(new Map([[Some(1), "a"]])));
+    const entries = [
+      ["a", 1],
+      ["b", 2],
+    ] as const;
+    expect(hash(new Map(entries))).toBe(hash(new Map([...entries].reverse())));
+    expect(hash(new Set([1, Some(2)]))).toBe(hash(new Set([Some(2), 1])));
+    expect(hash(new Date(0))).toBe(hash(new Date(0)));
+    expect(hash(/foo/g)).toBe(hash(/foo/g));
+  });
+
+  it("should hash functions by their identity", () => {
+    const f = () => {};
+    const g = () => {};
+
+    expect(hash(f)).toBe(hash(f));
+    expect(hash(f)).not.toBe(hash(g));
+  });
+
+  it("should handle circular references", () => {
+    const { Some } = make<OptionHKT>();
+
+    const a: Record<string, unknown> = { value: 1 };
+    a.self = Some(a);
+    const b: Record<string, unknown> = { value: 1 };
+    b.self = Some(b);
+    expect(hash(a)).toBe(hash(b));
+  });
+
+  it("should respect the hashing protocol", () => {
+    const { Some } = make<OptionHKT>();
+
+    const caseInsensitive = (s: string) => ({
+      value: s,
+      [equalsSymbol](that: unknown) {
+        return (
+          typeof that === "object" &&
+          that !== null &&
+          "value" in that &&
+          typeof that.value === "string" &&
+          that.value.toLowerCase() === s.toLowerCase()
+        );
+      },
+      [hashSymbol](hash: (value: unknown) => number) {
+        return hash(s.toLowerCase());
+      },
+    });
+
+    expect(hash(caseInsensitive("Foo"))).toBe(hash(caseInsensitive("FOO")));
+    expect(hash(Some(caseInsensitive("Foo")))).toBe(hash(Some(caseInsensitive("fOo"))));
+    expect(hash(Some(caseInsensitive("Foo")))).not.toBe(hash(Some(caseInsensitive("Bar"))));
+  });
+
+  it("should stay consistent with `equals` for values implementing only the equality protocol", () => {
+    const alwaysEqual = (value: number) => ({ value, [equalsSymbol]: () => true });
+
+    expect(equals(alwaysEqual(1), alwaysEqual(2))).toBe(true);
+    expect(hash(alwaysEqual(1))).toBe(hash(alwaysEqual(2)));
+  });
+
+  it("should stay consistent with `equals` for variants with equality overrides", () => {
+    type Money = Data<{ Money: [amount: number, currency: string] }>;
+    const { Money } = make<Money>(["Money"], {
+      equals: { Money: (a, b, eq) => Math.abs(a._0 - b._0) < 0.005 && eq(a._1, b._1) },
+    });
+
+    expect(equals(Money(0.1 + 0.2, "USD"), Money(0.3, "USD"))).toBe(true);
+    expect(hash(Money(0.1 + 0.2, "USD"))).toBe(hash(Money(0.3, "USD")));
+    expect(new HashSet([Money(0.1 + 0.2, "USD"), Money(0.3, "USD")]).size).toBe(1);
+
+    // ADT-like plain objects of these variants are hashed by their tags only as well
+    const plain = { _tag: "Money", _0: 0.3, _1: "USD" };
+    expect(equals(Money(0.1 + 0.2, "USD"), plain)).toBe(true);
+    expect(hash(plain)).toBe(hash(Money(0.1 + 0.2, "USD")));
+  });
+
+  it("should allow overriding the hashing protocol of ADTs", () => {
+    type Point = Data<{ Point: [x: number, y: number] }>;
+    const { Point } = make<Point>();
+
+    const original = ADTProto[hashSymbol];
+    ADTProto[hashSymbol] = () => 42;
+    try {
+      expect(hash(Point(1, 2))).toBe(42);
+    } finally {
+      ADTProto[hashSymbol] = original;
+    }
+    expect(hash(Point(1, 2))).not.toBe(42);
+  });
+});
+
+describe("HashMap", () => {
+  it("should use ADTs as keys structurally", () => {
+    const { None, Some } = make<OptionHKT>();
+
+    const map = new HashMap<Option<number>, string>();
+    map.set(Some(1), "one").set(None, "none");
+
+    expect(map.size).toBe(2);
+    expect(map.get(Some(1))).toBe("one");
+    expect(map.get(None())).toBe("none");
+    expect(map.get(Some(2))).toBe(undefined);
+    expect(map.has(Some(1))).toBe(true);
+    expect(map.has(Some(2))).toBe(false);
+
+    map.set(Some(1), "uno");
+    expect(map.size).toBe(2);
+    expect(map.get(Some(1))).toBe("uno");
+
+    expect(map.delete(Some(1))).toBe(true);
+    expect(map.delete(Some(1))).toBe(false);
+    expect(map.size).toBe(1);
+    expect(map.has(Some(1))).toBe(false);
+
+    map.clear();
+    expect(map.size).toBe(0);
+    expect(map.has(None)).toBe(false);
+  });
+
+  it("should look up ADTs by structurally equal plain keys", () => {
+    const { None, Some } = make<OptionHKT>();
+
+    const map = new HashMap<unknown, string>([
+      [Some(1), "one"],
+      [None, "none"],
+    ]);
+    expect(map.get({ _tag: "Some", _0: 1 })).toBe("one");
+    expect(map.get(JSON.parse('{"_tag":"None"}'))).toBe("none");
+    expect(map.has({ _tag: "Some", _0: 2 })).toBe(false);
+
+    const set = new HashSet<unknown>([Some(1)]);
+    expect(set.has({ _tag: "Some", _0: 1 })).toBe(true);
+    expect(set.add({ _tag: "Some", _0: 1 }).size).toBe(1);
+  });
+
+  it("should look up ADTs with equality overrides by plain keys", () => {
+    type Money = Data<{ Money: [amount: number, currency: string] }>;
+    const { Money } = make<Money>(["Money"], {
+      equals: { Money: (a, b, eq) => Math.abs(a._0 - b._0) < 0.005 && eq(a._1, b._1) },
+    });
+
+    const map = new HashMap<unknown, string>([[Money(1.1, "USD"), "price"]]);
+    expect(map.get({ _tag: "Money", _0: 1.101, _1: "USD" })).toBe("price");
+    expect(map.get(JSON.parse('{"_tag":"Money","_0":1.1,"_1":"USD"}'))).toBe("price");
+    expect(map.has({ _tag: "Money", _0: 1.2, _1: "USD" })).toBe(false);
+    // Plain objects with other keys are not ADT-like, so they are different keys
+    expect(map.has({ _tag: "Money", _0: 1.1, _1: "USD", note: "" })).toBe(false);
+
+    const set = new HashSet<unknown>([Money(1.1, "USD")]);
+    expect(set.has({ _tag: "Money", _0: 1.1, _1: "USD" })).toBe(true);
+    expect(set.add({ _tag: "Money", _0: 1.099, _1: "USD" }).size).toBe(1);
+  });
+
+  it("should keep the first inserted key and iterate in insertion order", () => {
+    const { None, Some } = make<OptionHKT>();
+
+    const first = Some(1);
+    const map = new HashMap<Option<number>, number>([
+      [first, 1],
+      [None, 0],
+      [Some(1), 2],
+    ]);
+
+    expect([...map.keys()]).toEqual([first, None]);
+    expect(map.keys().next().value).toBe(first);
+    expect([...map.values()]).toEqual([2, 0]);
+    expect([...map]).toEqual([...map.entries()]);
+    expect([...map]).toEqual([
+      [first, 2],
+      [None, 0],
+    ]);
+
+    const entries: unknown[] = [];
+    map.forEach((value, key, m) => {
+      expect(m).toBe(map);
+      entries.push([key, value]);
+    });
+    expect(entries).toEqual([...map]);
+  });
+
+  it("should handle keys with colliding hashes", () => {
+    type Key = Data<{ Key: [id: number] }>;
+    const { Key } = make<Key>();
+
+    const original = ADTProto[hashSymbol];
+    ADTProto[hashSymbol] = () => 0;
+    try {
+      const map = new HashMap([
+        [Key(1), "a"],
+        [Key(2), "b"],
+        [Key(3), "c"],
+      ]);
+      expect(map.get(Key(2))).toBe("b");
+      expect(map.delete(Key(2))).toBe(true);
+      expect(map.get(Key(1))).toBe("a");
+      expect(map.get(Key(2))).toBe(undefined);
+      expect(map.get(Key(3))).toBe("c");
+    } finally {
+      ADTProto[hashSymbol] = original;
+    }
+  });
+
+  it("should implement the equality and hashing protocols", () => {
+    const { Some } = make<OptionHKT>();
+
+    const a = new HashMap([[Some(1), [1]]]);
+    const b = new HashMap([[Some(1), [1]]]);
+    const c = new HashMap([[Some(1), [2]]]);
+
+    expect(equals(a, b)).toBe(true);
+    expect(equals(a, c)).toBe(false);
+    expect(hash(a)).toBe(hash(b));
+    expect(Object.prototype.toString.call(a)).toBe("[object HashMap]");
+  });
+});
+
+describe("HashSet", () => {
+  it("should de-duplicate ADTs structurally", () => {
+    const { None, Some } = make<OptionHKT>();
+
+    const first = Some(1);
+    const set = new HashSet<Option<number>>([first, None, Some(1), None()]);
+
+    expect(set.size).toBe(2);
+    expect(set.has(Some(1))).toBe(true);
+    expect(set.has(Some(2))).toBe(false);
+    expect([...set]).toEqual([first, None]);
+    expect(set.values().next().value).toBe(first);
+    expect([...set.entries()]).toEqual([
+      [first, first],
+      [None, None],
+    ]);
+
+    set.add(Some(2));
+    expect(set.size).toBe(3);
+    expect(set.delete(Some(1))).toBe(true);
+    expect(set.delete(Some(1))).toBe(false);
+    expect([...set.keys()]).toEqual([None, Some(2)]);
+
+    const values: unknown[] = [];
+    set.forEach((value, value2, s) => {
+      expect(value2).toBe(value);
+      expect(s).toBe(set);
+      values.push(value);
+    });
+    expect(values).toEqual([...set]);
+
+    set.clear();
+    expect(set.size).toBe(0);
+  });
+
+  it("should implement the equality and hashing protocols", () => {
+    const { None, Some } = make<OptionHKT>();
+
+    const a = new HashSet([Some(1), None]);
+    const b = new HashSet([None(), Some(1)]);
+    const c = new HashSet([Some(2), None]);
+
+    expect(equals(a, b)).toBe(true);
+    expect(equals(a, c)).toBe(false);
+    expect(hash(a)).toBe(hash(b));
+    expect(new HashSet([a, b, c]).size).toBe(2);
+    expect(Object.prototype.toString.call(a)).toBe("[object HashSet]");
+  });
+});
@@ -0,0 +1,121 @@
+import { inspect } from "node:util";
+
+import type { Arg0, HKT } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data } from "../src";
+import { installDevtoolsFormatter, make } from "../src";
+
+type Option<T> = Data<{
+  Some: [value: T];
+  None: [];
+}>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+type Tree = Data<{
+  Node: { 0: Tree; 1: Tree; 2: number };
+  Empty: [];
+}>;
+
+describe("util.inspect", () => {
+  it("should display ADTs in the `Tag(field, ...)` notation", () => {
+    const { None, Some } = make<OptionHKT>();
+
+    expect(inspect(Some(42))).toBe("Some(42)");
+    expect(inspect(None)).toBe("None");
+    expect(inspect(None())).toBe("None");
+    expect(inspect({ value: Some([1, "foo"]) })).toBe('{ value: Some([1, "foo"]) }');
+  });
+
+  it("should respect `breakLength`", () => {
+    const { Empty, Node } = make<Tree>();
+
+    const tree = Node(Empty, Node(Empty, Empty, 2), 1);
+    expect(inspect(tree)).toBe("Node(Empty, Node(Empty, Empty, 2), 1)");
+    expect(inspect(tree, { breakLength: 30 })).toBe(
+      "Node(\n" + "  Empty,\n" + "  Node(Empty, Empty, 2),\n" + "  1\n" + ")",
+    );
+    expect(inspect([tree], { breakLength: 30 })).toBe(
+      "[\n" +
+        "  Node(\n" +
+        "    Empty,\n" +
+        "    Node(Empty, Empty, 2),\n" +
+        "    1\n" +
+        "  )\n" +
+        "]",
+    );
+  });
+
+  it("should respect `depth`", () => {
+    const { None, Some } = make<OptionHKT>();
+
+    const value = Some(Some(Some({ a: { b: None } })));
+    expect(inspect(value, { depth: 1 })).toBe("Some(Some(Some(...)))");
+    expect(inspect({ a: { b: value } }, { depth: 1 })).toBe("{ a: { b: Some(...) } }");
+    expect(inspect(value, { depth: null })).toBe("Some(Some(Some({ a: { b: None } })))");
+  });
+
+  it("should respect `colors`", () => {
+    const { Some } = make<OptionHKT>();
+
+    expect(inspect(Some(42), { colors: true })).toBe("\x1b[36mSome\x1b[39m(\x1b[33m42\x1b[39m)");
+  });
+});
+
+describe("installDevtoolsFormatter", () => {
+  type Formatter = {
+    header: (value: unknown) => unknown;
+    hasBody: (value: unknown) => boolean;
+    body: (value: unknown) => unknown;
+  };
+  const global = globalThis as { devtoolsFormatters?: Formatter[] };
+
+  it("should install and uninstall a custom formatter", () => {
+    const uninstall = installDevtoolsFormatter();
+    try {
+      expect(global.devtoolsFormatters).toHaveLength(1);
+    } finally {
+      uninstall();
+    }
+    expect(global.devtoolsFormatters).toHaveLength(0);
+  });
+
+  it("should format ADTs as JsonML", () => {
+    const { None, Some } = make<OptionHKT>();
+
+    const uninstall = installDevtoolsFormatter();
+    try {
+      const formatter = global.devtoolsFormatters![0];
+
+      expect(formatter.header({ _tag: "Some", _0: 42 })).toBe(null);
+      expect(formatter.header(None)).toEqual(["span", { style: expect.any(String) }, "None"]);
+      expect(formatter.hasBody(None)).toBe(false);
+
+      const value = Some(None);
+      expect(formatter.header(value)).toEqual([
+        "span",
+        {},
+        ["span", { style: expect.any(String) }, "Some"],
+        "(",
+        ["object", { object: None }],
+        ")",
+      ]);
+      expect(formatter.hasBody(value)).toBe(true);
+      expect(formatter.body(value)).toEqual([
+        "div",
+        { style: expect.any(String) },
+        [
+          "div",
+          {},
+          ["span", { style: expect.any(String) }, "_0"],
+          ": ",
+          ["object", { object: None }],
+        ],
+      ]);
+    } finally {
+      uninstall();
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import { Either as EffectEither, Option as EffectOption } from "effect";
+import type { Arg0, Arg1, HKT, HKT2 } from "hkt-core";
+import { describe, equal, error, expect, extend, it } from "typroof";
+
+import type { Data } from "../src";
+import { make } from "../src";
+import type {
+  EffectEither as EffectEitherShape,
+  EffectOption as EffectOptionShape,
+  FpTsEither,
+  FpTsOption,
+} from "../src/interop";
+import { optionInterop, resultInterop } from "../src/interop";
+
+type Option<T> = Data<{ Some: [value: T]; None: [] }>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+type Result<T, E> = Data<{ Ok: [value: T]; Err: [error: E] }>;
+interface ResultHKT extends HKT2 {
+  return: Result<Arg0<this>, Arg1<this>>;
+}
+
+describe("optionInterop", () => {
+  it("should preserve the generic types of `Option`s", () => {
+    const Option = make<OptionHKT>();
+    const OptionInterop = optionInterop<OptionHKT>(Option);
+
+    expect(OptionInterop.fromFpTs({ _tag: "Some", value: 42 })).to(equal<Option<number>>);
+    expect(OptionInterop.fromEffect(EffectOption.some("foo"))).to(equal<Option<string>>);
+    expect(OptionInterop.fromEffect(EffectOption.none<boolean>())).to(equal<Option<boolean>>);
+
+    const option = OptionInterop.toFpTs(Option.Some(42));
+    expect(option).to(equal<FpTsOption<number>>);
+    const some = OptionInterop.toEffect(Option.Some("foo"));
+    expect(some).to(equal<EffectOptionShape<string>>);
+    // Effect `Option`s are assignable to the shapes
+    expect<EffectOption.Option<string>>().to(extend<EffectOptionShape<string>>);
+  });
+
+  it("should reject ADTs other than `Option`s", () => {
+    type Shape = Data<{ Circle: [radius: number] }>;
+    interface ShapeHKT extends HKT {
+      return: Shape;
+    }
+
+    // @ts-expect-error - `ShapeHKT` does not return an `Option`
+    expect(optionInterop<ShapeHKT>(make<ShapeHKT>())).to(error);
+  });
+});
+
+describe("resultInterop", () => {
+  it("should preserve the generic types of `Result`s", () => {
+    const Result = make<ResultHKT>();
+    const ResultInterop = resultInterop<ResultHKT>(Result);
+
+    const either = { _tag: "Right", right: 42 } as FpTsEither<string, number>;
+    expect(ResultInterop.fromFpTs(either)).to(equal<Result<number, string>>);
+    expect(ResultInterop.fromEffect(EffectEither.left("error"))).to(equal<Result<never, string>>);
+
+    const result = ResultInterop.toFpTs(Result.Ok(42));
+    expect(result).to(equal<FpTsEither<never, number>>);
+    const left = ResultInterop.toEffect(Result.Err<number, string>("error"));
+    expect(left).to(equal<EffectEitherShape<number, string>>);
+    expect<EffectEither.Either<number, string>>().to(extend<EffectEitherShape<number, string>>);
+  });
+});
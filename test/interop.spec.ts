@@ -0,0 +1,82 @@
+import { Either as EffectEither, Option as EffectOption } from "effect";
+import type { Arg0, Arg1, HKT, HKT2 } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data } from "../src";
+import { VariantMismatchError, make } from "../src";
+import { optionInterop, resultInterop } from "../src/interop";
+
+type Option<T> = Data<{ Some: [value: T]; None: [] }>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+type Result<T, E> = Data<{ Ok: [value: T]; Err: [error: E] }>;
+interface ResultHKT extends HKT2 {
+  return: Result<Arg0<this>, Arg1<this>>;
+}
+
+describe("optionInterop", () => {
+  const Option = make<OptionHKT>(["Some", "None"]);
+  const OptionInterop = optionInterop<OptionHKT>(Option);
+
+  it("should convert fp-ts `Option`s", () => {
+    expect(OptionInterop.fromFpTs({ _tag: "Some", value: 42 })).toEqual(Option.Some(42));
+    expect(OptionInterop.fromFpTs({ _tag: "None" })).toEqual(Option.None());
+
+    expect(OptionInterop.toFpTs(Option.Some(42))).toStrictEqual({ _tag: "Some", value: 42 });
+    expect(OptionInterop.toFpTs(Option.None())).toStrictEqual({ _tag: "None" });
+  });
+
+  it("should convert Effect `Option`s", () => {
+    expect(OptionInterop.fromEffect(EffectOption.some("foo"))).toEqual(Option.Some("foo"));
+    expect(OptionInterop.fromEffect(EffectOption.none())).toEqual(Option.None());
+
+    // The results are plain objects, which have to be cast to be passed to functions of Effect
+    const some = OptionInterop.toEffect(Option.Some(21)) as EffectOption.Option<number>;
+    expect(EffectOption.map(some, (n) => n * 2)).toEqual(EffectOption.some(42));
+    const none = OptionInterop.toEffect(Option.None()) as EffectOption.Option<number>;
+    expect(EffectOption.getOrElse(none, () => 0)).toBe(0);
+  });
+
+  it("should throw on other values", () => {
+    expect(() => OptionInterop.fromFpTs({ _tag: "Right", right: 1 } as never)).toThrow(
+      'Expected `Some(...)`/`None(...)`, but got `{ _tag: "Right", right: 1 }`',
+    );
+    expect(() => OptionInterop.toEffect(42 as never)).toThrow(VariantMismatchError);
+  });
+});
+
+describe("resultInterop", () => {
+  const Result = make<ResultHKT>(["Ok", "Err"]);
+  const ResultInterop = resultInterop<ResultHKT>(Result);
+
+  it("should convert fp-ts `Either`s", () => {
+    expect(ResultInterop.fromFpTs({ _tag: "Right", right: 42 })).toEqual(Result.Ok(42));
+    expect(ResultInterop.fromFpTs({ _tag: "Left", left: "error" })).toEqual(Result.Err("error"));
+
+    expect(ResultInterop.toFpTs(Result.Ok(42))).toStrictEqual({ _tag: "Right", right: 42 });
+    expect(ResultInterop.toFpTs(Result.Err("error"))).toStrictEqual({
+      _tag: "Left",
+      left: "error",
+    });
+  });
+
+  it("should convert Effect `Either`s", () => {
+    expect(ResultInterop.fromEffect(EffectEither.right(42))).toEqual(Result.Ok(42));
+    expect(ResultInterop.fromEffect(EffectEither.left("error"))).toEqual(Result.Err("error"));
+
+    const left = ResultInterop.toEffect(Result.Err("error")) as EffectEither.Either<never, string>;
+    expect(EffectEither.getOrElse(left, (error) => error.length)).toBe(5);
+    expect(ResultInterop.toEffect(Result.Ok(42))).toStrictEqual({ _tag: "Right", right: 42 });
+  });
+
+  it("should throw on other values", () => {
+    expect(() => ResultInterop.fromEffect({ _tag: "Some", value: 1 } as never)).toThrow(
+      'Expected `Right(...)`/`Left(...)`, but got `{ _tag: "Some", value: 1 }`',
+    );
+    expect(() => ResultInterop.toFpTs(make<OptionHKT>().Some(1) as never)).toThrow(
+      VariantMismatchError,
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import type { Arg0, HKT } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data, StandardSchemaV1 } from "../src";
+import { make } from "../src";
+
+const schema = <T>(
+  jsonSchema: Record<string, unknown>,
+): StandardSchemaV1<unknown, T> & { "~standard": { jsonSchema: unknown } } => ({
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => ({ value: value as T }),
+    jsonSchema: {
+      input: () => ({ $schema: "https://json-schema.org/draft/2020-12/schema", ...jsonSchema }),
+      output: () => ({ $schema: "https://json-schema.org/draft/2020-12/schema", ...jsonSchema }),
+    },
+  },
+});
+
+const number = schema<number>({ type: "number" });
+const string = schema<string>({ type: "string" });
+
+type Option<T> = Data<{
+  Some: [value: T];
+  None: [];
+}>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+type Shape = Data<{
+  Circle: [radius: number];
+  Rectangle: [width: number, height: number];
+}>;
+
+type Tree = Data<{
+  Node: { 0: Tree; 1: Tree; 2: number };
+  Empty: [];
+}>;
+
+describe("ADT.toJSONSchema", () => {
+  it("should generate a JSON Schema with a discriminator mapping", () => {
+    const Shape = make<Shape>(
+      { Circle: [number], Rectangle: [number, number] },
+      { name: "Shape", labels: { Circle: ["radius"], Rectangle: ["width", "height"] } },
+    );
+
+    expect(Shape.toJSONSchema()).toStrictEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      $ref: "#/$defs/Shape",
+      $defs: {
+        Shape: {
+          oneOf: [{ $ref: "#/$defs/Shape.Circle" }, { $ref: "#/$defs/Shape.Rectangle" }],
+          discriminator: {
+            propertyName: "_tag",
+            mapping: { Circle: "#/$defs/Shape.Circle", Rectangle: "#/$defs/Shape.Rectangle" },
+          },
+        },
+        "Shape.Circle": {
+          type: "object",
+          properties: { _tag: { const: "Circle" }, _0: { type: "number", title: "radius" } },
+          required: ["_tag", "_0"],
+          additionalProperties: false,
+        },
+        "Shape.Rectangle": {
+          type: "object",
+          properties: {
+            _tag: { const: "Rectangle" },
+            _0: { type: "number", title: "width" },
+            _1: { type: "number", title: "height" },
+          },
+          required: ["_tag", "_0", "_1"],
+          additionalProperties: false,
+        },
+      },
+    });
+  });
+
+  it("should only describe the tag without field schemas", () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+
+    const jsonSchema = Option.toJSONSchema({ name: "Option" });
+    expect(jsonSchema.$ref).toBe("#/$defs/Option");
+    expect((jsonSchema.$defs as Record<string, unknown>)["Option.Some"]).toStrictEqual({
+      type: "object",
+      properties: { _tag: { const: "Some" } },
+      required: ["_tag"],
+    });
+  });
+
+  it("should reference recursive and nested ADTs via `$ref`", () => {
+    const Tree = make<Tree>(
+      { Node: [() => Tree, () => Tree, number], Empty: [] },
+      { name: "Tree" },
+    );
+    const Option = make<OptionHKT>({ Some: [Tree], None: [] });
+    const Named = make<Data<{ Named: [name: string, tree: Option<unknown>] }>>(
+      { Named: [string, Option] },
+      { name: "Tree" },
+    );
+
+    const { $defs } = Named.toJSONSchema() as { $defs: Record<string, Record<string, unknown>> };
+    expect(Object.keys($defs)).toEqual([
+      "Tree",
+      "ADT",
+      "Tree2",
+      "Tree2.Node",
+      "Tree2.Empty",
+      "ADT.Some",
+      "ADT.None",
+      "Tree.Named",
+    ]);
+    expect($defs["Tree.Named"].properties).toStrictEqual({
+      _tag: { const: "Named" },
+      _0: { type: "string" },
+      _1: { $ref: "#/$defs/ADT" },
+    });
+    expect($defs["ADT.Some"].properties).toStrictEqual({
+      _tag: { const: "Some" },
+      _0: { $ref: "#/$defs/Tree2" },
+    });
+    expect($defs["Tree2.Node"].properties).toStrictEqual({
+      _tag: { const: "Node" },
+      _0: { $ref: "#/$defs/Tree2" },
+      _1: { $ref: "#/$defs/Tree2" },
+      _2: { type: "number" },
+    });
+  });
+
+  it("should convert field schemas with `convertFieldSchema`", () => {
+    const opaque: StandardSchemaV1<unknown, string> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) => ({ value: value as string }),
+      },
+    };
+    const Label = make<Data<{ Label: [text: string]; Count: [count: number] }>>({
+      Label: [opaque],
+      Count: [number],
+    });
+
+    const convert = (schema: unknown) =>
+      schema === opaque ? { type: "string", minLength: 1 } : undefined;
+    const { $defs } = Label.toJSONSchema({ convertFieldSchema: convert }) as {
+      $defs: Record<string, Record<string, Record<string, unknown>>>;
+    };
+    expect($defs["ADT.Label"].properties._0).toStrictEqual({ type: "string", minLength: 1 });
+    expect($defs["ADT.Count"].properties._0).toStrictEqual({ type: "number" });
+    expect((Label.toJSONSchema().$defs as typeof $defs)["ADT.Label"].properties._0).toStrictEqual(
+      {},
+    );
+  });
+
+  it("should not be available without runtime variants", () => {
+    const Option = make<OptionHKT>();
+
+    expect(() => (Option as unknown as { toJSONSchema: unknown }).toJSONSchema).toThrow(TypeError);
+  });
+});
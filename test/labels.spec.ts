@@ -0,0 +1,140 @@
+import { inspect } from "node:util";
+
+import { describe, expect, it } from "vitest";
+
+import type { Data } from "../src";
+import { MatchError, ValidationError, equals, installDevtoolsFormatter, make, show } from "../src";
+
+type Result = Data<{
+  Ok: [value: number];
+  Err: [error: string];
+}>;
+
+type Shape = Data<{
+  Circle: [radius: number];
+  Rectangle: [width: number, height: number];
+  Empty: [];
+}>;
+
+const labels = { Circle: ["radius"], Rectangle: ["width", "height"], Empty: [] } as const;
+
+describe("labels", () => {
+  it("should define read-only getters named after the fields", () => {
+    const Shape = make<Shape, never, typeof labels>(["Circle", "Rectangle", "Empty"], { labels });
+
+    const rectangle = Shape.Rectangle(2, 3);
+    expect(Shape.isRectangle(rectangle) && [rectangle.width, rectangle.height]).toEqual([2, 3]);
+    expect(() => {
+      // @ts-expect-error - The getters are read-only
+      if (Shape.isRectangle(rectangle)) rectangle.width = 4;
+    }).toThrow(TypeError);
+
+    // The getters are not enumerable, so they are not serialized or compared
+    expect(Object.keys(rectangle)).toEqual(["_tag", "_0", "_1"]);
+    expect(JSON.stringify(rectangle)).toBe('{"_tag":"Rectangle","_0":2,"_1":3}');
+    expect(equals(rectangle, make<Shape>().Rectangle(2, 3))).toBe(true);
+  });
+
+  it("should define the getters on parsed, decoded and revived ADTs", () => {
+    const Shape = make<Shape, never, typeof labels>(["Circle", "Rectangle", "Empty"], { labels });
+
+    const parsed = Shape.parse("Circle(1)");
+    expect(Shape.isCircle(parsed) && parsed.radius).toBe(1);
+    const decoded = Shape.decode({ _tag: "Circle", _0: 2 });
+    expect(!(decoded instanceof ValidationError) && Shape.isCircle(decoded) && decoded.radius).toBe(
+      2,
+    );
+    const revived = Shape.revive({ _tag: "Circle", _0: 3 });
+    expect(Shape.isCircle(revived) && revived.radius).toBe(3);
+  });
+
+  it("should reject reserved labels", () => {
+    expect(() => make<Shape>(["Circle"], { labels: { Circle: ["_0"] } })).toThrow(
+      "Invalid label `_0` for `Circle(...)`, which is reserved",
+    );
+    expect(() => make<Shape>(["Circle"], { labels: { Circle: ["_tag"] } })).toThrow(TypeError);
+  });
+});
+
+describe("ADT.matchNamed", () => {
+  it("should call the cases with the ADT", () => {
+    const labels = { Ok: ["value"], Err: ["error"] } as const;
+    const Result = make<Result, never, typeof labels>(["Ok", "Err"], { labels });
+
+    const describe = Result.matchNamed({
+      Ok: ({ value }) => `Ok: ${value}`,
+      Err: ({ error }) => error.length,
+    });
+    expect(describe(Result.Ok(42))).toBe("Ok: 42");
+    expect(describe(Result.Err("foo"))).toBe(3);
+
+    expect(Result.matchNamed(Result.Err("bar"), { Ok: () => 0, _: (adt) => adt })).toEqual(
+      Result.Err("bar"),
+    );
+    expect(() => Result.matchNamed(Result.Ok(1), { Err: () => 0 } as never)).toThrow(MatchError);
+  });
+
+  it("should reject unknown cases with runtime variants in development mode", () => {
+    const Result = make<Result>(["Ok", "Err"]);
+    expect(() => Result.matchNamed({ Ok: () => 0, Errr: () => 1 } as never)).toThrow(
+      "Unknown case `Errr` passed to `matchNamed`, expected `Ok`/`Err` or `_`. Did you mean `Err`?",
+    );
+  });
+});
+
+describe("show", () => {
+  it("should display the labels of fields", () => {
+    const Shape = make<Shape>(["Circle", "Rectangle", "Empty"], { labels });
+
+    expect(show(Shape.Rectangle(2, 3))).toBe("Rectangle(width: 2, height: 3)");
+    expect(show(Shape.Empty)).toBe("Empty");
+    expect(inspect([Shape.Circle(1)])).toBe("[ Circle(radius: 1) ]");
+    expect(show(Shape.Rectangle(2, 3), { indent: 2, maxWidth: 20 })).toBe(
+      "Rectangle(\n  width: 2,\n  height: 3\n)",
+    );
+  });
+
+  it("should be parsed back", () => {
+    const Shape = make<Shape>(["Circle", "Rectangle", "Empty"], { labels });
+
+    const rectangle = Shape.Rectangle(2, 3);
+    expect(Shape.parse(show(rectangle))).toEqual(rectangle);
+    expect(Shape.parse("Rectangle(width: 2, 3)")).toEqual(rectangle);
+  });
+});
+
+describe("installDevtoolsFormatter", () => {
+  it("should display the labels of fields", () => {
+    type Formatter = { header: (value: unknown) => unknown; body: (value: unknown) => unknown };
+    const global = globalThis as { devtoolsFormatters?: Formatter[] };
+    const Shape = make<Shape>(["Circle", "Rectangle", "Empty"], { labels });
+
+    const uninstall = installDevtoolsFormatter();
+    try {
+      const formatter = global.devtoolsFormatters![0];
+      expect(formatter.header(Shape.Circle(1))).toEqual([
+        "span",
+        {},
+        ["span", { style: expect.any(String) }, "Circle"],
+        "(",
+        ["span", { style: expect.any(String) }, "radius"],
+        ": ",
+        ["object", { object: 1 }],
+        ")",
+      ]);
+      expect(formatter.body(Shape.Circle(1))).toEqual([
+        "div",
+        { style: expect.any(String) },
+        [
+          "div",
+          {},
+          ["span", { style: expect.any(String) }, "radius"],
+          ": ",
+          ["object", { object: 1 }],
+        ],
+      ]);
+    } finally {
+      uninstall();
+    }
+  });
+});
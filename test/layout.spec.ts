@@ -0,0 +1,142 @@
+import type { Arg0, HKT } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data } from "../src";
+import { MatchError, UnwrapError, VariantMismatchError, make } from "../src";
+
+type Action = Data<
+  { Add: [amount: number]; Move: [x: number, y: number]; Reset: [] },
+  { discriminant: "type"; fields: { Add: ["amount"] } }
+>;
+
+type Option<T> = Data<{ Some: [value: T]; None: [] }, { fields: { Some: ["value"] } }>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+const catchError = (fn: () => unknown): unknown => {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected an error to be thrown");
+};
+
+describe("make with a layout", () => {
+  it("should create plain objects with the discriminant and field keys", () => {
+    const Action = make<Action>(["Add", "Move", "Reset"], {
+      layout: { discriminant: "type", fields: { Add: ["amount"] } },
+    });
+
+    const add = Action.Add(1);
+    expect(add).toStrictEqual({ type: "Add", amount: 1 });
+    expect(Object.getPrototypeOf(add)).toBe(Object.prototype);
+    expect(Action.Move(1, 2)).toStrictEqual({ type: "Move", _0: 1, _1: 2 });
+    expect(Action.Reset()).toStrictEqual({ type: "Reset" });
+
+    expect(Action.Add.arity).toBe(1);
+    expect(Action.tags).toEqual(["Add", "Move", "Reset"]);
+    expect(Action.variants.Add).toBe(Action.Add);
+    expect(Action.layout).toEqual({ discriminant: "type", fields: { Add: ["amount"] } });
+  });
+
+  it("should work on plain objects of the same shape", () => {
+    const Action = make<Action>(["Add", "Move", "Reset"], {
+      layout: { discriminant: "type", fields: { Add: ["amount"] } },
+    });
+
+    const add = { type: "Add", amount: 1 } as const;
+    const actions: Action[] = [add, { type: "Move", _0: 2, _1: 3 }];
+    expect(actions.map(Action.isAdd)).toEqual([true, false]);
+    expect(actions.map(Action.unwrap)).toEqual([[1], [2, 3]]);
+    expect(Action.unwrapAdd(add)).toEqual([1]);
+    expect(Action.ifMove(actions[1], (x, y) => x * y)).toBe(6);
+    expect(
+      Action.ifMove(
+        actions[0],
+        () => 0,
+        (action) => action,
+      ),
+    ).toBe(actions[0]);
+    expect(Action.equals(actions[0], Action.Add(1))).toBe(true);
+
+    const total = Action.match({
+      Add: (amount) => amount,
+      Move: (x, y) => x + y,
+      Reset: () => 0,
+    });
+    expect(actions.map(total)).toEqual([1, 5]);
+    expect(Action.matchW(actions[1], { Add: (amount) => amount, _: (action) => action.type })).toBe(
+      "Move",
+    );
+    expect(Action.matchNamed(actions[0], { Add: ({ amount }) => amount, _: () => 0 })).toBe(1);
+  });
+
+  it("should support generic ADTs with Effect-style layouts", () => {
+    const Option = make<OptionHKT>(
+      { Some: 1, None: 0 },
+      { layout: { fields: { Some: ["value"] } } },
+    );
+
+    expect(Option.Some(42)).toStrictEqual({ _tag: "Some", value: 42 });
+    expect(Option.None()).toStrictEqual({ _tag: "None" });
+    expect(Option.arity("None")).toBe(0);
+    expect(Option.match(Option.Some(21), { Some: (n) => n * 2, None: () => 0 })).toBe(42);
+  });
+
+  it("should throw the errors of ADTs without layouts", () => {
+    const Action = make<Action>(["Add", "Move", "Reset"], {
+      name: "Action",
+      layout: { discriminant: "type", fields: { Add: ["amount"] } },
+    });
+
+    // @ts-expect-error - The argument is missing
+    expect(() => Action.Add()).toThrow("Expected 1 argument for `Add(...)`, but got 0");
+    expect(
+      catchError(() => Action.match({ _tag: "Add" } as never, { _: () => 0 } as never)),
+    ).toMatchObject({
+      name: "VariantMismatchError",
+      expected: ["Add", "Move", "Reset"],
+      adtName: "Action",
+    });
+    expect(catchError(() => Action.unwrapAdd(Action.Reset() as never))).toBeInstanceOf(UnwrapError);
+    expect(catchError(() => Action.unwrap({ type: "Foo" } as never))).toBeInstanceOf(
+      VariantMismatchError,
+    );
+    expect(
+      catchError(() => Action.match(Action.Reset(), { Add: () => 0 } as never)),
+    ).toBeInstanceOf(MatchError);
+    expect(() => Action.match({ Add: () => 0, Rest: () => 1 } as never)).toThrow(
+      "Unknown case `Rest` passed to `match`, expected `Add`/`Move`/`Reset` or `_`. Did you mean `Reset`?",
+    );
+  });
+
+  it("should reject invalid layouts", () => {
+    expect(() => make<Action>(undefined as never, { layout: {} } as never)).toThrow(
+      "`layout` requires the variants (or their arities) to be passed to `make`",
+    );
+    expect(() =>
+      make<Action>(["Add"], {
+        layout: { discriminant: "type", fields: { Add: ["type"] } },
+      } as never),
+    ).toThrow("Invalid field `type` for `Add(...)`, which is the discriminant");
+  });
+
+  it("should reject unsupported options", () => {
+    for (const key of ["labels", "display", "equals", "monadic", "safe"])
+      expect(() =>
+        make<Action>(["Add", "Move", "Reset"], {
+          layout: { discriminant: "type" },
+          [key]: key === "monadic" ? "Add" : {},
+        } as never),
+      ).toThrow(`The \`${key}\` option is not supported with \`layout\``);
+    expect(
+      make<Action>(["Add", "Move", "Reset"], {
+        name: "Action",
+        layout: { discriminant: "type" },
+        labels: undefined,
+      } as never).tags,
+    ).toEqual(["Add", "Move", "Reset"]);
+  });
+});
@@ -0,0 +1,88 @@
+import { pipe } from "effect";
+import { describe, expect, it } from "vitest";
+
+import type { Data } from "../src";
+import { make, matchN, matchNW } from "../src";
+
+type State = Data<{
+  Idle: [];
+  Running: [since: number];
+}>;
+type Event = Data<{
+  Start: [at: number];
+  Stop: [];
+  Reset: [];
+}>;
+
+const State = make<State>(["Idle", "Running"]);
+const Event = make<Event>();
+
+describe("matchN", () => {
+  it("should match several ADTs by tag combinations", () => {
+    const transition = (state: State, event: Event): State =>
+      matchN([state, event], {
+        "Idle,Start": (_, event) => State.Running(event._0),
+        "Running,Stop": () => State.Idle,
+        "_,Reset": () => State.Idle,
+        _: (state) => state,
+      });
+
+    expect(transition(State.Idle, Event.Start(1))).toEqual(State.Running(1));
+    expect(transition(State.Running(1), Event.Stop)).toBe(State.Idle);
+    expect(transition(State.Running(1), Event.Reset())).toBe(State.Idle);
+    expect(transition(State.Running(1), Event.Start(2))).toEqual(State.Running(1));
+    expect(transition(State.Idle, Event.Stop)).toBe(State.Idle);
+  });
+
+  it("should try cases in the order they are written", () => {
+    const calls: string[] = [];
+    const result = matchN([State.Idle, Event.Stop], {
+      "_,Stop": () => (calls.push("_,Stop"), 1),
+      "Idle,_": () => (calls.push("Idle,_"), 2),
+      "Idle,Stop": () => (calls.push("Idle,Stop"), 3),
+      _: () => (calls.push("_"), 4),
+    });
+    expect(result).toBe(1);
+    expect(calls).toEqual(["_,Stop"]);
+
+    // The catch-all case is tried last
+    expect(
+      matchN([State.Idle, Event.Stop], {
+        _: () => "catch-all",
+        "Idle,_": () => "Idle,_",
+      }),
+    ).toBe("Idle,_");
+  });
+
+  it("should support curried overloads", () => {
+    const state: State = State.Idle;
+    const event: Event = Event.Start(42);
+
+    expect(
+      pipe(
+        [state, event] as const,
+        matchN({
+          "Idle,Start": (_, event) => event._0,
+          _: () => 0,
+        }),
+      ),
+    ).toBe(42);
+    expect(
+      pipe(
+        [State.Running(1), event] as const,
+        matchNW({
+          "Idle,Start": (_, event) => event._0,
+          _: () => "ignored",
+        }),
+      ),
+    ).toBe("ignored");
+  });
+
+  it("should throw if no case matches", () => {
+    expect(() =>
+      matchN([State.Idle, Event.Stop], { "Idle,Start": () => 0 } as never),
+    ).toThrowErrorMatchingInlineSnapshot(
+      `[MatchError: No case found for \`[Idle, Stop]\`. Consider adding a catch-all case (\`_\`) if needed]`,
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import type { Arg0, HKT } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data, StandardSchemaV1 } from "../src";
+import { ADTProto, ParseError, make } from "../src";
+
+type Option<T> = Data<{
+  Some: [value: T];
+  None: [];
+}>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+const number: StandardSchemaV1<unknown, number> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) =>
+      typeof value === "number" ? { value } : { issues: [{ message: "expected number" }] },
+  },
+};
+
+describe("ADT.parse", () => {
+  it("should parse ADTs", () => {
+    const { None, Some, parse } = make<OptionHKT>(["Some", "None"]);
+
+    const parsed = parse<Option<number>>("Some(42)");
+    expect(parsed).toEqual(Some(42));
+    expect(Object.getPrototypeOf(parsed)).toBe(ADTProto);
+    expect(parse("None")).toBe(None);
+    expect(parse("None()")).toBe(None);
+    expect(parse(" Some ( Some(None) , ) ")).toEqual(Some(Some(None)));
+  });
+
+  it("should parse primitive values, arrays and objects", () => {
+    const { None, Some, parse } = make<OptionHKT>();
+
+    expect(parse("[1, -2.5, 1e3, NaN, -Infinity, 42n, -1n]")).toEqual([
+      1,
+      -2.5,
+      1000,
+      NaN,
+      -Infinity,
+      42n,
+      -1n,
+    ]);
+    expect(parse(String.raw`["foo", 'bar', "a\"b\nA\u{1F600}\x41", 'it\'s']`)).toEqual([
+      "foo",
+      "bar",
+      'a"b\nA😀A',
+      "it's",
+    ]);
+    expect(parse("[true, false, null, undefined, []]")).toEqual([true, false, null, undefined, []]);
+    expect(parse(`{ a: 1, "b-c": Some(None), 42: [], }`)).toEqual({
+      a: 1,
+      "b-c": Some(None),
+      42: [],
+    });
+    expect(Object.getPrototypeOf(parse('{ "__proto__": 1 }'))).toBe(Object.prototype);
+  });
+
+  it("should read multi-line text in the layout of `show`", () => {
+    type Tree<T> = Data<{
+      Empty: [];
+      Node: { 0: T; 1: Tree<T>; 2: Tree<T> };
+    }>;
+    interface TreeHKT extends HKT {
+      return: Tree<Arg0<this>>;
+    }
+    const Tree = make<TreeHKT>(["Empty", "Node"]);
+
+    const tree = Tree.Node(
+      { label: "root", tags: ["a", "b"] },
+      Tree.Node({ label: "left", tags: [] }, Tree.Empty, Tree.Empty),
+      Tree.Empty,
+    );
+    expect(
+      Tree.parse(
+        "Node(\n" +
+          '  { label: "root", tags: ["a", "b"] },\n' +
+          '  Node({ label: "left", tags: [] }, Empty, Empty),\n' +
+          "  Empty,\n" +
+          ")",
+      ),
+    ).toEqual(tree);
+  });
+
+  it("should report errors with the line and column", () => {
+    const { parse } = make<OptionHKT>(["Some", "None"]);
+
+    expect(() => parse("Some(1]")).toThrowErrorMatchingInlineSnapshot(
+      `[ParseError: Expected "," or ")", but got "]" (at line 1, column 7)]`,
+    );
+    expect(() => parse("[\n  Some(1),\n  Ok(2),\n]")).toThrowErrorMatchingInlineSnapshot(
+      `[ParseError: Expected \`Some(...)\`/\`None(...)\`, but got \`Ok\` (at line 3, column 3)]`,
+    );
+    expect(() => parse("{ a: 'foo }")).toThrowErrorMatchingInlineSnapshot(
+      `[ParseError: Unterminated string literal (at line 1, column 6)]`,
+    );
+    expect(() => parse("Some(1) None")).toThrowErrorMatchingInlineSnapshot(
+      `[ParseError: Expected end of input, but got "N" (at line 1, column 9)]`,
+    );
+    expect(() => parse("")).toThrowErrorMatchingInlineSnapshot(
+      `[ParseError: Expected a value, but got end of input (at line 1, column 1)]`,
+    );
+
+    try {
+      parse("{\n  value: Some(1.5n),\n}");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ParseError);
+      expect(error).toBeInstanceOf(SyntaxError);
+      expect((error as ParseError).line).toBe(2);
+      expect((error as ParseError).column).toBe(15);
+    }
+  });
+
+  it("should parse any tag without runtime variants", () => {
+    const { Some, parse } = make<OptionHKT>();
+    const { Ok } = make<Data<{ Ok: [value: unknown] }>>();
+
+    expect(parse("Some(Ok(42))")).toEqual(Some(Ok(42)));
+  });
+
+  it("should validate fields with schemas", () => {
+    const Option = make<OptionHKT>({ Some: [number], None: [] });
+
+    expect(Option.parse("[Some(42), None]")).toEqual([Option.Some(42), Option.None]);
+    expect(() => Option.parse('[\n  Some("42"),\n]')).toThrowErrorMatchingInlineSnapshot(
+      `[ParseError: Invalid \`Some(...)\`: $._0: expected number (at line 2, column 3)]`,
+    );
+    expect(() => Option.parse("Some")).toThrowErrorMatchingInlineSnapshot(
+      `[ParseError: Expected 1 argument for \`Some(...)\`, but got 0 (at line 1, column 1)]`,
+    );
+  });
+
+  it("should check the number of fields against declared arities", () => {
+    const { None, Some, parse } = make<OptionHKT>({ Some: 1, None: 0 });
+
+    expect(parse("[Some(None), None()]")).toEqual([Some(None), None]);
+    expect(() => parse("Some()")).toThrowErrorMatchingInlineSnapshot(
+      `[ParseError: Expected 1 argument for \`Some(...)\`, but got 0 (at line 1, column 1)]`,
+    );
+    expect(() => parse("[None, Some(1, 2)]")).toThrowErrorMatchingInlineSnapshot(
+      `[ParseError: Expected 1 argument for \`Some(...)\`, but got 2 (at line 1, column 8)]`,
+    );
+    expect(() => parse("None(1)")).toThrow(ParseError);
+  });
+});
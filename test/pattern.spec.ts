@@ -0,0 +1,134 @@
+import type { Arg0, Arg1, HKT, HKT2 } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data } from "../src";
+import { P, make } from "../src";
+
+type Option<T> = Data<{
+  Some: [value: T];
+  None: [];
+}>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+type Result<T, E> = Data<{
+  Ok: [value: T];
+  Err: [error: E];
+}>;
+interface ResultHKT extends HKT2 {
+  return: Result<Arg0<this>, Arg1<this>>;
+}
+
+describe("ADT.matchPattern", () => {
+  it("should match nested patterns, literal patterns and guards", () => {
+    const Option = make<OptionHKT>();
+    const Result = make<ResultHKT>();
+
+    const describe = (value: Option<Result<number, string>>) =>
+      Option.matchPattern(value)
+        .case(P.tag("Some", P.tag("Ok", 0)), () => "zero")
+        .case(
+          P.tag("Some", P.tag("Ok", P.bind)),
+          (n) => n > 0,
+          (n) => `positive: ${n}`,
+        )
+        .case(P.tag("Some", P.tag("Ok", P._)), () => "negative")
+        .case(P.tag("Some", P.tag("Err", P.bind)), (error) => `error: ${error}`)
+        .case(Option.None, () => "nothing")
+        .exhaustive();
+
+    expect(describe(Option.Some(Result.Ok(0)))).toBe("zero");
+    expect(describe(Option.Some(Result.Ok(42)))).toBe("positive: 42");
+    expect(describe(Option.Some(Result.Ok(-1)))).toBe("negative");
+    expect(describe(Option.Some(Result.Err("oops")))).toBe("error: oops");
+    expect(describe(Option.None)).toBe("nothing");
+    expect(describe(Option.None())).toBe("nothing");
+  });
+
+  it("should pass bound values in order", () => {
+    type Shape = Data<{
+      Circle: [radius: number];
+      Rectangle: [width: number, height: number];
+    }>;
+    const Shape = make<Shape>(["Circle", "Rectangle"]);
+
+    const result = Shape.matchPattern(Shape.Rectangle(2, 3))
+      .case(P.tag("Rectangle", P.bind, P.bind), (width, height) => [width, height])
+      .otherwise(() => []);
+    expect(result).toEqual([2, 3]);
+
+    expect(
+      Shape.matchPattern(Shape.Rectangle(2, 3))
+        .case(P.tag("Rectangle", 2, P.bind), (height) => height)
+        .otherwise(() => 0),
+    ).toBe(3);
+    // Omitted fields are matched by `P._`
+    expect(
+      Shape.matchPattern(Shape.Circle(1))
+        .case(P.tag("Circle"), () => "circle")
+        .otherwise(() => "other"),
+    ).toBe("circle");
+  });
+
+  it("should compare literal patterns structurally", () => {
+    const Option = make<OptionHKT>();
+
+    expect(
+      Option.matchPattern(Option.Some({ x: 1, y: [2] }))
+        .case(P.tag("Some", { x: 1, y: [2] }), () => true)
+        .otherwise(() => false),
+    ).toBe(true);
+    expect(
+      Option.matchPattern(Option.Some(NaN))
+        .case(P.tag("Some", NaN), () => true)
+        .otherwise(() => false),
+    ).toBe(true);
+  });
+
+  it("should only call the handler of the first matched case", () => {
+    const Option = make<OptionHKT>();
+
+    const calls: string[] = [];
+    const result = Option.matchPattern(Option.Some(1))
+      .case(
+        P.tag("Some", P.bind),
+        (n) => (calls.push("guard"), n > 1),
+        () => calls.push("first"),
+      )
+      .case(P.tag("Some", P._), () => (calls.push("second"), "second"))
+      .case(P._, () => (calls.push("third"), "third"))
+      .exhaustive();
+    expect(result).toBe("second");
+    expect(calls).toEqual(["guard", "second"]);
+  });
+
+  it("should pass unmatched ADTs to `otherwise`", () => {
+    const Option = make<OptionHKT>();
+
+    const opt = Option.Some(1);
+    expect(
+      Option.matchPattern(opt)
+        .case(P.tag("Some", 2), () => "two")
+        .otherwise((opt) => opt),
+    ).toBe(opt);
+  });
+
+  it("should throw if no case matches", () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+
+    expect(() =>
+      Option.matchPattern(Option.Some(1))
+        .case(P.tag("Some", 2), () => 0)
+        // @ts-expect-error - `Some(...)` is not fully handled
+        .exhaustive(),
+    ).toThrowErrorMatchingInlineSnapshot(
+      `[MatchError: No pattern matched \`Some(1)\`. Consider using \`.otherwise(...)\` if needed]`,
+    );
+    expect(() =>
+      Option.matchPattern({ _tag: "Ok", _0: 1 } as never),
+    ).toThrowErrorMatchingInlineSnapshot(
+      `[VariantMismatchError: Expected \`Some(...)\`/\`None(...)\`, but got \`{ _tag: "Ok", _0: 1 }\`]`,
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { pipe } from "effect";
+import { describe, equal, expect, it } from "typroof";
+
+import { Either, List, Option, Result, These } from "../src/prelude";
+
+describe("Option", () => {
+  it("should infer the types of combinators", () => {
+    const { None, Some } = Option;
+
+    expect(Some(42)).to(equal<Option.Option<number>>);
+    expect(Option.fromNullable(42 as number | null)).to(equal<Option.Option<number>>);
+    expect(Option.map(Some(21), (n) => String(n))).to(equal<Option.Option<string>>);
+    expect(Some(21).pipe(Option.map((n) => n * 2))).to(equal<Option.Option<number>>);
+    expect(
+      pipe(
+        Some("42"),
+        Option.flatMap((s) => (isNaN(Number(s)) ? None() : Some(Number(s)))),
+        Option.getOrElse(() => "invalid"),
+      ),
+    ).to(equal<number | string>);
+    expect(Option.traverse(["1", "2"], (s) => Some(Number(s)))).to(equal<Option.Option<number[]>>);
+  });
+
+  it("should preserve the types of tuples in `sequence`", () => {
+    const { None, Some } = Option;
+
+    expect(Option.sequence([Some(1), Some("foo")])).to(equal<Option.Option<[number, string]>>);
+    expect(Option.sequence([Some(1), None()])).to(equal<Option.Option<[number, never]>>);
+    expect(Option.sequence(new Set([Some(1)]))).to(equal<Option.Option<number[]>>);
+  });
+});
+
+describe("Result", () => {
+  it("should infer the types of combinators", () => {
+    const { Err, Ok } = Result;
+
+    expect(Result.fromNullable(42 as number | null, () => "missing")).to(
+      equal<Result.Result<number, string>>,
+    );
+    expect(Result.tryCatch(() => 42)).to(equal<Result.Result<number, unknown>>);
+    expect(
+      pipe(
+        Ok(21),
+        Result.flatMap((n) => (n > 0 ? Ok(n * 2) : Err("negative"))),
+        Result.mapErr((e) => e.length),
+      ),
+    ).to(equal<Result.Result<number, number>>);
+    expect(Result.getOrElse(Err<number, string>("error"), (e) => e)).to(equal<string | number>);
+    expect(
+      Result.gen(function* ($) {
+        const n = yield* $(Result.fromNullable(42 as number | null, () => "missing"));
+        return yield* $(n > 0 ? Ok(String(n)) : Err(n));
+      }),
+    ).to(equal<Result.Result<string, string | number>>);
+    expect(Result.sequence([Ok(1), Err("error"), Ok("foo")])).to(
+      equal<Result.Result<[number, never, string], string>>,
+    );
+  });
+});
+
+describe("Either", () => {
+  it("should infer the types of combinators", () => {
+    const { Left, Right } = Either;
+
+    expect(Either.fromNullable(42 as number | null, () => "missing")).to(
+      equal<Either.Either<string, number>>,
+    );
+    expect(
+      pipe(
+        Right(21),
+        Either.flatMap((n) => (n > 0 ? Right(n * 2) : Left("negative"))),
+        Either.mapLeft((e) => e.length),
+      ),
+    ).to(equal<Either.Either<number, number>>);
+    expect(Either.sequence([Right(1), Left("error"), Right("foo")])).to(
+      equal<Either.Either<string, [number, never, string]>>,
+    );
+  });
+});
+
+describe("These", () => {
+  it("should infer the types of combinators", () => {
+    const { Both, Right } = These;
+
+    expect(Both("warning", 21).pipe(These.map((n) => String(n)))).to(
+      equal<These.These<string, string>>,
+    );
+    expect(These.mapLeft(Both("warning", 21), (s) => s.length)).to(
+      equal<These.These<number, number>>,
+    );
+    expect(These.sequence([Right(1), Both("warning", true)], (a, b) => a + b)).to(
+      equal<These.These<string, [number, boolean]>>,
+    );
+    expect(
+      These.flatMap(
+        Both("warning", 21),
+        (n) => Both("another", String(n)),
+        (a, b) => a + b,
+      ),
+    ).to(equal<These.These<string, string>>);
+    expect(
+      pipe(
+        [1, 2],
+        These.traverse(
+          (n) => Right<string, number>(n),
+          (a, b) => a + b,
+        ),
+      ),
+    ).to(equal<These.These<string, number[]>>);
+  });
+});
+
+describe("List", () => {
+  it("should infer the types of combinators", () => {
+    const { Cons, Nil } = List;
+
+    expect(Cons(1, Nil())).to(equal<List.List<number>>);
+    expect(List.toArray(List.fromIterable(new Set(["foo"])))).to(equal<string[]>);
+    expect(List.fromIterable([1, 2]).pipe(List.flatMap((n) => List.fromIterable([String(n)])))).to(
+      equal<List.List<string>>,
+    );
+    expect(List.sequence([List.fromIterable([1]), List.fromIterable(["foo"])])).to(
+      equal<List.List<[number, string]>>,
+    );
+    expect(List.tryCatch(() => 42)).to(equal<List.List<number>>);
+    expect(
+      pipe(
+        List.fromIterable([1]),
+        List.getOrElse(() => "none"),
+      ),
+    ).to(equal<number | string>);
+  });
+});
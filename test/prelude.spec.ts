@@ -0,0 +1,365 @@
+import { pipe } from "effect";
+import { describe, expect, it } from "vitest";
+
+import { show } from "../src";
+import { optionInterop, resultInterop } from "../src/interop";
+import { Either, List, Option, Result, These } from "../src/prelude";
+
+const { None, Some } = Option;
+const { Err, Ok } = Result;
+const { Left, Right } = Either;
+const { Both } = These;
+const { Cons, Nil } = List;
+
+describe("Option", () => {
+  it("should create `Option`s", () => {
+    expect(Option.fromNullable(42)).toEqual(Some(42));
+    expect(Option.fromNullable(null)).toEqual(None());
+    expect(Option.fromNullable(undefined)).toEqual(None());
+    expect(Option.tryCatch(() => JSON.parse("{}"))).toEqual(Some({}));
+    expect(Option.tryCatch(() => JSON.parse("{"))).toEqual(None());
+  });
+
+  it("should map `Option`s", () => {
+    expect(Option.map(Some(21), (n) => n * 2)).toEqual(Some(42));
+    expect(Option.map(None<number>(), (n) => n * 2)).toEqual(None());
+    expect(Option.flatMap(Some(21), (n) => (n > 0 ? Some(n * 2) : None()))).toEqual(Some(42));
+    expect(Option.flatMap(Some(-1), (n) => (n > 0 ? Some(n * 2) : None()))).toEqual(None());
+    expect(Option.getOrElse(Some(42), () => 0)).toBe(42);
+    expect(Option.getOrElse(None<number>(), () => 0)).toBe(0);
+  });
+
+  it("should support data-last calls", () => {
+    expect(Some(21).pipe(Option.map((n) => n * 2))).toEqual(Some(42));
+    expect(
+      pipe(
+        Option.fromNullable(21 as number | null),
+        Option.flatMap((n) => Some(n * 2)),
+        Option.getOrElse(() => 0),
+      ),
+    ).toBe(42);
+  });
+
+  it("should traverse and sequence `Option`s", () => {
+    const parse = (s: string) => (isNaN(Number(s)) ? None<number>() : Some(Number(s)));
+    expect(Option.traverse(["1", "2"], parse)).toEqual(Some([1, 2]));
+    expect(Option.traverse(["1", "foo"], parse)).toEqual(None());
+    expect(pipe(new Set(["1", "2"]), Option.traverse(parse))).toEqual(Some([1, 2]));
+
+    expect(Option.sequence([Some(1), Some("foo")])).toEqual(Some([1, "foo"]));
+    expect(Option.sequence([Some(1), None()])).toEqual(None());
+    expect(Option.sequence([])).toEqual(Some([]));
+  });
+
+  it("should stop traversing at the first `None`", () => {
+    const visited: number[] = [];
+    Option.traverse([1, 2, 3], (n) => {
+      visited.push(n);
+      return n === 2 ? None() : Some(n);
+    });
+    expect(visited).toEqual([1, 2]);
+  });
+
+  it("should display `Option`s", () => {
+    expect(show(Option.fromNullable(42))).toBe("Some(42)");
+    expect(show(Option.fromNullable(null))).toBe("None");
+    expect(Option.match(Some(42), { Some: (n) => n, None: () => 0 })).toBe(42);
+  });
+});
+
+describe("Result", () => {
+  it("should create `Result`s", () => {
+    expect(Result.fromNullable(42, () => "missing")).toEqual(Ok(42));
+    expect(Result.fromNullable(null, () => "missing")).toEqual(Err("missing"));
+    expect(
+      pipe(
+        undefined,
+        Result.fromNullable(() => "missing"),
+      ),
+    ).toEqual(Err("missing"));
+    expect(Result.tryCatch(() => JSON.parse("{}"))).toEqual(Ok({}));
+    expect(Result.tryCatch(() => JSON.parse("{")).pipe(Result.mapErr((e) => typeof e))).toEqual(
+      Err("object"),
+    );
+    expect(
+      Result.tryCatch(
+        () => JSON.parse("{"),
+        (e) => (e as Error).name,
+      ),
+    ).toEqual(Err("SyntaxError"));
+  });
+
+  it("should map `Result`s", () => {
+    expect(Result.map(Ok(21), (n) => n * 2)).toEqual(Ok(42));
+    expect(Result.map(Err<number, string>("error"), (n) => n * 2)).toEqual(Err("error"));
+    expect(Result.flatMap(Ok(21), (n) => (n > 0 ? Ok(n * 2) : Err("negative")))).toEqual(Ok(42));
+    expect(Result.flatMap(Ok(-1), (n) => (n > 0 ? Ok(n * 2) : Err("negative")))).toEqual(
+      Err("negative"),
+    );
+    expect(Result.mapErr(Err("error"), (e) => e.length)).toEqual(Err(5));
+    expect(Result.mapErr(Ok<number, string>(42), (e) => e.length)).toEqual(Ok(42));
+    expect(Result.getOrElse(Ok(42), () => 0)).toBe(42);
+    expect(Result.getOrElse(Err<number, string>("error"), (e) => e.length)).toBe(5);
+  });
+
+  it("should support data-last calls", () => {
+    expect(Ok(21).pipe(Result.map((n) => n * 2))).toEqual(Ok(42));
+    expect(
+      pipe(
+        Result.fromNullable(21 as number | null, () => "missing"),
+        Result.flatMap((n) => (n > 0 ? Ok(n * 2) : Err(n))),
+        Result.mapErr(String),
+        Result.getOrElse((e) => e.length),
+      ),
+    ).toBe(42);
+  });
+
+  it("should traverse and sequence `Result`s", () => {
+    const visited: number[] = [];
+    const check = (n: number) => {
+      visited.push(n);
+      return n > 0 ? Ok(n) : Err(`${n} is not positive`);
+    };
+    expect(Result.traverse([1, 2], check)).toEqual(Ok([1, 2]));
+    expect(pipe([1, -2, -3], Result.traverse(check))).toEqual(Err("-2 is not positive"));
+    expect(visited).toEqual([1, 2, 1, -2]);
+
+    expect(Result.sequence([Ok(1), Ok("foo")])).toEqual(Ok([1, "foo"]));
+    expect(Result.sequence([Ok(1), Err("error"), Err("another")])).toEqual(Err("error"));
+  });
+  it("should support do-notation", async () => {
+    const check = (n: number) => (n > 0 ? Ok(n) : Err(`${n} is not positive`));
+    expect(
+      Result.gen(function* ($) {
+        const a = yield* $(check(1));
+        const b = yield* $(check(2));
+        return a + b;
+      }),
+    ).toEqual(Ok(3));
+    expect(
+      await Result.genAsync(async function* ($) {
+        const a = yield* $(await Promise.resolve(check(-1)));
+        return a;
+      }),
+    ).toEqual(Err("-1 is not positive"));
+    expect(
+      Option.gen(function* ($) {
+        return (yield* $(Some(1))) + (yield* $(Option.fromNullable<number | null>(null)));
+      }),
+    ).toEqual(None());
+    expect(
+      Either.gen(function* ($) {
+        return yield* $(Right(42));
+      }),
+    ).toEqual(Right(42));
+  });
+});
+
+describe("Either", () => {
+  it("should create `Either`s", () => {
+    expect(Either.fromNullable(42, () => "missing")).toEqual(Right(42));
+    expect(Either.fromNullable(null, () => "missing")).toEqual(Left("missing"));
+    expect(Either.tryCatch(() => JSON.parse("{}"))).toEqual(Right({}));
+    expect(
+      Either.tryCatch(
+        () => JSON.parse("{"),
+        (e) => (e as Error).name,
+      ),
+    ).toEqual(Left("SyntaxError"));
+  });
+
+  it("should map `Either`s", () => {
+    expect(Either.map(Right(21), (n) => n * 2)).toEqual(Right(42));
+    expect(Either.map(Left<string, number>("error"), (n) => n * 2)).toEqual(Left("error"));
+    expect(Either.flatMap(Right(21), (n) => (n > 0 ? Right(n * 2) : Left("negative")))).toEqual(
+      Right(42),
+    );
+    expect(Either.mapLeft(Left("error"), (e) => e.length)).toEqual(Left(5));
+    expect(Either.mapLeft(Right<string, number>(42), (e) => e.length)).toEqual(Right(42));
+    expect(Either.getOrElse(Left<string, number>("error"), (e) => e.length)).toBe(5);
+  });
+
+  it("should support data-last calls", () => {
+    expect(Right(21).pipe(Either.map((n) => n * 2))).toEqual(Right(42));
+    expect(
+      pipe(
+        Either.fromNullable(null as number | null, () => "missing"),
+        Either.mapLeft((e) => e.toUpperCase()),
+        Either.getOrElse((e) => e),
+      ),
+    ).toBe("MISSING");
+  });
+
+  it("should traverse and sequence `Either`s", () => {
+    const check = (n: number) => (n > 0 ? Right(n) : Left(`${n} is not positive`));
+    expect(Either.traverse([1, 2], check)).toEqual(Right([1, 2]));
+    expect(pipe([1, -2, -3], Either.traverse(check))).toEqual(Left("-2 is not positive"));
+
+    expect(Either.sequence([Right(1), Right("foo")])).toEqual(Right([1, "foo"]));
+    expect(Either.sequence([Right(1), Left("error")])).toEqual(Left("error"));
+  });
+});
+
+describe("These", () => {
+  it("should create `These`s", () => {
+    expect(These.fromNullable(42, () => "missing")).toEqual(These.Right(42));
+    expect(These.fromNullable(null, () => "missing")).toEqual(These.Left("missing"));
+    expect(These.tryCatch(() => JSON.parse("{}"))).toEqual(These.Right({}));
+    expect(These.isLeft(These.tryCatch(() => JSON.parse("{")))).toBe(true);
+  });
+
+  it("should map `These`s", () => {
+    expect(These.map(Both("warning", 21), (n) => n * 2)).toEqual(Both("warning", 42));
+    expect(These.map(These.Right(21), (n) => n * 2)).toEqual(These.Right(42));
+    expect(These.map(These.Left<string, number>("error"), (n) => n * 2)).toEqual(
+      These.Left("error"),
+    );
+    expect(These.mapLeft(Both("warning", 42), (s) => s.length)).toEqual(Both(7, 42));
+    expect(These.mapLeft(These.Left("error"), (s) => s.length)).toEqual(These.Left(5));
+
+    expect(These.getOrElse(Both("warning", 42), () => 0)).toBe(42);
+    expect(These.getOrElse(These.Left<string, number>("error"), (s) => s.length)).toBe(5);
+  });
+
+  it("should combine the left values of `Both` in `flatMap`", () => {
+    const combine = (a: string, b: string) => `${a}; ${b}`;
+    expect(These.flatMap(Both("warning", 21), (n) => These.Right(n * 2), combine)).toEqual(
+      Both("warning", 42),
+    );
+    expect(These.flatMap(Both("warning", 21), (n) => Both("another", n * 2), combine)).toEqual(
+      Both("warning; another", 42),
+    );
+    expect(These.flatMap(Both("warning", 21), () => These.Left("error"), combine)).toEqual(
+      These.Left("warning; error"),
+    );
+    expect(These.flatMap(These.Right(21), (n) => Both("warning", n * 2), combine)).toEqual(
+      Both("warning", 42),
+    );
+    expect(
+      These.flatMap(These.Left<string, number>("error"), () => These.Right(0), combine),
+    ).toEqual(These.Left("error"));
+    expect(
+      pipe(
+        Both("warning", 21),
+        These.flatMap((n) => Both("another", n * 2), combine),
+      ),
+    ).toEqual(Both("warning; another", 42));
+  });
+
+  it("should support data-last calls", () => {
+    expect(
+      Both("warning", 21).pipe(
+        These.map((n) => n * 2),
+        These.mapLeft((s) => s.toUpperCase()),
+      ),
+    ).toEqual(Both("WARNING", 42));
+    expect(
+      pipe(
+        These.Left<string, number>("error"),
+        These.getOrElse(() => 0),
+      ),
+    ).toBe(0);
+  });
+
+  it("should traverse and sequence `These`s", () => {
+    const check = (n: number) =>
+      n > 10 ? These.Left(`${n} is too large`)
+      : n > 5 ? Both(`${n} is large`, n)
+      : These.Right(n);
+    const combine = (a: string, b: string) => `${a}; ${b}`;
+    expect(These.traverse([1, 2], check, combine)).toEqual(These.Right([1, 2]));
+    expect(These.traverse([1, 6, 7], check, combine)).toEqual(
+      Both("6 is large; 7 is large", [1, 6, 7]),
+    );
+    expect(pipe([1, 6, 11, 12], These.traverse(check, combine))).toEqual(
+      These.Left("6 is large; 11 is too large"),
+    );
+
+    expect(These.sequence([These.Right(1), Both("warning", "foo")], combine)).toEqual(
+      Both("warning", [1, "foo"]),
+    );
+    expect(
+      pipe([Both("warning", 1), These.Right(2), Both("another", 3)], These.sequence(combine)),
+    ).toEqual(Both("warning; another", [1, 2, 3]));
+  });
+});
+
+describe("List", () => {
+  it("should convert `List`s from and to arrays", () => {
+    expect(List.fromIterable([1, 2, 3])).toEqual(Cons(1, Cons(2, Cons(3, Nil()))));
+    expect(List.fromIterable(new Set([1, 2]))).toEqual(Cons(1, Cons(2, Nil())));
+    expect(List.fromIterable([])).toEqual(Nil());
+    expect(List.toArray(Cons(1, Cons(2, Nil())))).toEqual([1, 2]);
+    expect(List.toArray(Nil())).toEqual([]);
+
+    expect(List.fromNullable(42)).toEqual(Cons(42, Nil()));
+    expect(List.fromNullable(null)).toEqual(Nil());
+
+    expect(List.tryCatch(() => 42)).toEqual(Cons(42, Nil()));
+    expect(
+      List.tryCatch(() => {
+        throw new Error("error");
+      }),
+    ).toEqual(Nil());
+  });
+
+  it("should map `List`s", () => {
+    expect(List.map(List.fromIterable([1, 2]), (n) => n * 2)).toEqual(List.fromIterable([2, 4]));
+    expect(List.fromIterable([1, 2]).pipe(List.map((n) => n * 2))).toEqual(
+      List.fromIterable([2, 4]),
+    );
+    expect(
+      pipe(
+        List.fromIterable([1, 2]),
+        List.flatMap((n) => List.fromIterable([n, -n])),
+      ),
+    ).toEqual(List.fromIterable([1, -1, 2, -2]));
+    expect(List.flatMap(List.fromIterable([1, 2]), () => Nil())).toEqual(Nil());
+  });
+
+  it("should get the first value of `List`s", () => {
+    expect(List.getOrElse(List.fromIterable([1, 2]), () => 0)).toBe(1);
+    expect(List.getOrElse(Nil<number>(), () => 0)).toBe(0);
+    expect(
+      pipe(
+        List.fromIterable(["foo"]),
+        List.getOrElse(() => "bar"),
+      ),
+    ).toBe("foo");
+  });
+
+  it("should traverse and sequence `List`s", () => {
+    expect(List.traverse([1, 2], (n) => List.fromIterable([n, -n]))).toEqual(
+      List.fromIterable([
+        [1, 2],
+        [1, -2],
+        [-1, 2],
+        [-1, -2],
+      ]),
+    );
+    expect(List.sequence([List.fromIterable([1, 2]), List.fromIterable(["a"])])).toEqual(
+      List.fromIterable([
+        [1, "a"],
+        [2, "a"],
+      ]),
+    );
+    expect(List.sequence([List.fromIterable([1, 2]), Nil()])).toEqual(Nil());
+    expect(List.sequence([])).toEqual(List.fromIterable([[]]));
+  });
+
+  it("should display `List`s", () => {
+    expect(show(List.fromIterable([1, 2]))).toBe("Cons(1, Cons(2, Nil))");
+  });
+});
+
+describe("interop", () => {
+  it("should work with the converters of `kind-adt/interop`", () => {
+    const OptionInterop = optionInterop<Option.OptionHKT>(Option);
+    expect(OptionInterop.fromFpTs({ _tag: "Some", value: 42 })).toEqual(Some(42));
+    expect(OptionInterop.toFpTs(None())).toStrictEqual({ _tag: "None" });
+
+    const ResultInterop = resultInterop<Result.ResultHKT>(Result);
+    expect(ResultInterop.fromFpTs({ _tag: "Left", left: "error" })).toEqual(Err("error"));
+    expect(ResultInterop.toFpTs(Ok(42))).toStrictEqual({ _tag: "Right", right: 42 });
+  });
+});
@@ -0,0 +1,77 @@
+import type { Arg0, HKT } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data } from "../src";
+import { VariantMismatchError, make } from "../src";
+
+type Shape = Data<{
+  Circle: [radius: number];
+  Rectangle: [width: number, height: number];
+  Empty: [];
+}>;
+
+type Option<T> = Data<{
+  Some: [value: T];
+  None: [];
+}>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+describe("ADT.tags", () => {
+  it("should list the variants in order", () => {
+    const Shape = make<Shape>(["Circle", "Rectangle", "Empty"]);
+    expect(Shape.tags).toEqual(["Circle", "Rectangle", "Empty"]);
+    expect(Object.isFrozen(Shape.tags)).toBe(true);
+  });
+});
+
+describe("ADT.variants", () => {
+  it("should map each tag to its constructor", () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+    expect(Object.keys(Option.variants)).toEqual(["Some", "None"]);
+    expect(Option.variants.Some).toBe(Option.Some);
+    expect(Option.variants.None).toBe(Option.None);
+    expect(Object.isFrozen(Option.variants)).toBe(true);
+
+    // Walk an ADT definition
+    expect(Option.tags.map((tag) => Option.variants[tag]._tag)).toEqual(["Some", "None"]);
+  });
+});
+
+describe("ADT.arity", () => {
+  it("should return declared arities", () => {
+    const Shape = make<Shape>({ Circle: 1, Rectangle: 2, Empty: 0 });
+    expect(Shape.tags.map((tag) => Shape.arity(tag))).toEqual([1, 2, 0]);
+
+    const Option = make<OptionHKT>(["Some", "None"]);
+    Option.Some(42);
+    expect(Option.arity("Some")).toBe(undefined);
+  });
+
+  it("should reject unknown tags", () => {
+    const Option = make<OptionHKT>(["Some", "None"], { name: "Option" });
+    expect(() => Option.arity("Ok" as never)).toThrowErrorMatchingInlineSnapshot(
+      `[VariantMismatchError: Expected \`Some\`/\`None\`, but got \`"Ok"\`]`,
+    );
+    expect(() => Option.arity("Ok" as never)).toThrow(VariantMismatchError);
+  });
+});
+
+describe("ADT.labels", () => {
+  it("should return the labels passed to `make`", () => {
+    const labels = { Circle: ["radius"], Rectangle: ["width", "height"], Empty: [] };
+    expect(make<Shape>(["Circle", "Rectangle", "Empty"], { labels }).labels).toBe(labels);
+    expect(make<Shape>(["Circle", "Rectangle", "Empty"]).labels).toBe(undefined);
+  });
+});
+
+describe("make without variants", () => {
+  it("should throw on reflection members instead of creating constructors", () => {
+    const Option = make<OptionHKT>() as unknown as Record<string, unknown>;
+    for (const prop of ["tags", "variants", "arity", "labels"])
+      expect(() => Option[prop]).toThrow(
+        `\`${prop}\` is not available for ADTs created without variants`,
+      );
+  });
+});
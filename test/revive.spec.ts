@@ -0,0 +1,154 @@
+import type { Arg0, Arg1, HKT, HKT2 } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data } from "../src";
+import { ADTProto, equals, make, unwrap } from "../src";
+
+type Option<T> = Data<{
+  Some: [value: T];
+  None: [];
+}>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+type Result<T, E> = Data<{
+  Ok: [value: T];
+  Err: [error: E];
+}>;
+interface ResultHKT extends HKT2 {
+  return: Result<Arg0<this>, Arg1<this>>;
+}
+
+describe("ADT.revive", () => {
+  it("should restore the prototype of ADTs", () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+
+    const revived = Option.revive<Option<number>>(JSON.parse(JSON.stringify(Option.Some(42))));
+    expect(Object.getPrototypeOf(revived)).toBe(ADTProto);
+    expect(revived).toEqual(Option.Some(42));
+    expect(revived.pipe(Option.isSome)).toBe(true);
+  });
+
+  it("should revive serialized nullary ADTs as their constructors", () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+
+    expect(Option.revive(JSON.parse(JSON.stringify(Option.None)))).toBe(Option.None);
+    expect(Option.revive(JSON.parse(JSON.stringify(Option.None())))).toBe(Option.None);
+    expect(Option.revive(structuredClone(Option.None()))).toBe(Option.None);
+  });
+
+  it("should revive ADTs recursively in place", () => {
+    const { None, Some, revive } = make<OptionHKT>(["Some", "None"]);
+
+    const original = {
+      options: [Some(1), None(), Some(Some(None()))],
+      map: new Map([[Some("key"), Some("value")]]),
+      set: new Set([Some(1)]),
+    };
+    const cloned = structuredClone(original);
+    const revived = revive<typeof original>(cloned);
+
+    expect(revived).toBe(cloned);
+    expect(equals(revived, original)).toBe(true);
+    expect(revived.options[1]).toBe(None);
+    expect(revived.options[2]).toEqual(Some(Some(None)));
+    for (const option of revived.options) expect(typeof option.pipe).toBe("function");
+    for (const [key, value] of revived.map) {
+      expect(Object.getPrototypeOf(key)).toBe(ADTProto);
+      expect(Object.getPrototypeOf(value)).toBe(ADTProto);
+    }
+    for (const value of revived.set) expect(Object.getPrototypeOf(value)).toBe(ADTProto);
+  });
+
+  it("should handle circular references", () => {
+    const { Some, revive } = make<OptionHKT>(["Some", "None"]);
+
+    const original: Record<string, unknown> = { value: 1 };
+    original.self = Some(original);
+    const cloned = structuredClone(original);
+    const revived = revive<typeof original>(cloned);
+
+    expect(Object.getPrototypeOf(revived.self)).toBe(ADTProto);
+    expect(unwrap(revived.self as Option<unknown>)[0]).toBe(revived);
+  });
+
+  it("should leave non-ADT values untouched", () => {
+    const { revive } = make<OptionHKT>(["Some", "None"]);
+
+    expect(revive(42)).toBe(42);
+    expect(revive(null)).toBe(null);
+    const date = new Date(0);
+    expect(revive(date)).toBe(date);
+    const tagged = { _tag: "Some", name: "foo" };
+    expect(Object.getPrototypeOf(revive(tagged))).toBe(Object.prototype);
+  });
+
+  it("should reject unknown tags if variants are provided", () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+
+    expect(() => Option.revive({ _tag: "Ok", _0: 42 })).toThrowErrorMatchingInlineSnapshot(
+      `[VariantMismatchError: Expected \`Some(...)\`/\`None(...)\`, but got \`{ _tag: "Ok", _0: 42 }\`]`,
+    );
+  });
+
+  it("should revive nested ADTs with unknown tags generically", () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+    const Result = make<ResultHKT>(["Ok", "Err"]);
+
+    const revived = Option.revive<Option<Result<number, never>>[]>(
+      JSON.parse(JSON.stringify([Option.Some(Result.Ok(42)), { _tag: "Err" }])),
+    );
+    expect(equals(revived, [Option.Some(Result.Ok(42)), Result.Err])).toBe(true);
+    expect(Object.getPrototypeOf(unwrap(revived[0])[0])).toBe(ADTProto);
+    expect(Object.getPrototypeOf(revived[1])).toBe(ADTProto);
+  });
+
+  it("should revive any tag if variants are not provided", () => {
+    const { Ok, revive } = make<ResultHKT>();
+    const { Some } = make<OptionHKT>();
+
+    const revived = revive<Result<Option<number>, never>[]>(
+      JSON.parse(JSON.stringify([Ok(Some(42))])),
+    );
+    expect(revived).toEqual([Ok(Some(42))]);
+    expect(Object.getPrototypeOf(revived[0])).toBe(ADTProto);
+  });
+});
+
+describe("ADT.reviver", () => {
+  it("should revive ADTs in `JSON.parse`", () => {
+    const { None, Some, reviver } = make<OptionHKT>(["Some", "None"]);
+
+    const revived: { options: Option<Option<number>>[] } = JSON.parse(
+      JSON.stringify({ options: [Some(Some(42)), Some(None), None] }),
+      reviver,
+    );
+    expect(revived.options).toEqual([Some(Some(42)), Some(None), None]);
+    expect(revived.options[2]).toBe(None);
+    expect((revived.options[1] as Option<Option<number>> & { _tag: "Some" })._0).toBe(None);
+    expect(Object.getPrototypeOf(revived.options[0])).toBe(ADTProto);
+  });
+
+  it("should reject unknown tags of the root value if variants are provided", () => {
+    const { reviver } = make<OptionHKT>(["Some", "None"]);
+
+    expect(() =>
+      JSON.parse('{ "_tag": "Ok", "_0": 42 }', reviver),
+    ).toThrowErrorMatchingInlineSnapshot(
+      `[VariantMismatchError: Expected \`Some(...)\`/\`None(...)\`, but got \`{ _tag: "Ok", _0: 42 }\`]`,
+    );
+  });
+
+  it("should revive nested ADTs created by other `make` calls", () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+    const Result = make<ResultHKT>(["Ok", "Err"]);
+
+    const revived: Option<Result<number, never>> = JSON.parse(
+      JSON.stringify(Option.Some(Result.Ok(1))),
+      Option.reviver,
+    );
+    expect(revived).toEqual(Option.Some(Result.Ok(1)));
+    expect(Object.getPrototypeOf(unwrap(revived)[0])).toBe(ADTProto);
+  });
+});
@@ -0,0 +1,141 @@
+import type { Arg0, HKT } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data, StandardSchemaV1 } from "../src";
+import { ValidationError, make } from "../src";
+
+type UntypedFunction = (...args: unknown[]) => unknown;
+
+const schema = <T>(
+  validate: (value: unknown) => StandardSchemaV1.Result<T> | Promise<StandardSchemaV1.Result<T>>,
+): StandardSchemaV1<unknown, T> => ({ "~standard": { version: 1, vendor: "test", validate } });
+
+const number = schema<number>((value) =>
+  typeof value === "number" ? { value } : { issues: [{ message: "Expected number" }] },
+);
+const positive = schema<number>((value) =>
+  typeof value === "number" && value > 0 ?
+    { value }
+  : { issues: [{ message: "Expected positive number" }] },
+);
+const trimmed = schema<string>((value) =>
+  typeof value === "string" ?
+    { value: value.trim() }
+  : { issues: [{ message: "Expected string" }] },
+);
+const point = schema<{ x: number; y: number }>((value) => {
+  const { x, y } = value as Record<string, unknown>;
+  const issues: StandardSchemaV1.Issue[] = [];
+  if (typeof x !== "number") issues.push({ message: "Expected number", path: ["x"] });
+  if (typeof y !== "number") issues.push({ message: "Expected number", path: [{ key: "y" }] });
+  return issues.length ? { issues } : { value: { x: x as number, y: y as number } };
+});
+const unknown = schema<unknown>((value) => ({ value }));
+
+type Shape = Data<{
+  Circle: [center: { x: number; y: number }, radius: number];
+  Rectangle: [width: number, height: number];
+  Label: [text: string];
+  Empty: [];
+}>;
+
+const shapeSchemas = {
+  Circle: [point, positive],
+  Rectangle: [number, number],
+  Label: [trimmed],
+  Empty: [],
+} as const;
+
+describe("make with schemas", () => {
+  it("should create ADTs with valid fields", () => {
+    const Shape = make<Shape>(shapeSchemas);
+
+    expect(Shape.Circle({ x: 0, y: 0 }, 1)).toEqual({ _tag: "Circle", _0: { x: 0, y: 0 }, _1: 1 });
+    expect(Shape.Rectangle(2, 3)).toEqual({ _tag: "Rectangle", _0: 2, _1: 3 });
+    expect(Shape.Empty()).toEqual({ _tag: "Empty" });
+    expect(Shape.isCircle(Shape.Circle({ x: 0, y: 0 }, 1))).toBe(true);
+    expect(Shape.match(Shape.Rectangle(2, 3), { Rectangle: (w, h) => w * h, _: () => 0 })).toBe(6);
+  });
+
+  it("should use the output values of schemas as fields", () => {
+    const Shape = make<Shape>(shapeSchemas);
+
+    expect(Shape.Label("  foo  ")).toEqual({ _tag: "Label", _0: "foo" });
+  });
+
+  it("should throw a `ValidationError` with the field path for invalid fields", () => {
+    const Shape = make<Shape>(shapeSchemas);
+
+    expect(() => Shape.Circle({ x: 0, y: 0 }, -1)).toThrowErrorMatchingInlineSnapshot(
+      `[ValidationError: $._1: Expected positive number]`,
+    );
+    expect(() => Shape.Circle({ x: "0", y: null } as never, 0)).toThrowErrorMatchingInlineSnapshot(`
+      [ValidationError: $._0.x: Expected number
+      $._0.y: Expected number
+      $._1: Expected positive number]
+    `);
+
+    try {
+      Shape.Rectangle(2, "3" as never);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error).toBeInstanceOf(TypeError);
+      expect((error as ValidationError).path).toBe("$._1");
+      expect((error as ValidationError).issues).toEqual([
+        { message: "Expected number", path: "$._1" },
+      ]);
+    }
+  });
+
+  it("should check the number of arguments", () => {
+    const Shape = make<Shape>(shapeSchemas);
+
+    expect(() => (Shape.Rectangle as UntypedFunction)(1)).toThrowErrorMatchingInlineSnapshot(
+      `[ValidationError: $: Expected 2 arguments for \`Rectangle(...)\`, but got 1]`,
+    );
+    expect(() => (Shape.Label as UntypedFunction)("foo", "bar")).toThrowErrorMatchingInlineSnapshot(
+      `[ValidationError: $: Expected 1 argument for \`Label(...)\`, but got 2]`,
+    );
+    expect(() => (Shape.Empty as UntypedFunction)(42)).toThrowErrorMatchingInlineSnapshot(
+      `[ValidationError: $: Expected 0 arguments for \`Empty(...)\`, but got 1]`,
+    );
+  });
+
+  it("should return a `ValidationError` instead of throwing in safe mode", () => {
+    const Shape = make<Shape>(shapeSchemas, { safe: true });
+
+    const circle = Shape.Circle({ x: 0, y: 0 }, -1);
+    expect(circle).toBeInstanceOf(ValidationError);
+    expect((circle as ValidationError).path).toBe("$._1");
+    expect((circle as ValidationError).message).toBe("$._1: Expected positive number");
+
+    expect(Shape.Rectangle(2, 3)).toEqual({ _tag: "Rectangle", _0: 2, _1: 3 });
+  });
+
+  it("should reject asynchronous schemas", () => {
+    const Async = make<Data<{ Async: [value: unknown] }>>({
+      Async: [schema((value) => Promise.resolve({ value }))],
+    });
+
+    expect(() => Async.Async(42)).toThrowErrorMatchingInlineSnapshot(
+      `[TypeError: Schema validation for \`Async(...)\` must be synchronous, but the schema of field _0 returned a Promise]`,
+    );
+  });
+
+  it("should support generic ADTs", () => {
+    type Option<T> = Data<{
+      Some: [value: T];
+      None: [];
+    }>;
+    interface OptionHKT extends HKT {
+      return: Option<Arg0<this>>;
+    }
+
+    const Option = make<OptionHKT>({ Some: [unknown], None: [] });
+
+    expect(Option.Some(42)).toEqual({ _tag: "Some", _0: 42 });
+    expect(Option.unwrap(Option.Some(42))).toEqual([42]);
+    expect(() => (Option.Some as UntypedFunction)()).toThrow(ValidationError);
+  });
+});
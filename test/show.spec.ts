@@ -0,0 +1,155 @@
+import type { Arg0, HKT } from "hkt-core";
+import { describe, expect, it } from "vitest";
+
+import type { Data } from "../src";
+import { make, show } from "../src";
+
+type Option<T> = Data<{
+  Some: [value: T];
+  None: [];
+}>;
+interface OptionHKT extends HKT {
+  return: Option<Arg0<this>>;
+}
+
+type Tree = Data<{
+  Node: { 0: Tree; 1: Tree; 2: number };
+  Empty: [];
+}>;
+
+describe("show", () => {
+  it("should display ADTs in the `Tag(field, ...)` notation", () => {
+    const { None, Some } = make<OptionHKT>();
+
+    expect(show(Some(42))).toBe("Some(42)");
+    expect(show(None)).toBe("None");
+    expect(show(None())).toBe("None");
+    expect(show(Some([Some("foo"), None, { value: Some(1n) }]))).toBe(
+      'Some([Some("foo"), None, { value: Some(1n) }])',
+    );
+    expect(show(Object.assign(Some(1), { extra: true }))).toBe("Some(1) { extra: true }");
+
+    const value: unknown[] = [];
+    value.push(Some(value));
+    expect(show(value)).toBe("[Some([Circular])]");
+  });
+
+  it("should display other values", () => {
+    class Point {
+      constructor(
+        public x: number,
+        public y: number,
+      ) {}
+    }
+
+    expect(show([1, -0, NaN, "foo", true, null, undefined, Symbol("foo")])).toBe(
+      '[1, -0, NaN, "foo", true, null, undefined, Symbol(foo)]',
+    );
+    expect(show({ a: 1, "b-c": [], [Symbol("d")]: {} })).toBe('{ a: 1, "b-c": [], Symbol(d): {} }');
+    expect(show(new Point(1, 2))).toBe("Point { x: 1, y: 2 }");
+    expect(show(new Map([["a", new Set([1])]]))).toBe('Map(1) { "a" => Set(1) { 1 } }');
+    expect(show(new Date(0))).toBe("1970-01-01T00:00:00.000Z");
+    expect(show([/foo/g, function foo() {}, () => {}])).toBe(
+      "[/foo/g, [Function: foo], [Function (anonymous)]]",
+    );
+  });
+
+  it("should break values that do not fit in `maxWidth` into multiple lines", () => {
+    const { Empty, Node } = make<Tree>();
+
+    const tree = Node(Empty, Node(Empty, Empty, 2), 1);
+    expect(show(tree, { indent: 2 })).toBe("Node(Empty, Node(Empty, Empty, 2), 1)");
+    expect(show(tree, { indent: 2, maxWidth: 30 })).toBe(
+      "Node(\n" + "  Empty,\n" + "  Node(Empty, Empty, 2),\n" + "  1\n" + ")",
+    );
+    expect(show(tree, { indent: 4, maxWidth: 20 })).toBe(
+      "Node(\n" +
+        "    Empty,\n" +
+        "    Node(\n" +
+        "        Empty,\n" +
+        "        Empty,\n" +
+        "        2\n" +
+        "    ),\n" +
+        "    1\n" +
+        ")",
+    );
+    expect(show(tree, { maxWidth: 10 })).toBe("Node(Empty, Node(Empty, Empty, 2), 1)");
+  });
+
+  it("should collapse one-field ADTs if the field is an array, object, `Map` or `Set`", () => {
+    const { Some } = make<OptionHKT>();
+
+    expect(show(Some({ foo: [1, 2, 3], bar: "baz" }), { indent: 2, maxWidth: 20 })).toBe(
+      "Some({\n" + "  foo: [1, 2, 3],\n" + '  bar: "baz"\n' + "})",
+    );
+    expect(show(Some(Some([1, 2, 3])), { indent: 2, maxWidth: 12 })).toBe(
+      "Some(\n" + "  Some([\n" + "    1,\n" + "    2,\n" + "    3\n" + "  ])\n" + ")",
+    );
+  });
+
+  it("should add trailing commas according to `trailingComma`", () => {
+    const { Empty, Node } = make<Tree>();
+
+    const tree = Node(Empty, Empty, 1);
+    expect(show([tree], { trailingComma: "always" })).toBe("[Node(Empty, Empty, 1,),]");
+    expect(show([tree], { trailingComma: "auto" })).toBe("[Node(Empty, Empty, 1)]");
+    expect(show(tree, { indent: 2, maxWidth: 10, trailingComma: "auto" })).toBe(
+      "Node(\n" + "  Empty,\n" + "  Empty,\n" + "  1,\n" + ")",
+    );
+  });
+
+  it("should limit the depth with `depth`", () => {
+    const { None, Some } = make<OptionHKT>();
+
+    const value = { a: { b: [Some(Some(1)), None, new Map()] } };
+    expect(show(value, { depth: 0 })).toBe("{ a: [Object] }");
+    expect(show(value, { depth: 1 })).toBe("{ a: { b: [Array] } }");
+    expect(show(value, { depth: 2 })).toBe("{ a: { b: [Some(...), None, [Map]] } }");
+    expect(show(value, { depth: 3 })).toBe("{ a: { b: [Some(Some(...)), None, Map(0) {}] } }");
+  });
+
+  it("should colorize the output with `colors`", () => {
+    const { Some } = make<OptionHKT>();
+
+    expect(show(Some(["foo", 42, null]), { colors: true })).toBe(
+      '\x1b[36mSome\x1b[39m([\x1b[32m"foo"\x1b[39m, \x1b[33m42\x1b[39m, \x1b[1mnull\x1b[22m])',
+    );
+    // Colors are not counted in the width
+    expect(show(Some(42), { colors: true, indent: 2, maxWidth: 8 })).toBe(
+      "\x1b[36mSome\x1b[39m(\x1b[33m42\x1b[39m)",
+    );
+  });
+
+  it("should use the display overrides passed to `make`", () => {
+    type Money = Data<{ Money: [cents: number]; Free: [] }>;
+    const Money = make<Money>(["Money", "Free"], {
+      display: { Money: (cents) => `$${(cents / 100).toFixed(2)}`, Free: () => "FREE" },
+    });
+    const { Some } = make<OptionHKT>();
+
+    expect(show(Money.Money(1200))).toBe("$12.00");
+    expect(show(Money.Free)).toBe("FREE");
+    expect(show(Some({ price: Money.Money(50), shipping: Money.Free() }))).toBe(
+      "Some({ price: $0.50, shipping: FREE })",
+    );
+    expect(show(Money.revive(JSON.parse('[{ "_tag": "Money", "_0": 99 }]')))).toBe("[$0.99]");
+    expect(show(Money.decode({ _tag: "Money", _0: 1 }))).toBe("$0.01");
+    expect(show(Money.parse("Money(100)"))).toBe("$1.00");
+    expect(() => Money.match(Money.Money(1), {} as never)).toThrowErrorMatchingInlineSnapshot(
+      `[MatchError: No case found for \`$0.01\`. Consider adding a catch-all case (\`_\`) if needed]`,
+    );
+  });
+
+  it("should be used in error messages", () => {
+    const Option = make<OptionHKT>(["Some", "None"]);
+
+    expect(() => Option.unwrapSome(Option.None as never)).toThrowErrorMatchingInlineSnapshot(
+      `[UnwrapError: Expected \`Some(...)\`, but got \`None\`]`,
+    );
+    expect(() =>
+      Option.match({ _tag: "Ok", _0: Option.Some(1) } as never, { Some: () => 0, None: () => 0 }),
+    ).toThrowErrorMatchingInlineSnapshot(
+      `[VariantMismatchError: Expected \`Some(...)\`/\`None(...)\`, but got \`{ _tag: "Ok", _0: Some(1) }\`]`,
+    );
+  });
+});
@@ -0,0 +1,4 @@
+// `process` is only available in Node.js-like environments, and `@types/node` is not loaded for the
+// library code. It is referenced only to check `process.env.NODE_ENV`, so that bundlers can replace
+// the check with a constant and strip development-only code from production builds
+declare const process: { readonly env: { readonly [key: string]: string | undefined } };